@@ -4,11 +4,13 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import NewHome from "@/pages/NewHome";
+import Admin from "@/pages/Admin";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={NewHome} />
+      <Route path="/admin" component={Admin} />
       <Route component={NotFound} />
     </Switch>
   );
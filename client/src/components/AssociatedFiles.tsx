@@ -0,0 +1,118 @@
+import { useRef } from "react";
+import { Paperclip as PaperclipIcon, X as XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { afRelationships, type AfRelationship } from "@shared/schema";
+
+export type AssociatedFile = {
+  file: File;
+  relationship: AfRelationship;
+};
+
+const relationshipLabels: Record<AfRelationship, string> = {
+  Source: "Origem",
+  Data: "Dados",
+  Alternative: "Alternativa",
+  Supplement: "Complemento",
+};
+
+interface AssociatedFilesProps {
+  files: AssociatedFile[];
+  onFilesChange: (files: AssociatedFile[]) => void;
+  embedOriginal: boolean;
+  onEmbedOriginalChange: (embedOriginal: boolean) => void;
+  disabled?: boolean;
+}
+
+// Files embedded in a PDF/A-3 output together with their AFRelationship
+export function AssociatedFiles({
+  files,
+  onFilesChange,
+  embedOriginal,
+  onEmbedOriginalChange,
+  disabled,
+}: AssociatedFilesProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const added = Array.from(e.target.files ?? []).map((file) => ({
+      file,
+      relationship: (/\.xml$/i.test(file.name) ? 'Data' : 'Supplement') as AfRelationship,
+    }));
+    onFilesChange([...files, ...added]);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium">Arquivos associados (PDF/A-3)</span>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() => inputRef.current?.click()}
+        >
+          <PaperclipIcon className="mr-2 h-4 w-4" />
+          Adicionar anexo
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          onChange={handleAdd}
+          className="hidden"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+        <Checkbox
+          checked={embedOriginal}
+          disabled={disabled}
+          onCheckedChange={(checked) => onEmbedOriginalChange(checked === true)}
+        />
+        Incorporar o arquivo original como origem (Source)
+      </label>
+
+      {files.map((item, index) => (
+        <div key={`${item.file.name}-${index}`} className="flex items-center gap-2 mt-2">
+          <span className="flex-1 min-w-0 truncate text-sm">{item.file.name}</span>
+          <Select
+            value={item.relationship}
+            disabled={disabled}
+            onValueChange={(value) =>
+              onFilesChange(files.map((other, i) =>
+                i === index ? { ...other, relationship: value as AfRelationship } : other
+              ))
+            }
+          >
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {afRelationships.map((relationship) => (
+                <SelectItem key={relationship} value={relationship}>
+                  {relationshipLabels[relationship]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <button
+            onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+            disabled={disabled}
+            className="text-gray-400 hover:text-red-500 transition-colors p-1"
+          >
+            <XIcon className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import {
+  pdfaConformanceLabel,
+  type ConversionReport,
+  type ValidationResult,
+} from "@shared/schema";
+import {
+  fixedGroups,
+  reviewItems,
+  violationGroups,
+  type ConformanceGroup,
+  type ConformanceItem,
+} from "@shared/conformance";
+import {
+  Check as CheckIcon,
+  AlertCircle as AlertCircleIcon,
+  Wrench as WrenchIcon,
+} from "lucide-react";
+
+function ItemList({ id, items }: { id: string; items: ConformanceItem[] }) {
+  return (
+    <Accordion type="multiple">
+      {items.map((item, index) => (
+        <AccordionItem key={index} value={`${id}-${index}`}>
+          <AccordionTrigger className="py-2 text-sm text-left hover:no-underline">
+            <span className="flex-1 pr-2">
+              {item.clause && <span className="font-mono text-xs text-gray-500 mr-2">{item.clause}</span>}
+              {item.title}
+              {item.pages.length > 0 && (
+                <span className="text-gray-500">
+                  {' '}({item.pages.length === 1 ? 'página' : 'páginas'} {item.pages.join(', ')})
+                </span>
+              )}
+            </span>
+          </AccordionTrigger>
+          <AccordionContent>
+            {item.details.length > 0 ? (
+              <ul className="list-disc pl-5 space-y-1 text-gray-600">
+                {item.details.map((detail, detailIndex) => <li key={detailIndex}>{detail}</li>)}
+              </ul>
+            ) : (
+              <p className="text-gray-500">Sem detalhes adicionais.</p>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
+
+function GroupList({ id, groups }: { id: string; groups: ConformanceGroup[] }) {
+  return (
+    <div className="space-y-3">
+      {groups.map((group) => (
+        <div key={group.label}>
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">{group.label}</span>
+            <Badge variant="secondary">{group.items.length}</Badge>
+          </div>
+          <ItemList id={`${id}-${group.label}`} items={group.items} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ConformanceReportProps {
+  validation: ValidationResult;
+  // Absent when a file was only validated, not converted
+  report?: ConversionReport | null;
+}
+
+/**
+ * What the file was checked against and the verdict: the ISO 19005 clauses
+ * it breaks, what the conversion fixed on the way and what is left to
+ * review.
+ */
+export function ConformanceReport({ validation, report }: ConformanceReportProps) {
+  const violations = violationGroups(validation);
+  const review = report ? reviewItems(report) : [];
+  const fixed = report ? fixedGroups(report) : [];
+  const profileLabel = pdfaConformanceLabel(validation.profile);
+
+  return (
+    <div className="mt-4 p-4 border rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold">Relatório de conformidade</h3>
+        <Badge variant={validation.compliant ? 'secondary' : 'destructive'}>
+          {validation.compliant ? `Conforme ${profileLabel}` : `Não conforme ${profileLabel}`}
+        </Badge>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {validation.claimed
+          ? `Nível declarado nos metadados XMP: ${pdfaConformanceLabel(validation.claimed)}.`
+          : 'O arquivo não declara conformidade PDF/A nos metadados XMP.'}
+        {' '}Verificado como {profileLabel}.
+      </p>
+
+      <div className="mb-4">
+        <div className="flex items-center gap-2 mb-2 text-sm font-semibold">
+          {violations.length === 0 && review.length === 0
+            ? <CheckIcon className="h-4 w-4 text-green-500" />
+            : <AlertCircleIcon className="h-4 w-4 text-red-500" />}
+          Pendências
+        </div>
+        {violations.length === 0 && review.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma regra violada e nada a revisar.</p>
+        ) : (
+          <GroupList
+            id="remaining"
+            groups={[...violations, ...(review.length > 0 ? [{ label: 'Para revisar', items: review }] : [])]}
+          />
+        )}
+      </div>
+
+      {report && (
+        <div>
+          <div className="flex items-center gap-2 mb-2 text-sm font-semibold">
+            <WrenchIcon className="h-4 w-4 text-gray-500" />
+            Corrigido automaticamente
+          </div>
+          {fixed.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhuma correção foi necessária.</p>
+          ) : (
+            <GroupList id="fixed" groups={fixed} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
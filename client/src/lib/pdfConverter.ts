@@ -1,12 +1,21 @@
 import { createWorker } from 'tesseract.js';
 import { PDFDocument } from 'pdf-lib';
+import type { PdfaFormatType } from '@shared/schema';
 
 // Interface for conversion options
 interface ConversionOptions {
   applyOcr: boolean;
-  formatType: 'pdf_a_2u';
+  formatType: PdfaFormatType;
 }
 
+// Tesseract files served by the app itself, so OCR works without internet
+// access. The worker runs from a blob URL, hence the absolute URLs.
+const tesseractOptions = () => ({
+  workerPath: new URL('/tesseract/worker.min.js', window.location.origin).href,
+  corePath: new URL('/tesseract/core', window.location.origin).href,
+  langPath: new URL('/tesseract/lang', window.location.origin).href,
+});
+
 // Interface for conversion progress updates
 interface ProgressUpdate {
   stage: string;
@@ -41,7 +50,7 @@ export async function convertToPdfA(
       onProgress({ stage: 'Aplicando OCR...', progress: 30 });
       
       // Initialize Tesseract worker
-      const worker = await createWorker('por');
+      const worker = await createWorker('por', undefined, tesseractOptions());
       
       // Process each page with OCR
       const pageCount = pdfDoc.getPageCount();
@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { File as FileIcon } from "lucide-react";
+import type { InstalledLanguages } from "@shared/schema";
+
+// Format file size for display
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const Admin = () => {
+  const { data, isLoading, isError } = useQuery<InstalledLanguages>({
+    queryKey: ['/api/ocr/languages'],
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <FileIcon className="h-6 w-6 text-primary" />
+            <h1 className="text-xl font-bold">Tatianus</h1>
+          </Link>
+          <div className="text-sm text-gray-500">
+            Administração
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-10">
+        <div className="max-w-3xl mx-auto">
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold mb-3">Idiomas de OCR instalados</h3>
+              {isLoading && <p className="text-sm text-gray-500">Carregando...</p>}
+              {isError && (
+                <Alert variant="destructive">
+                  <AlertDescription>Não foi possível obter a lista de idiomas.</AlertDescription>
+                </Alert>
+              )}
+              {data && (
+                <>
+                  <p className="text-sm text-gray-600 mb-4">
+                    Diretório: <code className="text-xs">{data.directory}</code>. Os idiomas dos pacotes{" "}
+                    <code className="text-xs">@tesseract.js-data/*</code> são copiados para ele na instalação;{" "}
+                    execute <code className="text-xs">npm run tessdata</code> depois de definir TESSDATA_DIR
+                    para usar outro diretório, ou copie para ele os arquivos <code className="text-xs">.traineddata</code>{" "}
+                    (ou <code className="text-xs">.traineddata.gz</code>) de cada idioma. A detecção automática
+                    de idioma e orientação precisa de <code className="text-xs">osd.traineddata</code>.
+                  </p>
+                  {data.languages.length === 0 ? (
+                    <Alert>
+                      <AlertDescription>
+                        Nenhum idioma instalado: o OCR não funcionará até que os arquivos sejam copiados ou{" "}
+                        <code className="text-xs">npm run tessdata</code> seja executado.
+                      </AlertDescription>
+                    </Alert>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Código</TableHead>
+                          <TableHead>Arquivo</TableHead>
+                          <TableHead className="text-right">Tamanho</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {data.languages.map((language) => (
+                          <TableRow key={language.code}>
+                            <TableCell className="font-medium">{language.code}</TableCell>
+                            <TableCell>{language.file}</TableCell>
+                            <TableCell className="text-right">{formatFileSize(language.size)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Admin;
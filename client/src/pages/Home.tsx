@@ -7,6 +7,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { inputFileAccept, isAcceptedInputFile } from "@shared/schema";
 import { FileIcon, CloudUploadIcon, XIcon, ChevronRightIcon, CheckCircleIcon, AlertCircleIcon } from "lucide-react";
 
 type UploadState = 'idle' | 'dragging' | 'uploading' | 'processing' | 'success' | 'error';
@@ -37,19 +38,21 @@ const Home = () => {
   // Mutation for uploading and starting the conversion
   const conversionMutation = useMutation({
     mutationFn: async (file: File) => {
-      // In a real implementation, we would upload the file to a storage service
-      // and get a URL back. Here we're simulating that.
       const formData = new FormData();
       formData.append("file", file);
+      formData.append("originalName", file.name);
       
-      // Simulate file upload
       setUploadState('uploading');
       
-      // Simulate API call to create a conversion job
-      const response = await apiRequest("POST", "/api/pdf/convert", {
-        originalName: file.name,
-        inputUrl: URL.createObjectURL(file), // In a real app, this would be a server URL
+      // Upload the file and create the conversion job
+      const response = await fetch("/api/pdf/convert", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
       });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
       
       const job = await response.json();
       setCurrentJobId(job.id);
@@ -95,13 +98,13 @@ const Home = () => {
   useEffect(() => {
     if (progressQuery.data) {
       const data = progressQuery.data as ConversionProgress;
-      if (data.status === 'completed') {
+      if (data.status === 'completed' || data.status === 'completed_with_warnings') {
         setUploadState('success');
         toast({
           title: "Sucesso",
           description: "Conversão concluída com sucesso!",
         });
-      } else if (data.status === 'failed') {
+      } else if (data.status === 'failed' || data.status === 'failed_validation') {
         setUploadState('error');
         setErrorMessage(data.errorMessage || "Ocorreu um erro durante a conversão.");
         toast({
@@ -121,11 +124,11 @@ const Home = () => {
     
     if (e.target.files && e.target.files.length > 0) {
       const file = e.target.files[0];
-      if (file.type !== 'application/pdf') {
+      if (!isAcceptedInputFile(file)) {
         toast({
           variant: "destructive",
           title: "Erro",
-          description: "Por favor, selecione um arquivo PDF válido.",
+          description: "Por favor, selecione um arquivo PDF, JPEG, PNG ou TIFF válido.",
         });
         return;
       }
@@ -170,7 +173,7 @@ const Home = () => {
     
     if (e.dataTransfer.files.length > 0) {
       const file = e.dataTransfer.files[0];
-      if (file.type === 'application/pdf') {
+      if (isAcceptedInputFile(file)) {
         setSelectedFile({
           file,
           name: file.name,
@@ -189,7 +192,7 @@ const Home = () => {
         toast({
           variant: "destructive",
           title: "Erro",
-          description: "Por favor, selecione um arquivo PDF válido.",
+          description: "Por favor, selecione um arquivo PDF, JPEG, PNG ou TIFF válido.",
         });
       }
     }
@@ -280,7 +283,7 @@ const Home = () => {
                     <div className="upload-icon mb-4">
                       <CloudUploadIcon className="w-12 h-12 mx-auto text-slate-400" />
                     </div>
-                    <h3 className="font-semibold text-lg mb-2">Arraste e solte seu arquivo PDF aqui</h3>
+                    <h3 className="font-semibold text-lg mb-2">Arraste e solte seu arquivo PDF ou imagem aqui</h3>
                     <p className="text-slate-500 mb-4">ou</p>
                     <Button onClick={handleBrowseClick}>
                       Selecionar arquivo
@@ -289,10 +292,10 @@ const Home = () => {
                       type="file" 
                       ref={fileInputRef}
                       className="hidden" 
-                      accept=".pdf" 
+                      accept={inputFileAccept} 
                       onChange={handleFileSelect} 
                     />
-                    <p className="text-sm text-slate-500 mt-3">Tamanho máximo: 50MB</p>
+                    <p className="text-sm text-slate-500 mt-3">Tamanho máximo: 10MB</p>
                   </>
                 )}
               </div>
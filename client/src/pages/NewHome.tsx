@@ -1,11 +1,42 @@
 import { useState, useRef, ChangeEvent, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  complianceReportTypes,
+  inputFileAccept,
+  inputMimeTypes,
+  isAcceptedInputFile,
+  isTaggedFormat,
+  ocrArtifactTypes,
+  pdfaConformanceLabel,
+  pdfaFormatLabels,
+  pdfaFormatTypes,
+  type ComplianceReportType,
+  type OcrArtifactType,
+  type OcrMode,
+  type PdfaFormatType,
+  type PdfJob,
+  type InstalledLanguages,
+  type TransparencyMode,
+  type ValidationResult,
+} from "@shared/schema";
+import { AssociatedFiles, type AssociatedFile } from "@/components/AssociatedFiles";
+import { ConformanceReport } from "@/components/ConformanceReport";
 import {
   Check as CheckIcon,
   AlertCircle as AlertCircleIcon,
@@ -13,6 +44,7 @@ import {
   File as FileIcon,
   X as XIcon,
   Download as DownloadIcon,
+  Lock as LockIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -23,7 +55,25 @@ type FileState = {
   size: string;
 };
 
-type ConversionStatus = 'idle' | 'uploading' | 'processing' | 'success' | 'error';
+const ocrArtifactLabels: Record<OcrArtifactType, string> = {
+  hocr: 'hOCR',
+  alto: 'ALTO',
+  text: 'Texto',
+};
+
+const complianceReportLabels: Record<ComplianceReportType, string> = {
+  json: 'Relatório JSON',
+  html: 'Relatório HTML',
+  pdf: 'Relatório PDF/A',
+};
+
+// Convert the file to PDF/A, or only check whether it already is one
+type Mode = 'convert' | 'validate';
+
+type ConversionStatus = 'idle' | 'uploading' | 'processing' | 'password' | 'success' | 'validated' | 'error';
+
+// Only PDFs can be validated
+const isPdfFile = ({ name, type }: File) => type === inputMimeTypes.pdf || /\.pdf$/i.test(name);
 
 interface ConversionProgress {
   jobId: number;
@@ -39,10 +89,34 @@ const PdfConverter = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // State management
+  const [mode, setMode] = useState<Mode>('convert');
   const [selectedFile, setSelectedFile] = useState<FileState | null>(null);
   const [status, setStatus] = useState<ConversionStatus>('idle');
   const [jobId, setJobId] = useState<number | null>(null);
   const [errorMessage, setErrorMessage] = useState<string>("");
+  const [formatType, setFormatType] = useState<PdfaFormatType>('pdf_a_2u');
+  const formatLabel = pdfaFormatLabels[formatType];
+  // Pages OCR runs on; by default only those without text
+  const [ocrMode, setOcrMode] = useState<OcrMode>('skip_text');
+  // Tesseract languages joined with "+", or "auto" to detect them
+  const [ocrLanguages, setOcrLanguages] = useState("por");
+  // Pages whose OCR confidence falls below this are listed for review
+  const [confidenceThreshold, setConfidenceThreshold] = useState(70);
+  // OCR results to export next to the PDF
+  const [ocrArtifacts, setOcrArtifacts] = useState<OcrArtifactType[]>([]);
+  const [associatedFiles, setAssociatedFiles] = useState<AssociatedFile[]>([]);
+  const [embedOriginal, setEmbedOriginal] = useState(false);
+  // Password for encrypted input, asked for only when the server needs it
+  const [password, setPassword] = useState("");
+  const [passwordIncorrect, setPasswordIncorrect] = useState(false);
+  // Associated files only exist in PDF/A-3
+  const acceptsAttachments = formatType.startsWith('pdf_a_3');
+  // PDF/A-1 forbids transparency: flatten the pages using it or fail
+  const [transparency, setTransparency] = useState<TransparencyMode>('flatten');
+  const forbidsTransparency = formatType.startsWith('pdf_a_1');
+  // Level to validate against; "claimed" checks the one the file declares
+  const [validationLevel, setValidationLevel] = useState<PdfaFormatType | 'claimed'>('claimed');
+  const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
 
   // Mutation for uploading and creating a conversion job
   const createJobMutation = useMutation({
@@ -51,20 +125,19 @@ const PdfConverter = () => {
       
       // Create form data with file
       const formData = new FormData();
+      formData.append('file', file);
       formData.append('originalName', file.name);
-      formData.append('inputUrl', 'clientside'); // We're handling file directly in client
+      if (acceptsAttachments) {
+        associatedFiles.forEach(({ file: attachment, relationship }) => {
+          formData.append('attachments', attachment);
+          formData.append('attachmentRelationships', relationship);
+        });
+      }
 
-      // API request to create job
+      // API request to upload the file and create the job
       const response = await fetch('/api/pdf/convert', {
         method: 'POST',
-        body: JSON.stringify({
-          originalName: file.name,
-          inputUrl: 'clientside',
-          status: 'pending'
-        }),
-        headers: {
-          'Content-Type': 'application/json'
-        }
+        body: formData
       });
       
       if (!response.ok) {
@@ -88,18 +161,60 @@ const PdfConverter = () => {
     }
   });
 
+  // Mutation for validating a PDF without converting it
+  const validateMutation = useMutation({
+    mutationFn: async (file: File) => {
+      setStatus('uploading');
+
+      const formData = new FormData();
+      formData.append('file', file);
+      if (validationLevel !== 'claimed') {
+        formData.append('formatType', validationLevel);
+      }
+
+      const response = await fetch('/api/pdf/validate', {
+        method: 'POST',
+        body: formData
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to validate PDF file');
+      }
+
+      return await response.json() as ValidationResult;
+    },
+    onSuccess: (result) => {
+      setValidationResult(result);
+      setStatus('validated');
+    },
+    onError: () => {
+      setStatus('error');
+      setErrorMessage("Não foi possível ler o arquivo como PDF. Verifique o arquivo e tente novamente.");
+      toast({
+        variant: "destructive",
+        title: "Erro",
+        description: "Ocorreu um erro durante a validação do arquivo.",
+      });
+    }
+  });
+
   // Mutation for processing the PDF
   const processFileMutation = useMutation({
-    mutationFn: async ({ id, file }: { id: number; file: File }) => {
-      setStatus('processing');
-      
+    mutationFn: async ({ id, file, password }: { id: number; file: File; password?: string }) => {
       // API request to process file with options
       const response = await fetch(`/api/pdf/jobs/${id}/process`, {
         method: 'POST',
         body: JSON.stringify({
           options: {
             applyOcr: true,
-            formatType: 'pdf_a_2u'
+            ocrMode,
+            languages: ocrLanguages === 'auto' ? 'auto' : ocrLanguages.split('+'),
+            confidenceThreshold,
+            ocrArtifacts,
+            formatType,
+            embedOriginal: acceptsAttachments && embedOriginal,
+            transparency,
+            password
           }
         }),
         headers: {
@@ -108,14 +223,21 @@ const PdfConverter = () => {
       });
       
       if (!response.ok) {
-        throw new Error('Failed to process PDF file');
+        // The server names what it refused, e.g. attachments outside PDF/A-3
+        const { message } = await response.json().catch(() => ({}));
+        throw new Error(message || 'Failed to process PDF file');
       }
       
       return await response.json();
     },
+    // Polling starts only once the server has taken the job, so a retry
+    // never reads the status the previous attempt left behind
+    onSuccess: () => {
+      setStatus('processing');
+    },
     onError: (error) => {
       setStatus('error');
-      setErrorMessage("Falha ao processar o arquivo PDF. Por favor, tente novamente.");
+      setErrorMessage(`Falha ao processar o arquivo PDF: ${error.message}`);
       toast({
         variant: "destructive",
         title: "Erro",
@@ -142,6 +264,28 @@ const PdfConverter = () => {
     staleTime: 0
   });
 
+  // The finished job, for the OCR confidence of its pages and the
+  // conformance report; jobs that failed verification have one too
+  const failedValidation = status === 'error' && progressQuery.data?.status === 'failed_validation';
+  const jobQuery = useQuery<PdfJob>({
+    queryKey: [`/api/pdf/jobs/${jobId}`],
+    enabled: !!jobId && (status === 'success' || failedValidation),
+  });
+  const lowConfidencePages = jobQuery.data?.result?.ocr.filter((page) => page.lowConfidence) ?? [];
+  const producedArtifacts = jobQuery.data?.result?.ocrArtifacts ?? [];
+  // The output conforms, but the conversion left something to review
+  const completedWithWarnings = jobQuery.data?.status === 'completed_with_warnings';
+  // Language data installed on the server; OCR in any other language fails
+  // as soon as a page needs it, and so does OCR without the OSD data, used
+  // to detect page orientation and languages
+  const installedLanguagesQuery = useQuery<InstalledLanguages>({
+    queryKey: ['/api/ocr/languages'],
+  });
+  const installedLanguages = installedLanguagesQuery.data?.languages.map(({ code }) => code);
+  const missingOcrLanguages = installedLanguages
+    ? [...(ocrLanguages === 'auto' ? [] : ocrLanguages.split('+')), 'osd'].filter((code) => !installedLanguages.includes(code))
+    : [];
+
   // Process file after job creation
   const processFile = (id: number) => {
     if (selectedFile) {
@@ -149,6 +293,14 @@ const PdfConverter = () => {
     }
   };
 
+  // Retry the same job with the password the user typed
+  const handleUnlock = () => {
+    if (!jobId || !selectedFile || !password) return;
+    // Drop the cached password status so it isn't mistaken for the new result
+    queryClient.removeQueries({ queryKey: ['/api/pdf/jobs/progress', jobId] });
+    processFileMutation.mutate({ id: jobId, file: selectedFile.file, password });
+  };
+
   // Handle file selection
   const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
     e.stopPropagation();
@@ -157,11 +309,13 @@ const PdfConverter = () => {
       const file = e.target.files[0];
       
       // Validate file type
-      if (file.type !== 'application/pdf') {
+      if (mode === 'validate' ? !isPdfFile(file) : !isAcceptedInputFile(file)) {
         toast({
           variant: "destructive",
           title: "Tipo de arquivo inválido",
-          description: "Por favor, selecione apenas arquivos PDF.",
+          description: mode === 'validate'
+            ? "Por favor, selecione um arquivo PDF."
+            : "Por favor, selecione um arquivo PDF, JPEG, PNG ou TIFF.",
         });
         return;
       }
@@ -176,8 +330,12 @@ const PdfConverter = () => {
         size: formatFileSize(file.size)
       });
       
-      // Automatically start conversion process
-      createJobMutation.mutate(file);
+      // Automatically start the conversion or validation
+      if (mode === 'validate') {
+        validateMutation.mutate(file);
+      } else {
+        createJobMutation.mutate(file);
+      }
     }
   };
 
@@ -189,11 +347,13 @@ const PdfConverter = () => {
       const file = e.dataTransfer.files[0];
       
       // Validate file type
-      if (file.type !== 'application/pdf') {
+      if (mode === 'validate' ? !isPdfFile(file) : !isAcceptedInputFile(file)) {
         toast({
           variant: "destructive",
           title: "Tipo de arquivo inválido",
-          description: "Por favor, solte apenas arquivos PDF.",
+          description: mode === 'validate'
+            ? "Por favor, solte um arquivo PDF."
+            : "Por favor, solte um arquivo PDF, JPEG, PNG ou TIFF.",
         });
         return;
       }
@@ -208,8 +368,12 @@ const PdfConverter = () => {
         size: formatFileSize(file.size)
       });
       
-      // Automatically start conversion process
-      createJobMutation.mutate(file);
+      // Automatically start the conversion or validation
+      if (mode === 'validate') {
+        validateMutation.mutate(file);
+      } else {
+        createJobMutation.mutate(file);
+      }
     }
   };
 
@@ -226,6 +390,9 @@ const PdfConverter = () => {
     setStatus('idle');
     setJobId(null);
     setErrorMessage("");
+    setValidationResult(null);
+    setPassword("");
+    setPasswordIncorrect(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
@@ -237,6 +404,12 @@ const PdfConverter = () => {
     resetState();
   };
 
+  // Switching modes drops the file picked for the other one
+  const handleModeChange = (value: string) => {
+    setMode(value as Mode);
+    handleRemoveFile();
+  };
+
   // Format file size for display
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
@@ -254,12 +427,25 @@ const PdfConverter = () => {
   // Use effect to handle status changes to prevent React warnings
   useEffect(() => {
     if (progressData && status === 'processing') {
-      if (progressData.status === 'completed') {
+      if (progressData.status === 'completed' || progressData.status === 'completed_with_warnings') {
         setStatus('success');
         toast({
           title: "Conversão finalizada",
-          description: "Seu arquivo PDF/A-2U está pronto para download!",
+          description: `Seu arquivo ${formatLabel} está pronto para download!`,
+        });
+      } else if (progressData.status === 'failed_validation') {
+        // The output did not conform, so there is nothing to download
+        const message = `O arquivo convertido não passou na verificação ${formatLabel} e não foi disponibilizado para download.`;
+        setStatus('error');
+        setErrorMessage(message);
+        toast({
+          variant: "destructive",
+          title: "Falha na verificação",
+          description: message,
         });
+      } else if (progressData.status === 'password_required' || progressData.status === 'password_incorrect') {
+        setStatus('password');
+        setPasswordIncorrect(progressData.status === 'password_incorrect');
       } else if (progressData.status === 'failed') {
         setStatus('error');
         setErrorMessage(progressData.errorMessage || "Ocorreu um erro na conversão.");
@@ -270,7 +456,7 @@ const PdfConverter = () => {
         });
       }
     }
-  }, [progressData, status, toast]);
+  }, [progressData, status, toast, formatLabel]);
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-50">
@@ -282,7 +468,7 @@ const PdfConverter = () => {
             <h1 className="text-xl font-bold">Tatianus</h1>
           </div>
           <div className="text-sm text-gray-500">
-            Conversor PDF/A-2U com OCR
+            Conversor PDF/A com OCR
           </div>
         </div>
       </header>
@@ -292,15 +478,185 @@ const PdfConverter = () => {
         <div className="max-w-3xl mx-auto">
           {/* Page Title */}
           <div className="text-center mb-8">
-            <h2 className="text-3xl font-bold mb-2">Conversor de PDF para PDF/A-2U</h2>
+            <h2 className="text-3xl font-bold mb-2">Conversor de PDF para PDF/A</h2>
             <p className="text-gray-600">
-              Converta seus documentos PDF para o formato PDF/A-2U com reconhecimento de caracteres (OCR)
+              Converta seus documentos PDF para o formato PDF/A com reconhecimento de caracteres (OCR)
             </p>
           </div>
 
           {/* Converter Card */}
           <Card className="mb-6 overflow-hidden">
             <CardContent className="p-6">
+              {/* Mode */}
+              <Tabs value={mode} onValueChange={handleModeChange} className="mb-6">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="convert" disabled={status === 'uploading' || status === 'processing'}>
+                    Converter
+                  </TabsTrigger>
+                  <TabsTrigger value="validate" disabled={status === 'uploading' || status === 'processing'}>
+                    Validar
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {/* Conformance Level */}
+              {mode === 'validate' ? (
+                <div className="flex items-center justify-between mb-4">
+                  <span className="text-sm font-medium">Validar como</span>
+                  <Select
+                    value={validationLevel}
+                    onValueChange={(value) => setValidationLevel(value as PdfaFormatType | 'claimed')}
+                    disabled={status === 'uploading'}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="claimed">Nível declarado</SelectItem>
+                      {pdfaFormatTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {pdfaFormatLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-sm font-medium">Nível de conformidade</span>
+                    <Select
+                      value={formatType}
+                      onValueChange={(value) => setFormatType(value as PdfaFormatType)}
+                      disabled={status === 'uploading' || status === 'processing'}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {pdfaFormatTypes.map((type) => (
+                          // Level A needs a logical structure (tags) the
+                          // converter cannot create, so only B and U are offered
+                          <SelectItem key={type} value={type} disabled={isTaggedFormat(type)}>
+                            {pdfaFormatLabels[type]}
+                            {isTaggedFormat(type) && ' (requer PDF com tags)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-sm font-medium">OCR</span>
+                    <Select
+                      value={ocrMode}
+                      onValueChange={(value) => setOcrMode(value as OcrMode)}
+                      disabled={status === 'uploading' || status === 'processing'}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip_text">Páginas sem texto</SelectItem>
+                        <SelectItem value="redo_ocr">Refazer OCR</SelectItem>
+                        <SelectItem value="force">Todas as páginas</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-sm font-medium">Idioma do OCR</span>
+                    <Select
+                      value={ocrLanguages}
+                      onValueChange={setOcrLanguages}
+                      disabled={status === 'uploading' || status === 'processing'}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Detectar</SelectItem>
+                        <SelectItem value="por">Português</SelectItem>
+                        <SelectItem value="spa">Espanhol</SelectItem>
+                        <SelectItem value="eng">Inglês</SelectItem>
+                        <SelectItem value="por+eng">Português e inglês</SelectItem>
+                        <SelectItem value="por+spa">Português e espanhol</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {missingOcrLanguages.length > 0 && (
+                    <Alert variant="destructive" className="mb-4">
+                      <AlertDescription>
+                        Dados de OCR não instalados no servidor: {missingOcrLanguages.join(', ')}.
+                        {' '}A conversão falhará se alguma página precisar de OCR.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-sm font-medium">Confiança mínima do OCR (%)</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-40"
+                      value={confidenceThreshold}
+                      onChange={(e) => setConfidenceThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+                      disabled={status === 'uploading' || status === 'processing'}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-sm font-medium">Exportar OCR</span>
+                    <div className="flex gap-4">
+                      {ocrArtifactTypes.map((type) => (
+                        <label key={type} className="flex items-center gap-2 text-sm text-gray-600">
+                          <Checkbox
+                            checked={ocrArtifacts.includes(type)}
+                            disabled={status === 'uploading' || status === 'processing'}
+                            onCheckedChange={(checked) =>
+                              setOcrArtifacts(checked === true
+                                ? [...ocrArtifacts, type]
+                                : ocrArtifacts.filter((other) => other !== type))
+                            }
+                          />
+                          {ocrArtifactLabels[type]}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  {forbidsTransparency && (
+                    <div className="flex items-center justify-between mb-4">
+                      <span className="text-sm font-medium">Transparência</span>
+                      <Select
+                        value={transparency}
+                        onValueChange={(value) => setTransparency(value as TransparencyMode)}
+                        disabled={status === 'uploading' || status === 'processing'}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="flatten">Achatar páginas</SelectItem>
+                          <SelectItem value="fail">Falhar conversão</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {acceptsAttachments && (
+                    <AssociatedFiles
+                      files={associatedFiles}
+                      onFilesChange={setAssociatedFiles}
+                      embedOriginal={embedOriginal}
+                      onEmbedOriginalChange={setEmbedOriginal}
+                      disabled={status === 'uploading' || status === 'processing'}
+                    />
+                  )}
+                </>
+              )}
+
               {/* Upload Area */}
               {!selectedFile ? (
                 <div
@@ -315,7 +671,11 @@ const PdfConverter = () => {
                   <div className="mb-4">
                     <UploadIcon className="h-12 w-12 mx-auto text-gray-400" />
                   </div>
-                  <h3 className="text-lg font-medium mb-2">Arraste e solte seu arquivo PDF aqui</h3>
+                  <h3 className="text-lg font-medium mb-2">
+                    {mode === 'validate'
+                      ? 'Arraste e solte o arquivo PDF a validar aqui'
+                      : 'Arraste e solte seu arquivo PDF ou imagem aqui'}
+                  </h3>
                   <p className="text-gray-500 mb-4">ou</p>
                   <Button
                     onClick={(e) => {
@@ -328,11 +688,13 @@ const PdfConverter = () => {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".pdf,application/pdf"
+                    accept={mode === 'validate' ? `.pdf,${inputMimeTypes.pdf}` : inputFileAccept}
                     onChange={handleFileSelect}
                     className="hidden"
                   />
-                  <p className="text-xs text-gray-500 mt-3">PDF até 10MB</p>
+                  <p className="text-xs text-gray-500 mt-3">
+                    {mode === 'validate' ? 'PDF até 10MB' : 'PDF, JPEG, PNG ou TIFF até 10MB'}
+                  </p>
                 </div>
               ) : (
                 <div>
@@ -358,8 +720,8 @@ const PdfConverter = () => {
                     <div className="mt-4">
                       <div className="flex justify-between mb-1">
                         <span className="text-sm font-medium">
-                          {status === 'uploading' 
-                            ? 'Enviando arquivo...' 
+                          {status === 'uploading'
+                            ? mode === 'validate' ? 'Validando arquivo...' : 'Enviando arquivo...'
                             : progressData?.stage || 'Processando...'}
                         </span>
                         <span className="text-sm">
@@ -380,11 +742,95 @@ const PdfConverter = () => {
                     <Alert className="mt-4 bg-green-50 border-green-100 text-green-800">
                       <CheckIcon className="h-4 w-4 mr-2 text-green-500" />
                       <AlertDescription>
-                        Conversão concluída com sucesso! Seu arquivo PDF/A-2U está pronto para download.
+                        Conversão concluída com sucesso! Seu arquivo {formatLabel} está pronto para download.
                       </AlertDescription>
                     </Alert>
                   )}
 
+                  {/* Conversion warnings */}
+                  {status === 'success' && completedWithWarnings && (
+                    <Alert className="mt-4 bg-amber-50 border-amber-100 text-amber-800">
+                      <AlertCircleIcon className="h-4 w-4 mr-2 text-amber-500" />
+                      <AlertDescription>
+                        O arquivo passou na verificação {formatLabel}, mas a conversão deixou itens para revisar.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {/* Pages to review */}
+                  {status === 'success' && lowConfidencePages.length > 0 && (
+                    <Alert className="mt-4 bg-amber-50 border-amber-100 text-amber-800">
+                      <AlertCircleIcon className="h-4 w-4 mr-2 text-amber-500" />
+                      <AlertDescription>
+                        <p className="font-medium mb-1">
+                          Revise o OCR destas páginas, com confiança abaixo de {confidenceThreshold}%:
+                        </p>
+                        <ul className="list-disc pl-5 space-y-1">
+                          {lowConfidencePages.map((page) => (
+                            <li key={page.page}>
+                              Página {page.page}: confiança média de {page.wordConfidence}%
+                              {page.lowConfidenceRegions.length > 0 &&
+                                ` (${page.lowConfidenceRegions.length} trechos duvidosos)`}
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {/* Validation Result */}
+                  {status === 'validated' && validationResult && (
+                    <Alert
+                      className={cn(
+                        "mt-4",
+                        validationResult.compliant
+                          ? "bg-green-50 border-green-100 text-green-800"
+                          : "bg-red-50 border-red-100 text-red-800"
+                      )}
+                    >
+                      {validationResult.compliant
+                        ? <CheckIcon className="h-4 w-4 mr-2 text-green-500" />
+                        : <AlertCircleIcon className="h-4 w-4 mr-2 text-red-500" />}
+                      <AlertDescription>
+                        <p className="font-medium">
+                          {validationResult.compliant
+                            ? `O arquivo está em conformidade com ${pdfaConformanceLabel(validationResult.profile)}.`
+                            : `O arquivo não está em conformidade com ${pdfaConformanceLabel(validationResult.profile)}: ` +
+                              `${validationResult.violations.length} ${validationResult.violations.length === 1 ? 'violação' : 'violações'}.`}
+                        </p>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {status === 'validated' && validationResult && (
+                    <ConformanceReport validation={validationResult} />
+                  )}
+
+                  {/* Password Prompt */}
+                  {status === 'password' && (
+                    <div className="mt-4 p-4 bg-amber-50 border border-amber-100 rounded-lg">
+                      <div className="flex items-center mb-2 text-amber-800">
+                        <LockIcon className="h-4 w-4 mr-2" />
+                        <span className="text-sm font-medium">
+                          {passwordIncorrect
+                            ? 'Senha incorreta. Tente novamente.'
+                            : 'Este documento está protegido por senha.'}
+                        </span>
+                      </div>
+                      <div className="flex gap-2">
+                        <Input
+                          type="password"
+                          value={password}
+                          placeholder="Senha do documento"
+                          onChange={(e) => setPassword(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                        />
+                        <Button onClick={handleUnlock} disabled={!password || processFileMutation.isPending}>
+                          Desbloquear
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Error Message */}
                   {status === 'error' && (
                     <Alert className="mt-4 bg-red-50 border-red-100 text-red-800">
@@ -395,17 +841,38 @@ const PdfConverter = () => {
                     </Alert>
                   )}
 
+                  {/* Conformance Report */}
+                  {(status === 'success' || failedValidation) && jobQuery.data?.validation && (
+                    <ConformanceReport validation={jobQuery.data.validation} report={jobQuery.data.result} />
+                  )}
+
                   {/* Action Buttons */}
-                  <div className="mt-6 flex justify-end space-x-2">
+                  <div className="mt-6 flex flex-wrap justify-end gap-2">
                     {status === 'success' && progressData?.outputUrl && (
                       <Button
                         onClick={handleDownload}
                         className="flex items-center"
                       >
                         <DownloadIcon className="mr-2 h-4 w-4" />
-                        Baixar PDF/A-2U
+                        Baixar {formatLabel}
                       </Button>
                     )}
+                    {status === 'success' && producedArtifacts.map((type) => (
+                      <Button key={type} variant="outline" asChild>
+                        <a href={`/api/pdf/downloads/${jobId}/${type}`} className="flex items-center">
+                          <DownloadIcon className="mr-2 h-4 w-4" />
+                          {ocrArtifactLabels[type]}
+                        </a>
+                      </Button>
+                    ))}
+                    {(status === 'success' || failedValidation) && complianceReportTypes.map((type) => (
+                      <Button key={type} variant="outline" asChild>
+                        <a href={`/api/pdf/artifacts/${jobId}/${type}`} className="flex items-center">
+                          <DownloadIcon className="mr-2 h-4 w-4" />
+                          {complianceReportLabels[type]}
+                        </a>
+                      </Button>
+                    ))}
                   </div>
                 </div>
               )}
@@ -415,17 +882,19 @@ const PdfConverter = () => {
           {/* Information Card */}
           <Card>
             <CardContent className="p-6">
-              <h3 className="text-lg font-semibold mb-3">Sobre o Formato PDF/A-2U</h3>
+              <h3 className="text-lg font-semibold mb-3">Sobre o Formato PDF/A</h3>
               <p className="text-gray-600 mb-4">
-                O PDF/A-2U é um formato de arquivo para arquivamento de longo prazo que garante 
-                que o documento possa ser reproduzido com precisão no futuro. O sufixo "U" 
-                indica Unicode, permitindo pesquisa de texto completa e acessibilidade.
+                O PDF/A é um formato de arquivo para arquivamento de longo prazo que garante 
+                que o documento possa ser reproduzido com precisão no futuro. O nível "b" 
+                preserva a aparência, o "u" exige texto em Unicode, permitindo pesquisa de texto 
+                completa, e o "a" exige também a estrutura lógica do documento (tags).
               </p>
               
               <h4 className="font-medium mb-2">Recursos desta ferramenta:</h4>
               <ul className="list-disc pl-5 text-gray-600 space-y-1">
-                <li>Conversão para PDF/A-2U compatível com ISO 19005-2</li>
+                <li>Conversão para PDF/A-1b, 1a, 2b, 2u, 2a, 3b e 3u (ISO 19005-1, 2 e 3)</li>
                 <li>OCR (Reconhecimento Óptico de Caracteres) para documentos digitalizados</li>
+                <li>Validação de PDFs existentes, com as cláusulas da norma que não são atendidas</li>
                 <li>Incorporação de fontes e metadados conforme o padrão PDF/A</li>
                 <li>Processo 100% compatível com Vercel e Netlify</li>
                 <li>Sem limite de conversões</li>
@@ -438,7 +907,7 @@ const PdfConverter = () => {
       {/* Footer */}
       <footer className="bg-white border-t py-6">
         <div className="container mx-auto px-4 text-center text-sm text-gray-500">
-          <p>Tatianus - Conversor PDF/A-2U</p>
+          <p>Tatianus - Conversor PDF/A</p>
           <p className="mt-1">Compatível com deploy na Vercel e Netlify</p>
         </div>
       </footer>
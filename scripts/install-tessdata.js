@@ -0,0 +1,44 @@
+/**
+ * Copies the Tesseract language data shipped in the @tesseract.js-data/*
+ * dependencies into the language directory the server reads (TESSDATA_DIR,
+ * default: ./tessdata), so OCR works on a clean install without internet
+ * access. Runs on `npm install`; run `npm run tessdata` after changing
+ * TESSDATA_DIR. Files already in the directory are left alone, so data
+ * copied there by hand takes precedence.
+ *
+ * To add a language, install its package (`npm install
+ * @tesseract.js-data/<code>`) and run this script again.
+ */
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+
+const require = createRequire(import.meta.url);
+
+// LSTM models, the ones tesseract.js itself loads for recognition
+const MODEL_DIR = "4.0.0_best_int";
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+const target = path.resolve(root, process.env.TESSDATA_DIR || "tessdata");
+const pkg = JSON.parse(fs.readFileSync(path.join(root, "package.json"), "utf8"));
+
+const codes = Object.keys({ ...pkg.dependencies, ...pkg.optionalDependencies })
+  .filter((name) => name.startsWith("@tesseract.js-data/"))
+  .map((name) => name.slice("@tesseract.js-data/".length));
+
+fs.mkdirSync(target, { recursive: true });
+
+for (const code of codes) {
+  let source;
+  try {
+    source = path.join(path.dirname(require.resolve(`@tesseract.js-data/${code}/package.json`)), MODEL_DIR);
+  } catch {
+    console.warn(`tessdata: @tesseract.js-data/${code} is not installed, skipping`);
+    continue;
+  }
+  const file = `${code}.traineddata.gz`;
+  const installed = [file, `${code}.traineddata`].some((name) => fs.existsSync(path.join(target, name)));
+  if (installed) continue;
+  fs.copyFileSync(path.join(source, file), path.join(target, file));
+  console.log(`tessdata: installed ${code} in ${target}`);
+}
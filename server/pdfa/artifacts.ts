@@ -0,0 +1,178 @@
+import type { OcrArtifactType } from "@shared/schema";
+import { escapeXml } from "./metadata";
+import type { OcrLine, OcrPage } from "./ocr";
+
+/**
+ * OCR results serialized outside the PDF, for systems that ingest them
+ * directly. Every page of the document is included, in order; pages OCR
+ * skipped are present but empty, so page numbers stay aligned with the PDF.
+ * Coordinates are pixels of the images Tesseract read.
+ */
+
+export const OCR_ARTIFACT_FORMATS: Record<OcrArtifactType, { contentType: string; extension: string }> = {
+  hocr: { contentType: "text/html; charset=utf-8", extension: "hocr.html" },
+  alto: { contentType: "application/xml; charset=utf-8", extension: "alto.xml" },
+  text: { contentType: "text/plain; charset=utf-8", extension: "txt" },
+};
+
+export interface ArtifactSource {
+  // Name of the converted document
+  title: string;
+  // BCP 47 tag of the recognized language, when known
+  language: string | null;
+  pages: OcrPage[];
+}
+
+export function buildOcrArtifact(type: OcrArtifactType, source: ArtifactSource): string {
+  switch (type) {
+    case "hocr":
+      return toHocr(source);
+    case "alto":
+      return toAlto(source);
+    case "text":
+      return toText(source);
+  }
+}
+
+// hOCR 1.2: XHTML with the layout in the title attributes
+function toHocr({ title, language, pages }: ArtifactSource): string {
+  const lang = language ? ` xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}"` : "";
+  const out: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">`,
+    `<html xmlns="http://www.w3.org/1999/xhtml"${lang}>`,
+    `<head>`,
+    `<title>${escapeXml(title)}</title>`,
+    `<meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>`,
+    `<meta name="ocr-system" content="tesseract.js"/>`,
+    `<meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word"/>`,
+    `</head>`,
+    `<body>`,
+  ];
+
+  let words = 0;
+  for (const page of pages) {
+    const p = page.pageIndex + 1;
+    out.push(
+      `<div class="ocr_page" id="page_${p}" title="bbox 0 0 ${page.width} ${page.height}; ppageno ${page.pageIndex}; scan_res ${page.dpi} ${page.dpi}">`,
+    );
+    page.blocks.forEach((block, b) => {
+      out.push(`<div class="ocr_carea" id="block_${p}_${b + 1}" title="${hocrBox(block.bbox)}">`);
+      block.paragraphs.forEach((paragraph, pa) => {
+        out.push(`<p class="ocr_par" id="par_${p}_${b + 1}_${pa + 1}" title="${hocrBox(paragraph.bbox)}">`);
+        paragraph.lines.forEach((line, l) => {
+          if (line.words.length === 0) return;
+          out.push(
+            `<span class="ocr_line" id="line_${p}_${b + 1}_${pa + 1}_${l + 1}" title="${hocrBox(line.bbox)}${hocrBaseline(line)}; x_wconf ${Math.round(line.confidence)}">`,
+          );
+          for (const word of line.words) {
+            out.push(
+              `<span class="ocrx_word" id="word_${p}_${++words}" title="${hocrBox(word.bbox)}; x_wconf ${Math.round(word.confidence)}">${escapeXml(word.text)}</span>`,
+            );
+          }
+          out.push(`</span>`);
+        });
+        out.push(`</p>`);
+      });
+      out.push(`</div>`);
+    });
+    out.push(`</div>`);
+  }
+
+  out.push(`</body>`, `</html>`, "");
+  return out.join("\n");
+}
+
+function hocrBox({ x0, y0, x1, y1 }: { x0: number; y0: number; x1: number; y1: number }): string {
+  return `bbox ${Math.round(x0)} ${Math.round(y0)} ${Math.round(x1)} ${Math.round(y1)}`;
+}
+
+// Baseline as slope and offset from the line box's bottom-left corner
+function hocrBaseline({ bbox, baseline }: OcrLine): string {
+  if (!baseline || baseline.x1 === baseline.x0) return "";
+  const slope = (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0);
+  const offset = baseline.y0 + slope * (bbox.x0 - baseline.x0) - bbox.y1;
+  return `; baseline ${round(slope, 3)} ${Math.round(offset)}`;
+}
+
+// ALTO v4; Tesseract paragraphs become text blocks, as ALTO has no
+// paragraph level
+function toAlto({ title, language, pages }: ArtifactSource): string {
+  const out: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/standards/alto/v4/alto-4-2.xsd">`,
+    `<Description>`,
+    `<MeasurementUnit>pixel</MeasurementUnit>`,
+    `<sourceImageInformation><fileName>${escapeXml(title)}</fileName></sourceImageInformation>`,
+    `<OCRProcessing ID="OCR_0"><ocrProcessingStep><processingSoftware><softwareName>tesseract.js</softwareName></processingSoftware></ocrProcessingStep></OCRProcessing>`,
+    `</Description>`,
+    `<Layout>`,
+  ];
+  const lang = language ? ` LANG="${escapeXml(language)}"` : "";
+
+  for (const page of pages) {
+    const p = page.pageIndex + 1;
+    out.push(`<Page ID="page_${p}" PHYSICAL_IMG_NR="${p}" WIDTH="${page.width}" HEIGHT="${page.height}">`);
+    out.push(`<PrintSpace HPOS="0" VPOS="0" WIDTH="${page.width}" HEIGHT="${page.height}">`);
+    let blocks = 0;
+    let lines = 0;
+    let strings = 0;
+    for (const block of page.blocks) {
+      for (const paragraph of block.paragraphs) {
+        // ALTO lines need at least one string
+        const textLines = paragraph.lines.filter((line) => line.words.length > 0);
+        if (textLines.length === 0) continue;
+        out.push(`<TextBlock ID="block_${p}_${++blocks}" ${altoBox(paragraph.bbox)}${lang}>`);
+        for (const line of textLines) {
+          out.push(`<TextLine ID="line_${p}_${++lines}" ${altoBox(line.bbox)}>`);
+          line.words.forEach((word, i) => {
+            const next = line.words[i + 1];
+            out.push(
+              `<String ID="string_${p}_${++strings}" CONTENT="${escapeXml(word.text)}" ${altoBox(word.bbox)} WC="${round(word.confidence / 100, 2)}"/>`,
+            );
+            if (next) {
+              out.push(
+                `<SP HPOS="${Math.round(word.bbox.x1)}" VPOS="${Math.round(word.bbox.y0)}" WIDTH="${Math.max(0, Math.round(next.bbox.x0 - word.bbox.x1))}"/>`,
+              );
+            }
+          });
+          out.push(`</TextLine>`);
+        }
+        out.push(`</TextBlock>`);
+      }
+    }
+    out.push(`</PrintSpace>`, `</Page>`);
+  }
+
+  out.push(`</Layout>`, `</alto>`, "");
+  return out.join("\n");
+}
+
+function altoBox({ x0, y0, x1, y1 }: { x0: number; y0: number; x1: number; y1: number }): string {
+  return `HPOS="${Math.round(x0)}" VPOS="${Math.round(y0)}" WIDTH="${Math.round(x1 - x0)}" HEIGHT="${Math.round(y1 - y0)}"`;
+}
+
+// One line per recognized line, a blank line between paragraphs and a form
+// feed between pages
+function toText({ pages }: ArtifactSource): string {
+  return pages
+    .map((page) =>
+      page.blocks
+        .flatMap((block) => block.paragraphs)
+        .map((paragraph) =>
+          paragraph.lines
+            .filter((line) => line.words.length > 0)
+            .map((line) => line.words.map((word) => word.text).join(" "))
+            .join("\n"),
+        )
+        .filter((paragraph) => paragraph !== "")
+        .join("\n\n"),
+    )
+    .join("\n\f")
+    .concat("\n");
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,306 @@
+import { createHash } from "crypto";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from "pdf-lib";
+import type { AfRelationship, AttachmentReport } from "@shared/schema";
+import type { XmpExtensionSchema } from "./metadata";
+
+// A file to embed as an associated file of the output
+export interface AttachmentFile {
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+  relationship: AfRelationship;
+  description?: string;
+  origin: "uploaded" | "original";
+}
+
+export interface AssociatedFilesResult {
+  attachments: AttachmentReport[];
+  // XMP extension schemas the embedded files call for, e.g. Factur-X
+  extensions: XmpExtensionSchema[];
+}
+
+const FACTUR_X_NAMESPACE = "urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#";
+
+/**
+ * Embed files as PDF/A-3 associated files.
+ *
+ * Every file specification gets an /AFRelationship, is listed in the catalog
+ * /AF array and in the EmbeddedFiles name tree, and its stream carries the
+ * MIME type and modification date ISO 19005-3 requires. Files already
+ * embedded in the input, in the name tree or in file attachment
+ * annotations, are brought up to the same rules.
+ */
+export function embedAssociatedFiles(
+  pdfDoc: PDFDocument,
+  files: AttachmentFile[],
+  now: Date = new Date(),
+): AssociatedFilesResult {
+  const { context, catalog } = pdfDoc;
+  const attachments: AttachmentReport[] = [];
+  const extensions: XmpExtensionSchema[] = [];
+
+  let af = catalog.lookupMaybe(PDFName.of("AF"), PDFArray);
+  if (!af) {
+    af = context.obj([]);
+    catalog.set(PDFName.of("AF"), af);
+  }
+  const associated = new Set(af.asArray().map((item) => item.toString()));
+
+  // /AF lists file specifications by reference, so direct ones are
+  // registered as indirect objects first
+  const associate = (ref: PDFRef) => {
+    if (associated.has(ref.toString())) return;
+    associated.add(ref.toString());
+    af!.push(ref);
+  };
+
+  // Flatten the name tree so new entries can be inserted in sorted order
+  const pairs = readNameTree(pdfDoc);
+  pairs.forEach(([name, value], index) => {
+    const fileSpec = context.lookup(value);
+    if (!(fileSpec instanceof PDFDict)) return;
+    attachments.push(normalizeFileSpec(pdfDoc, name, fileSpec, now));
+    const ref = value instanceof PDFRef ? value : context.register(fileSpec);
+    pairs[index] = [name, ref];
+    associate(ref);
+  });
+
+  // Files attached to pages through file attachment annotations
+  const seen = new Set(pairs.map(([, value]) => context.lookup(value)));
+  for (const page of pdfDoc.getPages()) {
+    const annotations = page.node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+    for (let i = 0; i < (annotations?.size() ?? 0); i++) {
+      const annotation = annotations!.lookupMaybe(i, PDFDict);
+      if (annotation?.lookup(PDFName.of("Subtype")) !== PDFName.of("FileAttachment")) continue;
+      const value = annotation.get(PDFName.of("FS"));
+      const fileSpec = value && context.lookup(value);
+      if (!(fileSpec instanceof PDFDict) || !fileSpec.has(PDFName.of("EF"))) continue;
+      const ref = value instanceof PDFRef ? value : context.register(fileSpec);
+      annotation.set(PDFName.of("FS"), ref);
+      if (!seen.has(fileSpec)) {
+        seen.add(fileSpec);
+        attachments.push(normalizeFileSpec(pdfDoc, fileSpecName(fileSpec), fileSpec, now));
+      }
+      associate(ref);
+    }
+  }
+
+  const usedNames = new Set(pairs.map(([name]) => name));
+  for (const file of files) {
+    const name = uniqueName(file.name, usedNames);
+    usedNames.add(name);
+
+    const stream = context.flateStream(file.data, {
+      Type: "EmbeddedFile",
+      Subtype: file.mimeType,
+      Params: {
+        Size: file.data.length,
+        CreationDate: PDFString.fromDate(now),
+        ModDate: PDFString.fromDate(now),
+        CheckSum: PDFHexString.of(createHash("md5").update(file.data).digest("hex")),
+      },
+    });
+    const streamRef = context.register(stream);
+    const fileSpecRef = context.register(context.obj({
+      Type: "Filespec",
+      F: PDFString.of(name),
+      UF: PDFHexString.fromText(name),
+      EF: { F: streamRef, UF: streamRef },
+      Desc: file.description ? PDFHexString.fromText(file.description) : undefined,
+      AFRelationship: file.relationship,
+    }));
+
+    pairs.push([name, fileSpecRef]);
+    af.push(fileSpecRef);
+
+    const invoice = describeInvoice(name, file);
+    if (invoice && extensions.length === 0) extensions.push(invoice);
+
+    attachments.push({
+      name,
+      mimeType: file.mimeType,
+      size: file.data.length,
+      relationship: file.relationship,
+      origin: file.origin,
+      extensionSchema: invoice ? invoice.schema : undefined,
+    });
+  }
+
+  if (pairs.length > 0) writeNameTree(pdfDoc, pairs);
+  if (af.size() === 0) catalog.delete(PDFName.of("AF"));
+
+  return { attachments, extensions };
+}
+
+// Bring a file specification found in the input up to the PDF/A-3 rules
+function normalizeFileSpec(
+  pdfDoc: PDFDocument,
+  name: string,
+  fileSpec: PDFDict,
+  now: Date,
+): AttachmentReport {
+  if (!fileSpec.has(PDFName.of("AFRelationship"))) {
+    fileSpec.set(PDFName.of("AFRelationship"), PDFName.of("Unspecified"));
+  }
+  if (!fileSpec.has(PDFName.of("UF"))) {
+    fileSpec.set(PDFName.of("UF"), PDFHexString.fromText(name));
+  }
+
+  const ef = fileSpec.lookupMaybe(PDFName.of("EF"), PDFDict);
+  const stream = ef?.lookup(PDFName.of("UF")) ?? ef?.lookup(PDFName.of("F"));
+  let mimeType = "application/octet-stream";
+  let size = 0;
+
+  if (stream instanceof PDFStream) {
+    const subtype = stream.dict.lookup(PDFName.of("Subtype"));
+    if (subtype instanceof PDFName) {
+      mimeType = subtype.decodeText();
+    } else {
+      stream.dict.set(PDFName.of("Subtype"), PDFName.of(mimeType));
+    }
+
+    let params = stream.dict.lookupMaybe(PDFName.of("Params"), PDFDict);
+    if (!params) {
+      params = pdfDoc.context.obj({});
+      stream.dict.set(PDFName.of("Params"), params);
+    }
+    if (!params.has(PDFName.of("ModDate"))) {
+      params.set(PDFName.of("ModDate"), PDFString.fromDate(now));
+    }
+    size = params.lookupMaybe(PDFName.of("Size"), PDFNumber)?.asNumber() ?? 0;
+  }
+
+  const relationship = fileSpec.lookup(PDFName.of("AFRelationship"));
+  return {
+    name,
+    mimeType,
+    size,
+    relationship: (relationship instanceof PDFName ? relationship.decodeText() : "Unspecified") as AttachmentReport["relationship"],
+    origin: "existing",
+  };
+}
+
+// The name a file specification gives its file, for specs outside the name tree
+function fileSpecName(fileSpec: PDFDict): string {
+  for (const key of ["UF", "F"]) {
+    const value = fileSpec.lookup(PDFName.of(key));
+    if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText();
+  }
+  return "anexo";
+}
+
+function readNameTree(pdfDoc: PDFDocument): Array<[string, PDFObject]> {
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+  const root = names?.lookupMaybe(PDFName.of("EmbeddedFiles"), PDFDict);
+  const pairs: Array<[string, PDFObject]> = [];
+
+  const visit = (node: PDFDict) => {
+    const kids = node.lookupMaybe(PDFName.of("Kids"), PDFArray);
+    for (let i = 0; i < (kids?.size() ?? 0); i++) {
+      const kid = kids!.lookupMaybe(i, PDFDict);
+      if (kid) visit(kid);
+    }
+    const leaf = node.lookupMaybe(PDFName.of("Names"), PDFArray);
+    for (let i = 0; i + 1 < (leaf?.size() ?? 0); i += 2) {
+      const key = leaf!.lookup(i);
+      if (key instanceof PDFString || key instanceof PDFHexString) {
+        pairs.push([key.decodeText(), leaf!.get(i + 1)]);
+      }
+    }
+  };
+  if (root) visit(root);
+
+  return pairs;
+}
+
+function writeNameTree(pdfDoc: PDFDocument, pairs: Array<[string, PDFObject]>): void {
+  const sorted = pairs.slice().sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const flat: PDFObject[] = [];
+  sorted.forEach(([name, value]) => flat.push(PDFHexString.fromText(name), value));
+
+  let names = pdfDoc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+  if (!names) {
+    names = pdfDoc.context.obj({});
+    pdfDoc.catalog.set(PDFName.of("Names"), names);
+  }
+  names.set(PDFName.of("EmbeddedFiles"), pdfDoc.context.obj({ Names: flat }));
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  if (!used.has(name)) return name;
+  const dot = name.lastIndexOf(".");
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+  let counter = 2;
+  while (used.has(`${base} (${counter})${extension}`)) counter++;
+  return `${base} (${counter})${extension}`;
+}
+
+/**
+ * Recognize a Factur-X / ZUGFeRD e-invoice (UN/CEFACT Cross Industry Invoice)
+ * and describe it with the Factur-X XMP extension schema the standard
+ * requires next to the pdfaid identification.
+ */
+function describeInvoice(name: string, file: AttachmentFile): XmpExtensionSchema | undefined {
+  if (!/xml/i.test(file.mimeType) && !/\.xml$/i.test(name)) return undefined;
+
+  const xml = Buffer.from(file.data).toString("utf8");
+  if (!/<(\w+:)?CrossIndustryInvoice[\s>]/.test(xml)) return undefined;
+
+  const guideline =
+    /<(?:\w+:)?GuidelineSpecifiedDocumentContextParameter>\s*<(?:\w+:)?ID>([^<]+)</.exec(xml)?.[1] ?? "";
+  const profiles: Array<[RegExp, string]> = [
+    [/minimum/i, "MINIMUM"],
+    [/basicwl/i, "BASIC WL"],
+    [/basic/i, "BASIC"],
+    [/extended/i, "EXTENDED"],
+    [/xrechnung/i, "XRECHNUNG"],
+  ];
+  const conformanceLevel = profiles.find(([pattern]) => pattern.test(guideline))?.[1] ?? "EN 16931";
+
+  return {
+    schema: "Factur-X PDFA Extension Schema",
+    namespaceURI: FACTUR_X_NAMESPACE,
+    prefix: "fx",
+    properties: [
+      {
+        name: "DocumentFileName",
+        valueType: "Text",
+        category: "external",
+        description: "The name of the embedded XML document",
+        value: name,
+      },
+      {
+        name: "DocumentType",
+        valueType: "Text",
+        category: "external",
+        description: "The type of the hybrid document in capital letters, e.g. INVOICE or ORDER",
+        value: "INVOICE",
+      },
+      {
+        name: "Version",
+        valueType: "Text",
+        category: "external",
+        description: "The actual version of the standard applying to the embedded XML document",
+        value: "1.0",
+      },
+      {
+        name: "ConformanceLevel",
+        valueType: "Text",
+        category: "external",
+        description: "The conformance level of the embedded XML document",
+        value: conformanceLevel,
+      },
+    ],
+  };
+}
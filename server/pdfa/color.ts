@@ -0,0 +1,297 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFStream,
+  PDFString,
+} from "pdf-lib";
+import type { ColorReport } from "@shared/schema";
+import { getPageContent, parseContentStream, readStreamData, operandName } from "./content";
+
+export const SRGB_IDENTIFIER = "sRGB IEC61966-2.1";
+
+/**
+ * Build an ICC v2.1 display profile for sRGB IEC61966-2.1.
+ *
+ * The colorants are the sRGB primaries chromatically adapted to the D50
+ * profile connection space (Bradford), and the tone curves sample the
+ * piecewise sRGB transfer function, as in the reference profile.
+ */
+export function buildSrgbProfile(): Uint8Array {
+  const curve = new Uint16Array(1024);
+  for (let i = 0; i < curve.length; i++) {
+    const v = i / (curve.length - 1);
+    const linear = v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    curve[i] = Math.round(linear * 65535);
+  }
+
+  const tags: Array<[string, Uint8Array]> = [
+    ["desc", textDescriptionTag(SRGB_IDENTIFIER)],
+    ["cprt", textTag("No copyright, use freely")],
+    ["wtpt", xyzTag(0.9642, 1.0, 0.8249)],
+    ["rXYZ", xyzTag(0.436066, 0.222488, 0.013916)],
+    ["gXYZ", xyzTag(0.385147, 0.716873, 0.097076)],
+    ["bXYZ", xyzTag(0.143066, 0.060608, 0.714096)],
+    ["rTRC", curveTag(curve)],
+    ["gTRC", curveTag(curve)],
+    ["bTRC", curveTag(curve)],
+  ];
+
+  // The three TRC tags share one data block, as the ICC spec allows
+  const blocks: Uint8Array[] = [];
+  const tagTable: Array<[string, number, number]> = [];
+  let offset = 128 + 4 + tags.length * 12;
+  let curveOffset = -1;
+  for (const [signature, data] of tags) {
+    if (signature.endsWith("TRC") && curveOffset >= 0) {
+      tagTable.push([signature, curveOffset, data.length]);
+      continue;
+    }
+    if (signature.endsWith("TRC")) curveOffset = offset;
+    tagTable.push([signature, offset, data.length]);
+    blocks.push(data);
+    offset += align4(data.length);
+  }
+
+  const profile = new Uint8Array(offset);
+  const view = new DataView(profile.buffer);
+
+  // Header
+  view.setUint32(0, profile.length);
+  view.setUint32(8, 0x02100000); // version 2.1
+  writeAscii(profile, 12, "mntr");
+  writeAscii(profile, 16, "RGB ");
+  writeAscii(profile, 20, "XYZ ");
+  view.setUint16(24, 2024);
+  view.setUint16(26, 1);
+  view.setUint16(28, 1);
+  writeAscii(profile, 36, "acsp");
+  view.setUint32(64, 0); // perceptual rendering intent
+  view.setInt32(68, s15Fixed16(0.9642));
+  view.setInt32(72, s15Fixed16(1.0));
+  view.setInt32(76, s15Fixed16(0.8249));
+
+  // Tag table
+  view.setUint32(128, tagTable.length);
+  tagTable.forEach(([signature, tagOffset, size], i) => {
+    writeAscii(profile, 132 + i * 12, signature);
+    view.setUint32(136 + i * 12, tagOffset);
+    view.setUint32(140 + i * 12, size);
+  });
+
+  let blockOffset = 128 + 4 + tags.length * 12;
+  for (const block of blocks) {
+    profile.set(block, blockOffset);
+    blockOffset += align4(block.length);
+  }
+
+  return profile;
+}
+
+/**
+ * Make sure the document carries a PDF/A OutputIntent.
+ *
+ * An existing GTS_PDFA1 intent with an embedded profile is kept, since the
+ * author may have targeted a specific CMYK condition. Otherwise the catalog
+ * gets a single sRGB intent, even when no device color space is used yet,
+ * because later stages may add DeviceRGB content. The report lists the
+ * device color spaces the document uses and any that the chosen intent
+ * cannot cover.
+ */
+export function applyOutputIntent(pdfDoc: PDFDocument): ColorReport {
+  const deviceColorSpaces = findDeviceColorSpaces(pdfDoc);
+  const existing = findPdfaOutputIntent(pdfDoc);
+
+  let components: number;
+  let outputIntent: ColorReport["outputIntent"];
+  let profileName: string;
+
+  if (existing) {
+    components = existing.components;
+    profileName = existing.identifier;
+    outputIntent = "existing";
+  } else {
+    const profile = pdfDoc.context.flateStream(buildSrgbProfile(), { N: 3 });
+    const intent = pdfDoc.context.obj({
+      Type: "OutputIntent",
+      S: "GTS_PDFA1",
+      OutputConditionIdentifier: PDFString.of(SRGB_IDENTIFIER),
+      Info: PDFString.of(SRGB_IDENTIFIER),
+      RegistryName: PDFString.of("http://www.color.org"),
+      DestOutputProfile: pdfDoc.context.register(profile),
+    });
+    pdfDoc.catalog.set(PDFName.of("OutputIntents"), pdfDoc.context.obj([pdfDoc.context.register(intent)]));
+    components = 3;
+    profileName = SRGB_IDENTIFIER;
+    outputIntent = "added";
+  }
+
+  // DeviceGray is covered by any intent; RGB and CMYK need a matching one
+  const unresolved = deviceColorSpaces.filter((space) =>
+    (space === "DeviceRGB" && components !== 3) || (space === "DeviceCMYK" && components !== 4),
+  );
+
+  return {
+    outputIntent,
+    profile: profileName,
+    required: deviceColorSpaces.length > 0,
+    deviceColorSpaces,
+    unresolved,
+  };
+}
+
+function findPdfaOutputIntent(pdfDoc: PDFDocument) {
+  const intents = pdfDoc.catalog.lookupMaybe(PDFName.of("OutputIntents"), PDFArray);
+  if (!intents) return undefined;
+
+  for (let i = 0; i < intents.size(); i++) {
+    const intent = intents.lookupMaybe(i, PDFDict);
+    if (intent?.lookup(PDFName.of("S")) !== PDFName.of("GTS_PDFA1")) continue;
+
+    const profile = intent.lookup(PDFName.of("DestOutputProfile"));
+    if (!(profile instanceof PDFStream)) continue;
+
+    const n = profile.dict.lookup(PDFName.of("N"));
+    const identifier = intent.lookup(PDFName.of("OutputConditionIdentifier"));
+    return {
+      components: Number(n?.toString() ?? 0),
+      identifier: identifier instanceof PDFString ? identifier.decodeText() : "embedded profile",
+    };
+  }
+  return undefined;
+}
+
+const DEVICE_SPACES = new Set(["DeviceGray", "DeviceRGB", "DeviceCMYK"]);
+const INLINE_SPACES: Record<string, string> = { G: "DeviceGray", RGB: "DeviceRGB", CMYK: "DeviceCMYK" };
+const COLOR_OPERATORS: Record<string, string> = {
+  g: "DeviceGray", G: "DeviceGray",
+  rg: "DeviceRGB", RG: "DeviceRGB",
+  k: "DeviceCMYK", K: "DeviceCMYK",
+};
+
+/**
+ * Collect the device-dependent color spaces painted anywhere in the
+ * document: color operators and color space names in page and form
+ * content, image XObjects, inline images, shadings and named color spaces.
+ */
+export function findDeviceColorSpaces(pdfDoc: PDFDocument): string[] {
+  const found = new Set<string>();
+  const visited = new Set<PDFDict | PDFStream>();
+
+  const addColorSpace = (value: unknown) => {
+    if (value instanceof PDFName) {
+      const name = value.decodeText();
+      if (DEVICE_SPACES.has(name)) found.add(name);
+    } else if (value instanceof PDFArray && value.size() > 0) {
+      // Indexed, Separation and DeviceN spaces name their base/alternate space
+      for (let i = 1; i < value.size(); i++) addColorSpace(value.lookup(i));
+    }
+  };
+
+  const scanContent = (data: Uint8Array) => {
+    for (const op of parseContentStream(data)) {
+      const space = COLOR_OPERATORS[op.operator];
+      if (space) found.add(space);
+      if (op.operator === "cs" || op.operator === "CS") {
+        const name = operandName(op.operands[0]);
+        if (name && DEVICE_SPACES.has(name)) found.add(name);
+      }
+      if (op.inlineImage) {
+        const cs = op.inlineImage.dict.get("CS") ?? op.inlineImage.dict.get("ColorSpace");
+        const name = operandName(cs);
+        if (name) found.add(INLINE_SPACES[name] ?? name);
+      }
+    }
+  };
+
+  const scanResources = (resources: PDFDict | undefined) => {
+    if (!resources || visited.has(resources)) return;
+    visited.add(resources);
+
+    const colorSpaces = resources.lookupMaybe(PDFName.of("ColorSpace"), PDFDict);
+    for (const key of colorSpaces?.keys() ?? []) {
+      addColorSpace(colorSpaces!.lookup(key));
+    }
+
+    const shadings = resources.lookupMaybe(PDFName.of("Shading"), PDFDict);
+    for (const key of shadings?.keys() ?? []) {
+      const shading = shadings!.lookup(key);
+      const dict = shading instanceof PDFStream ? shading.dict : shading;
+      if (dict instanceof PDFDict) addColorSpace(dict.lookup(PDFName.of("ColorSpace")));
+    }
+
+    const xObjects = resources.lookupMaybe(PDFName.of("XObject"), PDFDict);
+    for (const key of xObjects?.keys() ?? []) {
+      const xObject = xObjects!.lookup(key);
+      if (!(xObject instanceof PDFStream) || visited.has(xObject)) continue;
+      visited.add(xObject);
+
+      const subtype = xObject.dict.lookup(PDFName.of("Subtype"));
+      if (subtype === PDFName.of("Image")) {
+        addColorSpace(xObject.dict.lookup(PDFName.of("ColorSpace")));
+      } else if (subtype === PDFName.of("Form")) {
+        try {
+          scanContent(readStreamData(xObject));
+        } catch {
+          // Undecodable form content is reported by validation, not here
+        }
+        scanResources(xObject.dict.lookupMaybe(PDFName.of("Resources"), PDFDict));
+      }
+    }
+  };
+
+  for (const page of pdfDoc.getPages()) {
+    try {
+      scanContent(getPageContent(page.node));
+    } catch {
+      // Same as above: skip content this reader cannot decode
+    }
+    scanResources(page.node.Resources());
+  }
+
+  return Array.from(found).filter((space) => DEVICE_SPACES.has(space)).sort();
+}
+
+function textDescriptionTag(text: string): Uint8Array {
+  // 'desc' type: ASCII part, then empty Unicode and ScriptCode parts
+  const ascii = text.length + 1;
+  const data = new Uint8Array(12 + ascii + 8 + 2 + 1 + 67);
+  writeAscii(data, 0, "desc");
+  new DataView(data.buffer).setUint32(8, ascii);
+  writeAscii(data, 12, text);
+  return data;
+}
+
+function textTag(text: string): Uint8Array {
+  const data = new Uint8Array(8 + text.length + 1);
+  writeAscii(data, 0, "text");
+  writeAscii(data, 8, text);
+  return data;
+}
+
+function xyzTag(x: number, y: number, z: number): Uint8Array {
+  const data = new Uint8Array(20);
+  const view = new DataView(data.buffer);
+  writeAscii(data, 0, "XYZ ");
+  view.setInt32(8, s15Fixed16(x));
+  view.setInt32(12, s15Fixed16(y));
+  view.setInt32(16, s15Fixed16(z));
+  return data;
+}
+
+function curveTag(curve: Uint16Array): Uint8Array {
+  const data = new Uint8Array(12 + curve.length * 2);
+  const view = new DataView(data.buffer);
+  writeAscii(data, 0, "curv");
+  view.setUint32(8, curve.length);
+  curve.forEach((value, i) => view.setUint16(12 + i * 2, value));
+  return data;
+}
+
+function writeAscii(target: Uint8Array, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) target[offset + i] = text.charCodeAt(i);
+}
+
+const s15Fixed16 = (value: number) => Math.round(value * 65536);
+const align4 = (size: number) => (size + 3) & ~3;
@@ -0,0 +1,344 @@
+import { createHash } from "crypto";
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import {
+  conversionOptionsSchema,
+  pdfaConformanceLabel,
+  pdfaFormatLabels,
+  type ComplianceReport,
+  type ComplianceReportType,
+  type ConversionOptions,
+} from "@shared/schema";
+import { fixedGroups, reviewItems, violationGroups, type ConformanceGroup } from "@shared/conformance";
+import { convertToPdfA } from "./convert";
+import { escapeXml, PRODUCER } from "./metadata";
+
+/**
+ * Compliance reports: what a job found in its input, what it changed and
+ * how the output fared in verification, with the hashes of every file and
+ * the times each step ran, for auditors. JSON carries the full record; the
+ * HTML page and the PDF/A document present the same sections for reading.
+ */
+
+export const COMPLIANCE_REPORT_FORMATS: Record<ComplianceReportType, { contentType: string; extension: string }> = {
+  json: { contentType: "application/json; charset=utf-8", extension: "json" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+  pdf: { contentType: "application/pdf", extension: "pdf" },
+};
+
+// Set by npm when the server is started through its scripts
+export const TOOL_VERSION = process.env.npm_package_version ?? "unknown";
+
+export function fileDigest(name: string, data: Uint8Array): ComplianceReport["input"] {
+  return { name, size: data.length, sha256: createHash("sha256").update(data).digest("hex") };
+}
+
+export type ComplianceSource = Omit<ComplianceReport, "tool" | "options" | "timestamps"> & {
+  options: ConversionOptions;
+  timestamps: Omit<ComplianceReport["timestamps"], "validated">;
+};
+
+export function buildComplianceReport({ options, timestamps, ...source }: ComplianceSource): ComplianceReport {
+  const { password: _password, ...kept } = options;
+  return {
+    ...source,
+    tool: { name: PRODUCER, version: TOOL_VERSION },
+    options: kept,
+    timestamps: { ...timestamps, validated: source.validation.checkedAt },
+  };
+}
+
+export async function renderComplianceReport(type: ComplianceReportType, report: ComplianceReport): Promise<Uint8Array> {
+  switch (type) {
+    case "json":
+      return Buffer.from(JSON.stringify(report, null, 2), "utf-8");
+    case "html":
+      return Buffer.from(toHtml(report), "utf-8");
+    case "pdf":
+      return toPdf(report);
+  }
+}
+
+const statusLabels: Record<string, string> = {
+  completed: "Concluído",
+  completed_with_warnings: "Concluído, com itens para revisar",
+  failed_validation: "Reprovado na verificação; arquivo não disponibilizado",
+};
+
+const optionLabels: Record<keyof ComplianceReport["options"], string> = {
+  formatType: "Nível de conformidade",
+  applyOcr: "OCR",
+  ocrMode: "Modo do OCR",
+  languages: "Idiomas do OCR",
+  preprocessing: "Pré-processamento",
+  confidenceThreshold: "Confiança mínima do OCR (%)",
+  ocrArtifacts: "Exportações do OCR",
+  embedOriginal: "Incorporar o original (PDF/A-3)",
+  transparency: "Transparência (PDF/A-1)",
+};
+
+// One titled part of the readable reports
+interface Section {
+  title: string;
+  fields?: Array<[string, string]>;
+  groups?: ConformanceGroup[];
+  // Shown when the section has nothing else
+  empty?: string;
+}
+
+function formatOption(value: unknown): string {
+  if (typeof value === "boolean") return value ? "Sim" : "Não";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "Nenhum";
+  if (value && typeof value === "object") {
+    return Object.entries(value).map(([key, item]) => `${key}: ${formatOption(item)}`).join("; ");
+  }
+  return String(value);
+}
+
+function formatDigest(digest: ComplianceReport["input"]): string {
+  return `${digest.name} (${digest.size} bytes)`;
+}
+
+function sections(report: ComplianceReport): Section[] {
+  const { conversion, validation } = report;
+  const recognized = conversion.ocr.filter((page) => page.action === "recognized").length;
+  const withText = conversion.ocr.filter((page) => page.existingText !== "none").length;
+  const fonts = (action: string) => conversion.fonts.filter((font) => font.action === action).length;
+  const review = reviewItems(conversion);
+
+  const files: Array<[string, string]> = [
+    ["Entrada", formatDigest(report.input)],
+    ["SHA-256 da entrada", report.input.sha256],
+    ...report.attachments.flatMap((attachment): Array<[string, string]> => [
+      ["Arquivo associado", formatDigest(attachment)],
+      ["SHA-256 do arquivo associado", attachment.sha256],
+    ]),
+    ...(report.output
+      ? ([["Saída", formatDigest(report.output)], ["SHA-256 da saída", report.output.sha256]] as Array<[string, string]>)
+      : ([["Saída", "Não disponibilizada: o arquivo convertido não passou na verificação"]] as Array<[string, string]>)),
+  ];
+
+  return [
+    {
+      title: "Identificação",
+      fields: [
+        ["Trabalho", String(report.jobId)],
+        ["Ferramenta", `${report.tool.name} ${report.tool.version}`],
+        ["Situação", statusLabels[report.status] ?? report.status],
+        ["Enviado em", report.timestamps.created],
+        ["Conversão iniciada em", report.timestamps.started],
+        ["Conversão concluída em", report.timestamps.finished],
+        ["Verificado em", report.timestamps.validated],
+      ],
+    },
+    { title: "Arquivos", fields: files },
+    {
+      title: "Opções",
+      fields: (Object.keys(optionLabels) as Array<keyof ComplianceReport["options"]>).map((key) => [
+        optionLabels[key],
+        key === "formatType" ? pdfaFormatLabels[report.options.formatType] : formatOption(report.options[key]),
+      ]),
+    },
+    {
+      title: "Análise da entrada",
+      fields: [
+        ["Formato", conversion.input.format.toUpperCase()],
+        ["Páginas", String(conversion.pageCount)],
+        ["Criptografia", conversion.encryption ? `${conversion.encryption.algorithm}, revisão ${conversion.encryption.revision}` : "Nenhuma"],
+        // Pages are only examined for text when OCR runs
+        ...(conversion.ocr.length > 0
+          ? ([
+              ["Páginas com texto", `${withText} de ${conversion.ocr.length}`],
+              ["Páginas reconhecidas por OCR", String(recognized)],
+            ] as Array<[string, string]>)
+          : []),
+        ["Espaços de cor do dispositivo", conversion.color.deviceColorSpaces.join(", ") || "Nenhum"],
+        ["Fontes", `${conversion.fonts.length}: ${fonts("embedded")} incorporadas, ${fonts("substituted")} substituídas, ${fonts("unresolved")} não resolvidas`],
+        // Only PDF/A-1 looks for transparency
+        ...(conversion.transparency.length > 0
+          ? ([["Páginas com transparência", conversion.transparency.map((page) => page.page).join(", ")]] as Array<[string, string]>)
+          : []),
+      ],
+    },
+    {
+      title: "Verificação",
+      fields: [
+        ["Verificado como", pdfaConformanceLabel(validation.profile)],
+        ["Nível declarado", validation.claimed ? pdfaConformanceLabel(validation.claimed) : "Nenhum"],
+        ["Resultado", validation.compliant ? "Conforme" : `Não conforme: ${validation.violations.length} violação(ões)`],
+      ],
+    },
+    {
+      title: "Pendências",
+      groups: [...violationGroups(validation), ...(review.length > 0 ? [{ label: "Para revisar", items: review }] : [])],
+      empty: "Nenhuma regra violada e nada a revisar.",
+    },
+    { title: "Corrigido automaticamente", groups: fixedGroups(conversion), empty: "Nenhuma correção foi necessária." },
+  ];
+}
+
+function reportTitle(report: ComplianceReport): string {
+  return `Relatório de conformidade ${pdfaFormatLabels[report.options.formatType]}: ${report.input.name}`;
+}
+
+function itemHeading(item: ConformanceGroup["items"][number]): string {
+  const pages = item.pages.length > 0 ? ` (${item.pages.length === 1 ? "página" : "páginas"} ${item.pages.join(", ")})` : "";
+  return `${item.clause ? `${item.clause} ` : ""}${item.title}${pages}`;
+}
+
+// A single page with its styles inline, readable offline; items expand for details
+function toHtml(report: ComplianceReport): string {
+  const out: string[] = [
+    `<!DOCTYPE html>`,
+    `<html lang="pt-BR">`,
+    `<head>`,
+    `<meta charset="utf-8">`,
+    `<title>${escapeXml(reportTitle(report))}</title>`,
+    `<style>`,
+    `body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }`,
+    `h1 { font-size: 1.4rem; } h2 { font-size: 1.1rem; border-bottom: 1px solid #e5e7eb; padding-bottom: .25rem; margin-top: 2rem; }`,
+    `h3 { font-size: 1rem; margin-bottom: .25rem; } table { border-collapse: collapse; width: 100%; }`,
+    `th, td { text-align: left; vertical-align: top; padding: .25rem .5rem; border-bottom: 1px solid #f3f4f6; }`,
+    `th { width: 30%; font-weight: 600; } td { word-break: break-all; }`,
+    `details { margin: .25rem 0; } summary { cursor: pointer; } .clause { font-family: monospace; color: #6b7280; }`,
+    `.empty { color: #6b7280; }`,
+    `</style>`,
+    `</head>`,
+    `<body>`,
+    `<h1>${escapeXml(reportTitle(report))}</h1>`,
+  ];
+
+  for (const section of sections(report)) {
+    out.push(`<h2>${escapeXml(section.title)}</h2>`);
+    if (section.fields) {
+      out.push(`<table>`);
+      section.fields.forEach(([label, value]) => out.push(`<tr><th>${escapeXml(label)}</th><td>${escapeXml(value)}</td></tr>`));
+      out.push(`</table>`);
+    }
+    if (section.groups?.length === 0 && section.empty) out.push(`<p class="empty">${escapeXml(section.empty)}</p>`);
+    section.groups?.forEach((group) => {
+      out.push(`<h3>${escapeXml(group.label)} (${group.items.length})</h3>`);
+      group.items.forEach((item) => {
+        const clause = item.clause ? `<span class="clause">${escapeXml(item.clause)}</span> ` : "";
+        const heading = escapeXml(itemHeading({ ...item, clause: undefined }));
+        out.push(`<details><summary>${clause}${heading}</summary>`);
+        out.push(item.details.length > 0
+          ? `<ul>${item.details.map((detail) => `<li>${escapeXml(detail)}</li>`).join("")}</ul>`
+          : `<p class="empty">Sem detalhes adicionais.</p>`);
+        out.push(`</details>`);
+      });
+    });
+  }
+
+  out.push(`</body>`, `</html>`);
+  return out.join("\n");
+}
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89];
+const MARGIN = 50;
+
+// Lays lines out top to bottom, wrapping them and starting pages as needed
+class TextLayout {
+  private page: PDFPage;
+  private y = 0;
+
+  constructor(
+    private readonly pdfDoc: PDFDocument,
+    private readonly fonts: { regular: PDFFont; bold: PDFFont },
+  ) {
+    this.page = this.addPage();
+  }
+
+  private addPage(): PDFPage {
+    this.page = this.pdfDoc.addPage(PAGE_SIZE);
+    this.y = PAGE_SIZE[1] - MARGIN;
+    return this.page;
+  }
+
+  write(text: string, { size = 10, bold = false, indent = 0, gap = 2 } = {}): void {
+    const font = bold ? this.fonts.bold : this.fonts.regular;
+    const width = PAGE_SIZE[0] - 2 * MARGIN - indent;
+    for (const line of wrap(encodable(text, font), font, size, width)) {
+      if (this.y - size < MARGIN) this.addPage();
+      this.y -= size;
+      this.page.drawText(line, { x: MARGIN + indent, y: this.y, size, font, color: rgb(0.12, 0.16, 0.22) });
+      this.y -= gap;
+    }
+  }
+
+  space(height: number): void {
+    this.y -= height;
+  }
+}
+
+// Standard fonts only encode WinAnsi; anything else is shown as "?"
+function encodable(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text).map((char) => (supported.has(char.codePointAt(0)!) ? char : "?")).join("");
+}
+
+// Breaks at spaces, or anywhere in words too long for a line (hashes)
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word;
+    while (font.widthOfTextAtSize(line, size) > width) {
+      let cut = line.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > width) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/**
+ * The report as a PDF/A-2u document: drawn with standard fonts, then passed
+ * through the converter like any upload, so the evidence is itself archival
+ * and verified.
+ */
+async function toPdf(report: ComplianceReport): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(reportTitle(report));
+  pdfDoc.setCreator(`${report.tool.name} ${report.tool.version}`);
+  const layout = new TextLayout(pdfDoc, {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+  });
+
+  layout.write(reportTitle(report), { size: 15, bold: true, gap: 6 });
+  for (const section of sections(report)) {
+    layout.space(10);
+    layout.write(section.title, { size: 12, bold: true, gap: 4 });
+    section.fields?.forEach(([label, value]) => {
+      layout.write(label, { bold: true, gap: 1 });
+      layout.write(value, { indent: 12, gap: 3 });
+    });
+    if (section.groups?.length === 0 && section.empty) layout.write(section.empty);
+    section.groups?.forEach((group) => {
+      layout.space(4);
+      layout.write(`${group.label} (${group.items.length})`, { size: 11, bold: true, gap: 3 });
+      group.items.forEach((item) => {
+        layout.write(itemHeading(item), { indent: 8 });
+        item.details.forEach((detail) => layout.write(`- ${detail}`, { size: 9, indent: 20 }));
+      });
+    });
+  }
+
+  const data = await pdfDoc.save();
+  const result = await convertToPdfA(
+    { data, name: `${report.input.name}_relatorio.pdf`, attachments: [] },
+    conversionOptionsSchema.parse({ applyOcr: false, formatType: "pdf_a_2u" }),
+  );
+  if (!result.validation.compliant) {
+    throw new Error(`Compliance report PDF failed verification: ${result.validation.violations.map((v) => v.message).join("; ")}`);
+  }
+  return result.pdf;
+}
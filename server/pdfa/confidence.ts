@@ -0,0 +1,75 @@
+import type { OcrPageReport, OcrRegion } from "@shared/schema";
+import type { OcrPage, OcrWord } from "./ocr";
+
+export type PageConfidence = Pick<
+  OcrPageReport,
+  "wordConfidence" | "lineConfidence" | "lowConfidence" | "lowConfidenceRegions"
+>;
+
+/**
+ * Summarize how sure Tesseract was of a recognized page: mean word and line
+ * confidences, and the runs of words below `threshold`, located on the
+ * page so a reviewer can find them.
+ */
+export function measureConfidence(page: OcrPage, threshold: number): PageConfidence {
+  const scale = 72 / page.dpi;
+  const [x1, , , y2] = page.view;
+  const toBox = ({ x0, y0, x1: right, y1: bottom }: { x0: number; y0: number; x1: number; y1: number }) =>
+    [x1 + x0 * scale, y2 - bottom * scale, x1 + right * scale, y2 - y0 * scale].map(round) as OcrRegion["bbox"];
+
+  const wordConfidences: number[] = [];
+  const lineConfidences: number[] = [];
+  const regions: OcrRegion[] = [];
+
+  for (const block of page.blocks) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        if (line.words.length === 0) continue;
+        lineConfidences.push(line.confidence);
+
+        let run: OcrWord[] = [];
+        const closeRun = () => {
+          if (run.length === 0) return;
+          regions.push({
+            bbox: toBox({
+              x0: Math.min(...run.map((word) => word.bbox.x0)),
+              y0: Math.min(...run.map((word) => word.bbox.y0)),
+              x1: Math.max(...run.map((word) => word.bbox.x1)),
+              y1: Math.max(...run.map((word) => word.bbox.y1)),
+            }),
+            text: run.map((word) => word.text).join(" "),
+            confidence: round(mean(run.map((word) => word.confidence))!),
+          });
+          run = [];
+        };
+
+        for (const word of line.words) {
+          wordConfidences.push(word.confidence);
+          if (word.confidence < threshold) {
+            run.push(word);
+          } else {
+            closeRun();
+          }
+        }
+        closeRun();
+      }
+    }
+  }
+
+  const wordConfidence = mean(wordConfidences);
+  const lineConfidence = mean(lineConfidences);
+  return {
+    wordConfidence: wordConfidence === null ? null : round(wordConfidence),
+    lineConfidence: lineConfidence === null ? null : round(lineConfidence),
+    lowConfidence: wordConfidence !== null && wordConfidence < threshold,
+    lowConfidenceRegions: regions,
+  };
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,439 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFFlateStream,
+  PDFName,
+  PDFPageLeaf,
+  PDFRawStream,
+  PDFStream,
+  decodePDFRawStream,
+} from "pdf-lib";
+
+/**
+ * Minimal content stream reader shared by the conversion stages.
+ *
+ * pdf-lib can write content streams but has no parser for existing ones, so
+ * stages that need to know which operators a page uses (colors, text,
+ * images, graphics state) tokenize the decoded bytes with this module.
+ */
+
+export type ContentOperand =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "string"; value: Uint8Array }
+  | { type: "boolean"; value: boolean }
+  | { type: "null" }
+  | { type: "array"; value: ContentOperand[] }
+  | { type: "dict"; value: Map<string, ContentOperand> };
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+  // Set for BI ... ID ... EI inline images
+  inlineImage?: { dict: Map<string, ContentOperand>; data: Uint8Array };
+}
+
+/**
+ * Return the decoded bytes of a stream, whether it was parsed from the input
+ * file (raw, possibly filtered) or created by pdf-lib during conversion.
+ */
+export function readStreamData(stream: PDFStream): Uint8Array {
+  if (stream instanceof PDFRawStream) {
+    return decodePDFRawStream(stream).decode();
+  }
+  if (stream instanceof PDFFlateStream) {
+    return stream.getUnencodedContents();
+  }
+  return stream.getContents();
+}
+
+/**
+ * Concatenate the page's content streams. A page may have a single stream
+ * or an array of streams that are logically one stream.
+ */
+export function getPageContent(page: PDFPageLeaf): Uint8Array {
+  const contents = page.Contents();
+  const streams: PDFStream[] = [];
+  if (contents instanceof PDFStream) {
+    streams.push(contents);
+  } else if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = contents.lookup(i);
+      if (stream instanceof PDFStream) streams.push(stream);
+    }
+  }
+
+  const parts = streams.map(readStreamData);
+  const total = parts.reduce((sum, part) => sum + part.length + 1, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+    // Streams are separated by whitespace so tokens never merge across them
+    result[offset++] = 0x0a;
+  }
+  return result;
+}
+
+/**
+ * Look up a named resource (e.g. a font or XObject) in a resource category.
+ */
+export function lookupResource(
+  resources: PDFDict | undefined,
+  category: string,
+  name: string,
+): PDFDict | PDFStream | undefined {
+  const entries = resources?.lookupMaybe(PDFName.of(category), PDFDict);
+  const value = entries?.lookup(PDFName.of(name));
+  return value instanceof PDFDict || value instanceof PDFStream ? value : undefined;
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+const isRegular = (byte: number) => !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+
+/**
+ * Tokenize a decoded content stream into operations.
+ */
+export function parseContentStream(data: Uint8Array): ContentOperation[] {
+  const operations: ContentOperation[] = [];
+  const stack: ContentOperand[] = [];
+  let pos = 0;
+
+  const skipWhitespaceAndComments = () => {
+    while (pos < data.length) {
+      if (WHITESPACE.has(data[pos])) {
+        pos++;
+      } else if (data[pos] === 0x25) {
+        while (pos < data.length && data[pos] !== 0x0a && data[pos] !== 0x0d) pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readRegular = () => {
+    const start = pos;
+    while (pos < data.length && isRegular(data[pos])) pos++;
+    return Buffer.from(data.subarray(start, pos)).toString("latin1");
+  };
+
+  const readName = () => {
+    pos++; // skip '/'
+    const raw = readRegular();
+    return raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  };
+
+  const readLiteralString = () => {
+    pos++; // skip '('
+    const bytes: number[] = [];
+    let depth = 1;
+    while (pos < data.length) {
+      const byte = data[pos++];
+      if (byte === 0x5c) {
+        const next = data[pos++];
+        switch (next) {
+          case 0x6e: bytes.push(0x0a); break; // \n
+          case 0x72: bytes.push(0x0d); break; // \r
+          case 0x74: bytes.push(0x09); break; // \t
+          case 0x62: bytes.push(0x08); break; // \b
+          case 0x66: bytes.push(0x0c); break; // \f
+          case 0x0d: if (data[pos] === 0x0a) pos++; break; // line continuation
+          case 0x0a: break;
+          default:
+            if (next >= 0x30 && next <= 0x37) {
+              let octal = next - 0x30;
+              for (let i = 0; i < 2 && data[pos] >= 0x30 && data[pos] <= 0x37; i++) {
+                octal = octal * 8 + (data[pos++] - 0x30);
+              }
+              bytes.push(octal & 0xff);
+            } else {
+              bytes.push(next);
+            }
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        bytes.push(byte);
+      } else if (byte === 0x29) {
+        if (--depth === 0) break;
+        bytes.push(byte);
+      } else {
+        bytes.push(byte);
+      }
+    }
+    return new Uint8Array(bytes);
+  };
+
+  const readHexString = () => {
+    pos++; // skip '<'
+    let hex = "";
+    while (pos < data.length && data[pos] !== 0x3e) {
+      if (!WHITESPACE.has(data[pos])) hex += String.fromCharCode(data[pos]);
+      pos++;
+    }
+    pos++; // skip '>'
+    if (hex.length % 2) hex += "0";
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16) || 0;
+    }
+    return bytes;
+  };
+
+  const readObject = (): ContentOperand | string => {
+    skipWhitespaceAndComments();
+    const byte = data[pos];
+
+    if (byte === 0x2f) return { type: "name", value: readName() };
+    if (byte === 0x28) return { type: "string", value: readLiteralString() };
+    if (byte === 0x3c && data[pos + 1] === 0x3c) {
+      pos += 2;
+      return { type: "dict", value: readDictEntries(">>") };
+    }
+    if (byte === 0x3c) return { type: "string", value: readHexString() };
+    if (byte === 0x5b) {
+      pos++;
+      const items: ContentOperand[] = [];
+      for (;;) {
+        skipWhitespaceAndComments();
+        if (pos >= data.length) break;
+        if (data[pos] === 0x5d) {
+          pos++;
+          break;
+        }
+        const item = readObject();
+        if (typeof item !== "string") items.push(item);
+      }
+      return { type: "array", value: items };
+    }
+    if (byte === 0x5d || byte === 0x3e || byte === 0x29 || byte === 0x7b || byte === 0x7d) {
+      // Stray delimiter: skip it so malformed streams cannot loop forever
+      pos++;
+      return "";
+    }
+
+    const token = readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) return { type: "number", value: parseFloat(token) };
+    if (token === "true" || token === "false") return { type: "boolean", value: token === "true" };
+    if (token === "null") return { type: "null" };
+    return token;
+  };
+
+  // Dictionaries in content streams (inline images, marked content
+  // properties) are terminated by ">>", or by "ID" for inline images
+  const readDictEntries = (terminator: ">>" | "ID") => {
+    const entries = new Map<string, ContentOperand>();
+    for (;;) {
+      skipWhitespaceAndComments();
+      if (pos >= data.length) break;
+      if (terminator === ">>" && data[pos] === 0x3e && data[pos + 1] === 0x3e) {
+        pos += 2;
+        break;
+      }
+      const key = readObject();
+      if (typeof key === "string") {
+        if (key === terminator) break;
+        continue;
+      }
+      if (key.type !== "name") continue;
+      const value = readObject();
+      if (typeof value === "string") {
+        if (value === terminator) break;
+        continue;
+      }
+      entries.set(key.value, value);
+    }
+    return entries;
+  };
+
+  const readInlineImageData = () => {
+    // A single whitespace byte separates ID from the data; the data ends at
+    // the first "EI" that is delimited by whitespace on both sides
+    pos++;
+    const start = pos;
+    while (pos < data.length) {
+      if (
+        data[pos] === 0x45 &&
+        data[pos + 1] === 0x49 &&
+        WHITESPACE.has(data[pos - 1]) &&
+        (pos + 2 >= data.length || WHITESPACE.has(data[pos + 2]))
+      ) {
+        const end = pos - 1;
+        pos += 2;
+        return data.slice(start, end);
+      }
+      pos++;
+    }
+    return data.slice(start);
+  };
+
+  while (pos < data.length) {
+    skipWhitespaceAndComments();
+    if (pos >= data.length) break;
+
+    const object = readObject();
+    if (typeof object !== "string") {
+      stack.push(object);
+      continue;
+    }
+    if (object === "") continue;
+
+    if (object === "BI") {
+      const dict = readDictEntries("ID");
+      const imageData = readInlineImageData();
+      operations.push({ operator: "BI", operands: [], inlineImage: { dict, data: imageData } });
+      stack.length = 0;
+      continue;
+    }
+
+    operations.push({ operator: object, operands: stack.splice(0) });
+  }
+
+  return operations;
+}
+
+export function operandNumber(operand: ContentOperand | undefined): number {
+  return operand?.type === "number" ? operand.value : 0;
+}
+
+export function operandName(operand: ContentOperand | undefined): string | undefined {
+  return operand?.type === "name" ? operand.value : undefined;
+}
+
+/**
+ * Write operations back as content stream bytes, the inverse of
+ * `parseContentStream`. Strings are written in hex so no escaping is needed.
+ */
+export function serializeContentStream(operations: ContentOperation[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const text = (value: string) => chunks.push(Buffer.from(value, "latin1"));
+
+  for (const op of operations) {
+    if (op.inlineImage) {
+      text("BI");
+      op.inlineImage.dict.forEach((value, key) => text(` ${formatName(key)} ${formatOperand(value)}`));
+      text(" ID ");
+      chunks.push(op.inlineImage.data);
+      text("\nEI\n");
+      continue;
+    }
+    op.operands.forEach((operand) => text(`${formatOperand(operand)} `));
+    text(`${op.operator}\n`);
+  }
+
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function formatOperand(operand: ContentOperand): string {
+  switch (operand.type) {
+    case "number":
+      return Number.isInteger(operand.value)
+        ? String(operand.value)
+        : operand.value.toFixed(6).replace(/\.?0+$/, "");
+    case "name":
+      return formatName(operand.value);
+    case "string":
+      return `<${Buffer.from(operand.value).toString("hex")}>`;
+    case "boolean":
+      return String(operand.value);
+    case "null":
+      return "null";
+    case "array":
+      return `[${operand.value.map(formatOperand).join(" ")}]`;
+    case "dict": {
+      const entries: string[] = [];
+      operand.value.forEach((value, key) => entries.push(`${formatName(key)} ${formatOperand(value)}`));
+      return `<<${entries.join(" ")}>>`;
+    }
+  }
+}
+
+function formatName(name: string): string {
+  let result = "/";
+  for (let i = 0; i < name.length; i++) {
+    const code = name.charCodeAt(i);
+    const regular = code > 0x20 && code < 0x7f && code !== 0x23 && isRegular(code);
+    result += regular ? name.charAt(i) : `#${code.toString(16).padStart(2, "0")}`;
+  }
+  return result;
+}
+
+export interface ContentVisit {
+  operations: ContentOperation[];
+  resources: PDFDict | undefined;
+  // Zero-based page the content is drawn on
+  pageIndex: number;
+}
+
+/**
+ * Visit every content stream reachable from the page tree: page contents,
+ * form XObjects they paint (recursively, with the form's own resources) and
+ * annotation appearance streams. Streams that cannot be decoded are skipped;
+ * each form is visited once per page at most.
+ */
+export function forEachContentStream(
+  pdfDoc: PDFDocument,
+  visit: (content: ContentVisit) => void,
+): void {
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const visited = new Set<PDFStream>();
+
+    const visitForm = (form: PDFStream, inherited: PDFDict | undefined) => {
+      if (visited.has(form)) return;
+      visited.add(form);
+      const resources = form.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? inherited;
+      let data: Uint8Array;
+      try {
+        data = readStreamData(form);
+      } catch {
+        return;
+      }
+      visitOperations(parseContentStream(data), resources);
+    };
+
+    const visitOperations = (operations: ContentOperation[], resources: PDFDict | undefined) => {
+      visit({ operations, resources, pageIndex });
+      for (const op of operations) {
+        if (op.operator !== "Do") continue;
+        const name = operandName(op.operands[0]);
+        const xObject = name ? lookupResource(resources, "XObject", name) : undefined;
+        if (xObject instanceof PDFStream && xObject.dict.lookup(PDFName.of("Subtype")) === PDFName.of("Form")) {
+          visitForm(xObject, resources);
+        }
+      }
+    };
+
+    const pageResources = page.node.Resources();
+    try {
+      visitOperations(parseContentStream(getPageContent(page.node)), pageResources);
+    } catch {
+      // Undecodable page content: annotations below are still visited
+    }
+
+    const annotations = page.node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+    for (let i = 0; i < (annotations?.size() ?? 0); i++) {
+      const annotation = annotations!.lookupMaybe(i, PDFDict);
+      const appearance = annotation?.lookupMaybe(PDFName.of("AP"), PDFDict);
+      for (const key of ["N", "R", "D"]) {
+        const entry = appearance?.lookup(PDFName.of(key));
+        if (entry instanceof PDFStream) {
+          visitForm(entry, undefined);
+        } else if (entry instanceof PDFDict) {
+          for (const state of entry.keys()) {
+            const stream = entry.lookup(state);
+            if (stream instanceof PDFStream) visitForm(stream, undefined);
+          }
+        }
+      }
+    }
+  });
+}
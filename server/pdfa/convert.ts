@@ -0,0 +1,219 @@
+import { PDFDocument } from "pdf-lib";
+import { inputMimeTypes } from "@shared/schema";
+import type {
+  ConversionOptions,
+  InputReport,
+  OcrArtifactType,
+  ConversionReport,
+  LanguageReport,
+  OcrPageReport,
+  PreprocessReport,
+  TransparencyReport,
+  ValidationResult,
+} from "@shared/schema";
+import { decryptPdf } from "./decrypt";
+import { detectInputFormat, imagesToPdf, ImageInputError } from "./images";
+import { applyOcr, type OcrPage } from "./ocr";
+import { buildOcrArtifact } from "./artifacts";
+import { setDocumentLanguage } from "./languages";
+import { normalizeStructure, setHeaderVersion } from "./structure";
+import { sanitizeDocument } from "./sanitize";
+import { applyLevelRules, getConformanceLevel } from "./levels";
+import {
+  embedAssociatedFiles,
+  type AssociatedFilesResult,
+  type AttachmentFile,
+} from "./attachments";
+import { writePdfaMetadata } from "./metadata";
+import { applyOutputIntent } from "./color";
+import { embedMissingFonts } from "./fonts";
+import { ensureUnicodeMappings } from "./unicode";
+import { removeTransparency } from "./transparency";
+import { validatePdfA } from "./validate";
+
+// Interface for conversion progress updates
+export interface ProgressUpdate {
+  stage: string;
+  progress: number;
+}
+
+// The uploaded file (a PDF or an image) plus, for PDF/A-3, the files to
+// associate with it
+export interface ConversionInput {
+  data: Uint8Array;
+  name: string;
+  attachments: Omit<AttachmentFile, "origin">[];
+}
+
+export interface ConversionResult {
+  pdf: Uint8Array;
+  report: ConversionReport;
+  // The OCR artifacts requested in `options.ocrArtifacts`
+  artifacts: Partial<Record<OcrArtifactType, string>>;
+  // The output checked against the level it claims
+  validation: ValidationResult;
+}
+
+// Status of a job whose conversion ran to the end
+export type VerifiedStatus = 'completed' | 'completed_with_warnings' | 'failed_validation';
+
+/**
+ * Convert an uploaded PDF, or a JPEG, PNG or TIFF image of scanned pages,
+ * to the PDF/A part and level in `options.formatType`.
+ *
+ * Each stage mutates the loaded document in place; the document is only
+ * serialized once at the end, without object streams so the output stays
+ * readable by conservative archive validators.
+ *
+ * @param input The uploaded file and any files to embed alongside it
+ * @param options Conversion options
+ * @param onProgress Callback for progress updates
+ */
+export async function convertToPdfA(
+  input: ConversionInput,
+  options: ConversionOptions,
+  onProgress: (update: ProgressUpdate) => void = () => {},
+): Promise<ConversionResult> {
+  const level = getConformanceLevel(options.formatType);
+  if (level.part !== 3 && (input.attachments.length > 0 || options.embedOriginal)) {
+    throw new Error(`Associated files require PDF/A-3, not ${level.label}`);
+  }
+
+  onProgress({ stage: 'Analisando documento...', progress: 10 });
+  const format = detectInputFormat(input.data);
+  if (!format) {
+    throw new ImageInputError('Unsupported file type: expected a PDF, JPEG, PNG or TIFF file');
+  }
+
+  // Images become a PDF of scanned pages first, with nothing to decrypt
+  let data: Uint8Array;
+  let encryption: ConversionReport['encryption'] = null;
+  const inputReport: InputReport = { format, images: [] };
+  if (format === 'pdf') {
+    ({ data, encryption } = await decryptPdf(input.data, options.password));
+  } else {
+    onProgress({ stage: 'Convertendo imagens em páginas...', progress: 10 });
+    ({ pdf: data, images: inputReport.images } = await imagesToPdf(input.data, format));
+  }
+  const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+
+  let ocr: OcrPageReport[] = [];
+  let language: LanguageReport | null = null;
+  let preprocessing: PreprocessReport[] = [];
+  let layouts: OcrPage[] = [];
+  if (options.applyOcr) {
+    ({ pages: ocr, layouts, language, preprocessing } = await applyOcr(pdfDoc, data, options, (done, total) => {
+      // Every page may already have text, leaving nothing to recognize
+      if (total === 0) return;
+      onProgress({
+        stage: `Aplicando OCR (${done}/${total} páginas)...`,
+        progress: 10 + Math.round((done / total) * 30),
+      });
+    }));
+    if (language.tag) setDocumentLanguage(pdfDoc, language.tag);
+  }
+
+  onProgress({ stage: 'Normalizando estrutura do arquivo...', progress: 40 });
+  normalizeStructure(pdfDoc, input.data);
+
+  onProgress({ stage: 'Removendo conteúdo não permitido...', progress: 45 });
+  const sanitization = sanitizeDocument(pdfDoc);
+
+  onProgress({ stage: `Aplicando regras do ${level.label}...`, progress: 48 });
+  const levelReport = await applyLevelRules(pdfDoc, level);
+
+  onProgress({ stage: `Incorporando fontes necessárias para ${level.label}...`, progress: 50 });
+  const fonts = await embedMissingFonts(pdfDoc);
+
+  onProgress({ stage: 'Aplicando codificação Unicode...', progress: 55 });
+  const unicode = ensureUnicodeMappings(pdfDoc);
+
+  // Runs after fonts are embedded so flattened pages render with them
+  let transparency: TransparencyReport[] = [];
+  if (!level.transparency) {
+    onProgress({ stage: 'Removendo transparências...', progress: 58 });
+    transparency = await removeTransparency(pdfDoc, options.transparency, level.label);
+  }
+
+  onProgress({ stage: 'Aplicando perfil de cores sRGB...', progress: 60 });
+  const color = applyOutputIntent(pdfDoc);
+
+  let associated: AssociatedFilesResult = { attachments: [], extensions: [] };
+  if (level.part === 3) {
+    onProgress({ stage: 'Incorporando arquivos associados...', progress: 70 });
+    const files: AttachmentFile[] = input.attachments.map((file) => ({ ...file, origin: 'uploaded' }));
+    if (options.embedOriginal) {
+      files.unshift({
+        name: input.name,
+        mimeType: inputMimeTypes[format],
+        data: input.data,
+        relationship: 'Source',
+        description: 'Arquivo original',
+        origin: 'original',
+      });
+    }
+    associated = embedAssociatedFiles(pdfDoc, files);
+  }
+
+  onProgress({ stage: `Configurando metadados ${level.label}...`, progress: 80 });
+  writePdfaMetadata(
+    pdfDoc,
+    { part: level.part, conformance: level.conformance },
+    associated.extensions,
+  );
+
+  onProgress({ stage: 'Finalizando...', progress: 95 });
+  const pdf = setHeaderVersion(await pdfDoc.save({ useObjectStreams: false }), level.pdfVersion);
+
+  onProgress({ stage: `Verificando conformidade com ${level.label}...`, progress: 97 });
+  const validation = await validatePdfA(pdf, { part: level.part, conformance: level.conformance });
+
+  // Artifacts need OCR results, so none are produced when OCR was off
+  const artifacts: ConversionResult['artifacts'] = {};
+  if (options.applyOcr) {
+    for (const type of options.ocrArtifacts) {
+      artifacts[type] = buildOcrArtifact(type, { title: input.name, language: language?.tag ?? null, pages: layouts });
+    }
+  }
+
+  return {
+    pdf,
+    artifacts,
+    validation,
+    report: {
+      input: inputReport,
+      pageCount: pdfDoc.getPageCount(),
+      encryption,
+      ocr,
+      language,
+      preprocessing,
+      ocrArtifacts: Object.keys(artifacts) as OcrArtifactType[],
+      level: levelReport,
+      sanitization,
+      color,
+      fonts,
+      unicode,
+      attachments: associated.attachments,
+      transparency,
+    },
+  };
+}
+
+/**
+ * A conversion whose output breaks the level it claims fails, so no file is
+ * offered under a PDF/A label it does not earn. One that conforms but left
+ * something for the user to review (forbidden constructs or fonts it could
+ * not fix, unmapped glyphs, OCR below the confidence threshold) completes
+ * with warnings.
+ */
+export function verifiedStatus({ report, validation }: ConversionResult): VerifiedStatus {
+  if (!validation.compliant) return 'failed_validation';
+  const needsReview =
+    report.level.unresolved.length > 0 ||
+    report.transparency.some((page) => !page.textKept) ||
+    report.color.unresolved.length > 0 ||
+    report.fonts.some((font) => font.action === 'unresolved' || (font.missingGlyphs?.length ?? 0) > 0) ||
+    report.unicode.some((font) => font.unmappedGlyphs.length > 0) ||
+    report.ocr.some((page) => page.lowConfidence);
+  return needsReview ? 'completed_with_warnings' : 'completed';
+}
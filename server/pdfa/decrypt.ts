@@ -0,0 +1,453 @@
+import { createDecipheriv, createCipheriv, createHash } from "crypto";
+import {
+  PDFArray,
+  PDFDict,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  PDFBool,
+  PDFWriter,
+  type PDFContext,
+} from "pdf-lib";
+import type { EncryptionReport } from "@shared/schema";
+
+/**
+ * Why an encrypted input could not be opened. `password_required` and
+ * `password_incorrect` let the client ask for a (different) password and
+ * retry the same job.
+ */
+export class DecryptionError extends Error {
+  constructor(
+    readonly reason: "password_required" | "password_incorrect" | "unsupported",
+    message: string,
+  ) {
+    super(message);
+    this.name = "DecryptionError";
+  }
+}
+
+export interface DecryptionResult {
+  data: Uint8Array;
+  encryption: EncryptionReport | null;
+}
+
+// Padding string of the standard security handler (ISO 32000-1, 7.6.3.3)
+const PASSWORD_PADDING = Buffer.from(
+  "28BF4E5E4E758A4164004E56FFFA01082E2E00B6D0683E802F0CA9FE6453697A",
+  "hex",
+);
+
+type CryptMethod = "None" | "V2" | "AESV2" | "AESV3";
+
+interface SecurityHandler {
+  fileKey: Buffer;
+  stringMethod: CryptMethod;
+  streamMethod: CryptMethod;
+  embeddedFileMethod: CryptMethod;
+  encryptMetadata: boolean;
+  report: EncryptionReport;
+}
+
+/**
+ * Remove the encryption of a PDF encrypted with the standard security
+ * handler (RC4 40/128-bit, AES-128 and AES-256).
+ *
+ * pdf-lib cannot decrypt, so the file is parsed at the object level, every
+ * string and stream is decrypted in place, object streams (unreadable while
+ * encrypted) are expanded, and the context is serialized again without the
+ * /Encrypt entry. Unencrypted input is returned unchanged.
+ */
+export async function decryptPdf(input: Uint8Array, password?: string): Promise<DecryptionResult> {
+  // The trailer (or cross-reference stream dictionary) is never compressed,
+  // so files without the key anywhere cannot be encrypted
+  if (!Buffer.from(input.buffer, input.byteOffset, input.byteLength).includes("/Encrypt")) {
+    return { data: input, encryption: null };
+  }
+
+  const context = await PDFParser.forBytesWithOptions(input).parseDocument();
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encrypt = context.lookup(encryptRef);
+  if (!(encrypt instanceof PDFDict)) return { data: input, encryption: null };
+
+  const documentId = firstIdBytes(context);
+  const handler = openSecurityHandler(encrypt, documentId, password);
+
+  // Objects stored in object streams are decrypted with their stream, so
+  // only the top-level objects are processed here
+  const objects = context.enumerateIndirectObjects();
+  const objectStreams: Array<[PDFRef, PDFRawStream]> = [];
+
+  for (const [ref, object] of objects) {
+    if (ref === encryptRef || object === encrypt) continue;
+
+    const stream = object instanceof PDFInvalidObject ? reparseInvalidObject(object, context) : object;
+    if (stream instanceof PDFRawStream) {
+      const type = stream.dict.lookup(PDFName.of("Type"));
+      if (type === PDFName.of("XRef")) continue;
+
+      decryptStrings(stream.dict, ref, handler);
+      const decrypted = PDFRawStream.of(stream.dict, decryptStream(stream, ref, handler));
+      if (type === PDFName.of("ObjStm")) {
+        objectStreams.push([ref, decrypted]);
+      } else {
+        context.assign(ref, decrypted);
+      }
+    } else if (stream) {
+      context.assign(ref, decryptStrings(stream, ref, handler));
+    }
+  }
+
+  for (const [ref, stream] of objectStreams) {
+    context.delete(ref);
+    await PDFObjectStreamParser.forStream(stream).parseIntoContext();
+  }
+
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+  context.trailerInfo.Encrypt = undefined;
+
+  const data = await PDFWriter.forContext(context, 50).serializeToBuffer();
+  return { data, encryption: handler.report };
+}
+
+function firstIdBytes(context: PDFContext): Buffer {
+  const id = context.lookup(context.trailerInfo.ID);
+  const first = id instanceof PDFArray ? id.lookup(0) : undefined;
+  return first instanceof PDFString || first instanceof PDFHexString
+    ? Buffer.from(first.asBytes())
+    : Buffer.alloc(0);
+}
+
+/**
+ * An encrypted object stream fails to inflate while pdf-lib parses the file,
+ * which then keeps its raw bytes as an invalid object; parse them again as a
+ * stream so it can be decrypted.
+ */
+function reparseInvalidObject(object: PDFInvalidObject, context: PDFContext): PDFObject | undefined {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  try {
+    return PDFObjectParser.forBytes(bytes, context).parseObject();
+  } catch {
+    return undefined;
+  }
+}
+
+function openSecurityHandler(encrypt: PDFDict, documentId: Buffer, password?: string): SecurityHandler {
+  const filter = encrypt.lookup(PDFName.of("Filter"));
+  if (filter !== PDFName.of("Standard")) {
+    throw new DecryptionError(
+      "unsupported",
+      `Unsupported security handler: ${filter instanceof PDFName ? filter.decodeText() : "unknown"}`,
+    );
+  }
+
+  const version = numberEntry(encrypt, "V", 0);
+  const revision = numberEntry(encrypt, "R", 2);
+  const encryptMetadata = encrypt.lookup(PDFName.of("EncryptMetadata")) !== PDFBool.False;
+
+  let stringMethod: CryptMethod = "V2";
+  let streamMethod: CryptMethod = "V2";
+  let embeddedFileMethod: CryptMethod = "V2";
+  let keyLength = version === 1 ? 5 : numberEntry(encrypt, "Length", 40) / 8;
+
+  if (version === 4 || version === 5) {
+    const filters = encrypt.lookupMaybe(PDFName.of("CF"), PDFDict);
+    const method = (key: string): CryptMethod => {
+      const name = encrypt.lookup(PDFName.of(key));
+      if (!(name instanceof PDFName) || name === PDFName.of("Identity")) return "None";
+      const cryptFilter = filters?.lookupMaybe(name, PDFDict);
+      const cfm = cryptFilter?.lookup(PDFName.of("CFM"));
+      const cfmName = cfm instanceof PDFName ? cfm.decodeText() : "None";
+      if (cfmName === "V2" || cfmName === "AESV2" || cfmName === "AESV3" || cfmName === "None") return cfmName;
+      throw new DecryptionError("unsupported", `Unsupported crypt filter method: ${cfmName}`);
+    };
+    stringMethod = method("StrF");
+    streamMethod = method("StmF");
+    embeddedFileMethod = encrypt.has(PDFName.of("EFF")) ? method("EFF") : streamMethod;
+    keyLength = version === 5 ? 32 : 16;
+  } else if (version !== 1 && version !== 2) {
+    throw new DecryptionError("unsupported", `Unsupported encryption version V=${version}`);
+  }
+
+  const o = bytesEntry(encrypt, "O");
+  const u = bytesEntry(encrypt, "U");
+  const permissions = numberEntry(encrypt, "P", 0);
+
+  let fileKey: Buffer | undefined;
+  let passwordType: EncryptionReport["password"] = "none";
+
+  if (revision >= 5) {
+    const oe = bytesEntry(encrypt, "OE");
+    const ue = bytesEntry(encrypt, "UE");
+    const candidates = password ? ["", password] : [""];
+    for (const candidate of candidates) {
+      const passwordBytes = Buffer.from(candidate.normalize("NFKC"), "utf8").subarray(0, 127);
+      fileKey = openAes256User(passwordBytes, u, ue, revision);
+      if (fileKey) {
+        passwordType = candidate ? "user" : "none";
+        break;
+      }
+      fileKey = openAes256Owner(passwordBytes, o, oe, u, revision);
+      if (fileKey) {
+        passwordType = "owner";
+        break;
+      }
+    }
+  } else {
+    const params = { o, u, permissions, documentId, revision, keyLength, encryptMetadata };
+    // Most encrypted files only restrict permissions and open with an empty
+    // user password, so that is always tried first
+    fileKey = authenticateUser(Buffer.alloc(0), params);
+    if (fileKey) passwordType = "none";
+    if (!fileKey && password) {
+      const passwordBytes = Buffer.from(password, "latin1");
+      fileKey = authenticateUser(passwordBytes, params);
+      if (fileKey) {
+        passwordType = "user";
+      } else {
+        fileKey = authenticateUser(recoverUserPassword(passwordBytes, o, revision, keyLength), params);
+        if (fileKey) passwordType = "owner";
+      }
+    }
+  }
+
+  if (!fileKey) {
+    throw password
+      ? new DecryptionError("password_incorrect", "The password is incorrect")
+      : new DecryptionError("password_required", "The document is protected by a password");
+  }
+
+  const algorithm =
+    streamMethod === "AESV3" ? "AES-256"
+    : streamMethod === "AESV2" ? "AES-128"
+    : `RC4 ${keyLength * 8}-bit`;
+
+  return {
+    fileKey,
+    stringMethod,
+    streamMethod,
+    embeddedFileMethod,
+    encryptMetadata,
+    report: { algorithm, revision, password: passwordType },
+  };
+}
+
+interface LegacyParams {
+  o: Buffer;
+  u: Buffer;
+  permissions: number;
+  documentId: Buffer;
+  revision: number;
+  keyLength: number;
+  encryptMetadata: boolean;
+}
+
+function padPassword(password: Buffer): Buffer {
+  return Buffer.concat([password.subarray(0, 32), PASSWORD_PADDING]).subarray(0, 32);
+}
+
+// Algorithm 2: compute the file key from a user password (RC4/AES-128)
+function computeLegacyKey(password: Buffer, params: LegacyParams): Buffer {
+  const permissions = Buffer.alloc(4);
+  permissions.writeInt32LE(params.permissions | 0);
+
+  const hash = createHash("md5")
+    .update(padPassword(password))
+    .update(params.o.subarray(0, 32))
+    .update(permissions)
+    .update(params.documentId);
+  if (params.revision >= 4 && !params.encryptMetadata) hash.update(Buffer.from([0xff, 0xff, 0xff, 0xff]));
+
+  let key = hash.digest();
+  if (params.revision >= 3) {
+    for (let i = 0; i < 50; i++) key = createHash("md5").update(key.subarray(0, params.keyLength)).digest();
+  }
+  return key.subarray(0, params.keyLength);
+}
+
+// Algorithms 4 and 5: check a user password against /U
+function authenticateUser(password: Buffer, params: LegacyParams): Buffer | undefined {
+  const key = computeLegacyKey(password, params);
+
+  if (params.revision === 2) {
+    return rc4(key, PASSWORD_PADDING).equals(params.u.subarray(0, 32)) ? key : undefined;
+  }
+
+  let value = createHash("md5").update(PASSWORD_PADDING).update(params.documentId).digest();
+  for (let i = 0; i < 20; i++) value = rc4(xorKey(key, i), value);
+  return value.equals(params.u.subarray(0, 16)) ? key : undefined;
+}
+
+// Algorithm 7: decrypt /O with the owner password to recover the user password
+function recoverUserPassword(ownerPassword: Buffer, o: Buffer, revision: number, keyLength: number): Buffer {
+  let key = createHash("md5").update(padPassword(ownerPassword)).digest();
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) key = createHash("md5").update(key).digest();
+  }
+  key = key.subarray(0, revision === 2 ? 5 : keyLength);
+
+  let value = o.subarray(0, 32);
+  if (revision === 2) return rc4(key, value);
+  for (let i = 19; i >= 0; i--) value = rc4(xorKey(key, i), value);
+  return value;
+}
+
+// Algorithm 2.A for the user password of AES-256 (R5/R6)
+function openAes256User(password: Buffer, u: Buffer, ue: Buffer, revision: number): Buffer | undefined {
+  const validationSalt = u.subarray(32, 40);
+  const keySalt = u.subarray(40, 48);
+  if (!hash2B(password, validationSalt, Buffer.alloc(0), revision).equals(u.subarray(0, 32))) return undefined;
+  const intermediate = hash2B(password, keySalt, Buffer.alloc(0), revision);
+  return aesNoPadding(intermediate, ue.subarray(0, 32));
+}
+
+function openAes256Owner(password: Buffer, o: Buffer, oe: Buffer, u: Buffer, revision: number): Buffer | undefined {
+  const userData = u.subarray(0, 48);
+  const validationSalt = o.subarray(32, 40);
+  const keySalt = o.subarray(40, 48);
+  if (!hash2B(password, validationSalt, userData, revision).equals(o.subarray(0, 32))) return undefined;
+  const intermediate = hash2B(password, keySalt, userData, revision);
+  return aesNoPadding(intermediate, oe.subarray(0, 32));
+}
+
+// Algorithm 2.B (R6); R5 uses the plain SHA-256 of the same input
+function hash2B(password: Buffer, salt: Buffer, userData: Buffer, revision: number): Buffer {
+  let k = createHash("sha256").update(password).update(salt).update(userData).digest();
+  if (revision === 5) return k;
+
+  for (let round = 0; ; round++) {
+    const block = Buffer.concat([password, k, userData]);
+    const k1 = Buffer.concat(Array.from({ length: 64 }, () => block));
+    const cipher = createCipheriv("aes-128-cbc", k.subarray(0, 16), k.subarray(16, 32));
+    cipher.setAutoPadding(false);
+    const e = Buffer.concat([cipher.update(k1), cipher.final()]);
+
+    let sum = 0;
+    for (let i = 0; i < 16; i++) sum += e[i];
+    k = createHash(["sha256", "sha384", "sha512"][sum % 3]).update(e).digest();
+
+    if (round >= 63 && e[e.length - 1] <= round - 31) break;
+  }
+  return k.subarray(0, 32);
+}
+
+function aesNoPadding(key: Buffer, data: Buffer): Buffer {
+  const decipher = createDecipheriv("aes-256-cbc", key, Buffer.alloc(16));
+  decipher.setAutoPadding(false);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+// Algorithm 1: the per-object key for RC4 and AES-128
+function objectKey(ref: PDFRef, handler: SecurityHandler, method: CryptMethod): Buffer {
+  if (method === "AESV3") return handler.fileKey;
+  const suffix = Buffer.from([
+    ref.objectNumber & 0xff,
+    (ref.objectNumber >> 8) & 0xff,
+    (ref.objectNumber >> 16) & 0xff,
+    ref.generationNumber & 0xff,
+    (ref.generationNumber >> 8) & 0xff,
+  ]);
+  const hash = createHash("md5").update(handler.fileKey).update(suffix);
+  if (method === "AESV2") hash.update(Buffer.from("sAlT", "latin1"));
+  return hash.digest().subarray(0, Math.min(handler.fileKey.length + 5, 16));
+}
+
+function decryptBytes(data: Uint8Array, ref: PDFRef, handler: SecurityHandler, method: CryptMethod): Buffer {
+  const buffer = Buffer.from(data);
+  if (method === "None") return buffer;
+
+  const key = objectKey(ref, handler, method);
+  if (method === "V2") return rc4(key, buffer);
+  if (buffer.length < 16) return Buffer.alloc(0);
+
+  const algorithm = method === "AESV3" ? "aes-256-cbc" : "aes-128-cbc";
+  const iv = buffer.subarray(0, 16);
+  const body = buffer.subarray(16, buffer.length - ((buffer.length - 16) % 16));
+  try {
+    const decipher = createDecipheriv(algorithm, key, iv);
+    return Buffer.concat([decipher.update(body), decipher.final()]);
+  } catch {
+    // Some writers get the padding wrong; keep the data without stripping it
+    const decipher = createDecipheriv(algorithm, key, iv);
+    decipher.setAutoPadding(false);
+    return Buffer.concat([decipher.update(body), decipher.final()]);
+  }
+}
+
+function decryptStream(stream: PDFRawStream, ref: PDFRef, handler: SecurityHandler): Buffer {
+  const { dict } = stream;
+  const type = dict.lookup(PDFName.of("Type"));
+
+  if (type === PDFName.of("Metadata") && !handler.encryptMetadata) return Buffer.from(stream.contents);
+
+  // A Crypt filter (only Identity is supported) overrides the default method
+  const filter = dict.lookup(PDFName.of("Filter"));
+  const filters = filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : [];
+  if (filters[0] === PDFName.of("Crypt")) {
+    const remaining = filters.slice(1);
+    if (remaining.length === 0) dict.delete(PDFName.of("Filter"));
+    else dict.set(PDFName.of("Filter"), dict.context.obj(remaining));
+    dict.delete(PDFName.of("DecodeParms"));
+    return Buffer.from(stream.contents);
+  }
+
+  const method = type === PDFName.of("EmbeddedFile") ? handler.embeddedFileMethod : handler.streamMethod;
+  return decryptBytes(stream.contents, ref, handler, method);
+}
+
+// Decrypt every string reachable from a top-level object without following references
+function decryptStrings<T extends PDFObject>(object: T, ref: PDFRef, handler: SecurityHandler): T {
+  const decrypt = (value: PDFObject): PDFObject => {
+    if (value instanceof PDFString || value instanceof PDFHexString) {
+      const bytes = decryptBytes(value.asBytes(), ref, handler, handler.stringMethod);
+      return PDFHexString.of(bytes.toString("hex"));
+    }
+    if (value instanceof PDFDict) {
+      value.entries().forEach(([key, entry]) => value.set(key, decrypt(entry)));
+    } else if (value instanceof PDFArray) {
+      for (let i = 0; i < value.size(); i++) value.set(i, decrypt(value.get(i)));
+    }
+    return value;
+  };
+  return decrypt(object) as T;
+}
+
+function rc4(key: Buffer, data: Buffer): Buffer {
+  const state = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const output = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[n] = data[n] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+}
+
+function xorKey(key: Buffer, value: number): Buffer {
+  return Buffer.from(key.map((byte) => byte ^ value));
+}
+
+function numberEntry(dict: PDFDict, key: string, fallback: number): number {
+  return dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber() ?? fallback;
+}
+
+function bytesEntry(dict: PDFDict, key: string): Buffer {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString
+    ? Buffer.from(value.asBytes())
+    : Buffer.alloc(0);
+}
@@ -0,0 +1,192 @@
+import { PDFArray, PDFDict, PDFName, PDFNumber } from "pdf-lib";
+
+/**
+ * Simple-font encodings and glyph name to Unicode mapping.
+ *
+ * Only the Latin encodings that can appear as a font's /Encoding or
+ * /BaseEncoding are covered; symbolic fonts use their built-in encoding and
+ * are handled by the callers.
+ */
+
+type EncodingTable = Array<string | undefined>;
+
+const ASCII_NAMES = (
+  "space exclam quotedbl numbersign dollar percent ampersand quotesingle parenleft parenright " +
+  "asterisk plus comma hyphen period slash zero one two three four five six seven eight nine " +
+  "colon semicolon less equal greater question at A B C D E F G H I J K L M N O P Q R S T U V " +
+  "W X Y Z bracketleft backslash bracketright asciicircum underscore grave a b c d e f g h i j " +
+  "k l m n o p q r s t u v w x y z braceleft bar braceright asciitilde"
+).split(" ");
+
+const LATIN1_NAMES = (
+  "exclamdown cent sterling currency yen brokenbar section dieresis copyright ordfeminine " +
+  "guillemotleft logicalnot hyphen registered macron degree plusminus twosuperior threesuperior " +
+  "acute mu paragraph periodcentered cedilla onesuperior ordmasculine guillemotright onequarter " +
+  "onehalf threequarters questiondown Agrave Aacute Acircumflex Atilde Adieresis Aring AE " +
+  "Ccedilla Egrave Eacute Ecircumflex Edieresis Igrave Iacute Icircumflex Idieresis Eth Ntilde " +
+  "Ograve Oacute Ocircumflex Otilde Odieresis multiply Oslash Ugrave Uacute Ucircumflex " +
+  "Udieresis Yacute Thorn germandbls agrave aacute acircumflex atilde adieresis aring ae " +
+  "ccedilla egrave eacute ecircumflex edieresis igrave iacute icircumflex idieresis eth ntilde " +
+  "ograve oacute ocircumflex otilde odieresis divide oslash ugrave uacute ucircumflex udieresis " +
+  "yacute thorn ydieresis"
+).split(" ");
+
+const WIN_ANSI_HIGH = (
+  "Euro bullet quotesinglbase florin quotedblbase ellipsis dagger daggerdbl circumflex " +
+  "perthousand Scaron guilsinglleft OE bullet Zcaron bullet bullet quoteleft quoteright " +
+  "quotedblleft quotedblright bullet endash emdash tilde trademark scaron guilsinglright oe " +
+  "bullet zcaron Ydieresis space"
+).split(" ");
+
+const MAC_ROMAN_HIGH = (
+  "Adieresis Aring Ccedilla Eacute Ntilde Odieresis Udieresis aacute agrave acircumflex " +
+  "adieresis atilde aring ccedilla eacute egrave ecircumflex edieresis iacute igrave " +
+  "icircumflex idieresis ntilde oacute ograve ocircumflex odieresis otilde uacute ugrave " +
+  "ucircumflex udieresis dagger degree cent sterling section bullet paragraph germandbls " +
+  "registered copyright trademark acute dieresis notequal AE Oslash infinity plusminus " +
+  "lessequal greaterequal yen mu partialdiff summation product pi integral ordfeminine " +
+  "ordmasculine Omega ae oslash questiondown exclamdown logicalnot radical florin approxequal " +
+  "Delta guillemotleft guillemotright ellipsis space Agrave Atilde Otilde OE oe endash emdash " +
+  "quotedblleft quotedblright quoteleft quoteright divide lozenge ydieresis Ydieresis fraction " +
+  "currency guilsinglleft guilsinglright fi fl daggerdbl periodcentered quotesinglbase " +
+  "quotedblbase perthousand Acircumflex Ecircumflex Aacute Edieresis Egrave Iacute " +
+  "Icircumflex Idieresis Igrave Oacute Ocircumflex apple Ograve Uacute Ucircumflex Ugrave " +
+  "dotlessi circumflex tilde macron breve dotaccent ring cedilla hungarumlaut ogonek caron"
+).split(" ");
+
+// StandardEncoding differs from ASCII at 39/96 and is sparse above 160
+const STANDARD_HIGH: Record<number, string> = {
+  161: "exclamdown", 162: "cent", 163: "sterling", 164: "fraction", 165: "yen", 166: "florin",
+  167: "section", 168: "currency", 169: "quotesingle", 170: "quotedblleft", 171: "guillemotleft",
+  172: "guilsinglleft", 173: "guilsinglright", 174: "fi", 175: "fl", 177: "endash",
+  178: "dagger", 179: "daggerdbl", 180: "periodcentered", 182: "paragraph", 183: "bullet",
+  184: "quotesinglbase", 185: "quotedblbase", 186: "quotedblright", 187: "guillemotright",
+  188: "ellipsis", 189: "perthousand", 191: "questiondown", 193: "grave", 194: "acute",
+  195: "circumflex", 196: "tilde", 197: "macron", 198: "breve", 199: "dotaccent",
+  200: "dieresis", 202: "ring", 203: "cedilla", 205: "hungarumlaut", 206: "ogonek",
+  207: "caron", 208: "emdash", 225: "AE", 227: "ordfeminine", 232: "Lslash", 233: "Oslash",
+  234: "OE", 235: "ordmasculine", 241: "ae", 245: "dotlessi", 248: "lslash", 249: "oslash",
+  250: "oe", 251: "germandbls",
+};
+
+function buildTable(high: Record<number, string> | string[], highStart: number): EncodingTable {
+  const table: EncodingTable = new Array(256).fill(undefined);
+  ASCII_NAMES.forEach((name, i) => (table[32 + i] = name));
+  if (Array.isArray(high)) {
+    high.forEach((name, i) => (table[highStart + i] = name));
+  } else {
+    for (const code of Object.keys(high)) table[Number(code)] = high[Number(code)];
+  }
+  return table;
+}
+
+export const WIN_ANSI_ENCODING = buildTable([...WIN_ANSI_HIGH, ...LATIN1_NAMES], 128);
+WIN_ANSI_ENCODING[127] = "bullet";
+
+export const MAC_ROMAN_ENCODING = buildTable(MAC_ROMAN_HIGH, 128);
+
+export const STANDARD_ENCODING = buildTable(STANDARD_HIGH, 0);
+STANDARD_ENCODING[39] = "quoteright";
+STANDARD_ENCODING[96] = "quoteleft";
+
+const GLYPH_UNICODE: Record<string, number> = {
+  Euro: 0x20ac, quotesinglbase: 0x201a, florin: 0x0192, quotedblbase: 0x201e,
+  ellipsis: 0x2026, dagger: 0x2020, daggerdbl: 0x2021, circumflex: 0x02c6,
+  perthousand: 0x2030, Scaron: 0x0160, guilsinglleft: 0x2039, OE: 0x0152, Zcaron: 0x017d,
+  quoteleft: 0x2018, quoteright: 0x2019, quotedblleft: 0x201c, quotedblright: 0x201d,
+  bullet: 0x2022, endash: 0x2013, emdash: 0x2014, tilde: 0x02dc, trademark: 0x2122,
+  scaron: 0x0161, guilsinglright: 0x203a, oe: 0x0153, zcaron: 0x017e, Ydieresis: 0x0178,
+  fi: 0xfb01, fl: 0xfb02, fraction: 0x2044, breve: 0x02d8, dotaccent: 0x02d9, ring: 0x02da,
+  hungarumlaut: 0x02dd, ogonek: 0x02db, caron: 0x02c7, Lslash: 0x0141, lslash: 0x0142,
+  dotlessi: 0x0131, minus: 0x2212, notequal: 0x2260, infinity: 0x221e, lessequal: 0x2264,
+  greaterequal: 0x2265, partialdiff: 0x2202, summation: 0x2211, product: 0x220f, pi: 0x03c0,
+  integral: 0x222b, Omega: 0x2126, radical: 0x221a, approxequal: 0x2248, Delta: 0x2206,
+  lozenge: 0x25ca, apple: 0xf8ff, nbspace: 0x00a0, sfthyphen: 0x00ad, Ccaron: 0x010c,
+  ccaron: 0x010d, Gbreve: 0x011e, gbreve: 0x011f, Idotaccent: 0x0130, Scedilla: 0x015e,
+  scedilla: 0x015f, Ecaron: 0x011a, ecaron: 0x011b, Rcaron: 0x0158, rcaron: 0x0159,
+  Zdotaccent: 0x017b, zdotaccent: 0x017c, Aogonek: 0x0104, aogonek: 0x0105, Eogonek: 0x0118,
+  eogonek: 0x0119, Nacute: 0x0143, nacute: 0x0144, Sacute: 0x015a, sacute: 0x015b,
+  Zacute: 0x0179, zacute: 0x017a, Cacute: 0x0106, cacute: 0x0107,
+};
+ASCII_NAMES.forEach((name, i) => (GLYPH_UNICODE[name] = 0x20 + i));
+LATIN1_NAMES.forEach((name, i) => {
+  // "hyphen" at 173 is the soft hyphen slot; the name itself means U+002D
+  if (!(name in GLYPH_UNICODE)) GLYPH_UNICODE[name] = 0xa1 + i;
+});
+
+/**
+ * Map a glyph name to Unicode following the Adobe Glyph List conventions:
+ * known names, "uniXXXX" sequences, "uXXXX[XX]", ligatures joined with "_"
+ * and variant suffixes after ".". Returns undefined when nothing applies.
+ */
+export function glyphNameToUnicode(glyphName: string): string | undefined {
+  const base = glyphName.split(".")[0];
+  if (!base) return undefined;
+
+  if (base.includes("_")) {
+    const parts = base.split("_").map(glyphNameToUnicode);
+    return parts.every((part) => part !== undefined) ? parts.join("") : undefined;
+  }
+
+  const known = GLYPH_UNICODE[base];
+  if (known !== undefined) return String.fromCodePoint(known);
+
+  const uniMatch = /^uni((?:[0-9A-F]{4})+)$/.exec(base);
+  if (uniMatch) {
+    const codes = uniMatch[1].match(/.{4}/g)!.map((hex) => parseInt(hex, 16));
+    if (codes.every((code) => code < 0xd800 || code > 0xdfff)) {
+      return String.fromCodePoint(...codes);
+    }
+  }
+
+  const uMatch = /^u([0-9A-F]{4,6})$/.exec(base);
+  if (uMatch) {
+    const code = parseInt(uMatch[1], 16);
+    if (code <= 0x10ffff && (code < 0xd800 || code > 0xdfff)) return String.fromCodePoint(code);
+  }
+
+  return undefined;
+}
+
+export function isAdobeGlyphName(glyphName: string): boolean {
+  return glyphName in GLYPH_UNICODE;
+}
+
+/**
+ * Resolve the code to glyph name table of a simple font from its /Encoding
+ * entry: a base encoding name, or a dictionary with /BaseEncoding and
+ * /Differences. `fallback` is the font's built-in encoding (StandardEncoding
+ * for non-symbolic Type 1 fonts).
+ */
+export function resolveSimpleEncoding(
+  encoding: unknown,
+  fallback: EncodingTable = STANDARD_ENCODING,
+): EncodingTable {
+  const byName = (name: unknown): EncodingTable | undefined => {
+    if (name === PDFName.of("WinAnsiEncoding")) return WIN_ANSI_ENCODING;
+    if (name === PDFName.of("MacRomanEncoding")) return MAC_ROMAN_ENCODING;
+    if (name === PDFName.of("StandardEncoding")) return STANDARD_ENCODING;
+    return undefined;
+  };
+
+  if (encoding instanceof PDFName) {
+    return [...(byName(encoding) ?? fallback)];
+  }
+
+  if (encoding instanceof PDFDict) {
+    const table = [...(byName(encoding.lookup(PDFName.of("BaseEncoding"))) ?? fallback)];
+    const differences = encoding.lookupMaybe(PDFName.of("Differences"), PDFArray);
+    let code = 0;
+    for (let i = 0; i < (differences?.size() ?? 0); i++) {
+      const item = differences!.lookup(i);
+      if (item instanceof PDFNumber) {
+        code = item.asNumber();
+      } else if (item instanceof PDFName && code < 256) {
+        table[code++] = item.decodeText();
+      }
+    }
+    return table;
+  }
+
+  return [...fallback];
+}
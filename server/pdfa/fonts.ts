@@ -0,0 +1,637 @@
+import fs from "fs";
+import { createHash } from "crypto";
+import { createRequire } from "module";
+import fontkit from "@pdf-lib/fontkit";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+import type { FontReport } from "@shared/schema";
+import {
+  STANDARD_ENCODING,
+  WIN_ANSI_ENCODING,
+  glyphNameToUnicode,
+  isAdobeGlyphName,
+  resolveSimpleEncoding,
+} from "./encodings";
+import { forEachContentStream } from "./content";
+
+const require = createRequire(import.meta.url);
+
+type Family = "Arimo" | "Tinos" | "Cousine";
+
+interface Substitution {
+  family: Family;
+  // Whether the substitute shares the advance widths of the requested font
+  metricCompatible: boolean;
+}
+
+// Liberation's metric-compatible designs, as shipped by Google Fonts
+const FONT_PACKAGES: Record<Family, string> = {
+  Arimo: "@expo-google-fonts/arimo",
+  Tinos: "@expo-google-fonts/tinos",
+  Cousine: "@expo-google-fonts/cousine",
+};
+
+const METRIC_COMPATIBLE: Record<string, Family> = {
+  helvetica: "Arimo",
+  arial: "Arimo",
+  arialmt: "Arimo",
+  liberationsans: "Arimo",
+  arimo: "Arimo",
+  times: "Tinos",
+  timesroman: "Tinos",
+  timesnewroman: "Tinos",
+  timesnewromanps: "Tinos",
+  timesnewromanpsmt: "Tinos",
+  liberationserif: "Tinos",
+  tinos: "Tinos",
+  courier: "Cousine",
+  couriernew: "Cousine",
+  couriernewpsmt: "Cousine",
+  liberationmono: "Cousine",
+  cousine: "Cousine",
+};
+
+const SYMBOLIC_FONTS = new Set(["symbol", "zapfdingbats", "wingdings", "webdings"]);
+
+// FontDescriptor /Flags bits (ISO 32000-1, table 123)
+const FLAG_FIXED_PITCH = 1 << 0;
+const FLAG_SERIF = 1 << 1;
+const FLAG_SYMBOLIC = 1 << 2;
+const FLAG_NONSYMBOLIC = 1 << 5;
+const FLAG_ITALIC = 1 << 6;
+
+const fontFileCache = new Map<string, Uint8Array>();
+
+/**
+ * Embed every font the document references without a font program.
+ *
+ * Non-embedded simple fonts are rewritten as TrueType fonts backed by a
+ * subset of the closest bundled family (Arimo, Tinos or Cousine). The
+ * subset holds the glyphs of every code the font's encoding defines, a
+ * (3,1) cmap, and the font dictionary gets widths measured from it, so the
+ * Widths array always agrees with the embedded program. Symbolic and CID
+ * fonts have no open substitute and are reported as unresolved.
+ */
+export async function embedMissingFonts(pdfDoc: PDFDocument): Promise<FontReport[]> {
+  const reports: FontReport[] = [];
+  registerDirectFonts(pdfDoc);
+
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFDict)) continue;
+    if (object.lookup(PDFName.of("Type")) !== PDFName.of("Font")) continue;
+
+    const subtype = object.lookup(PDFName.of("Subtype"));
+    if (!(subtype instanceof PDFName)) continue;
+    const subtypeName = subtype.decodeText();
+    if (subtypeName === "Type3" || subtypeName === "CIDFontType0" || subtypeName === "CIDFontType2") {
+      // Type 3 glyphs are content streams; CIDFonts are reached via Type0
+      continue;
+    }
+
+    const name = baseFontName(object);
+
+    if (subtypeName === "Type0") {
+      const descendant = object.lookupMaybe(PDFName.of("DescendantFonts"), PDFArray)?.lookupMaybe(0, PDFDict);
+      if (descendant && hasFontProgram(descendant)) {
+        reports.push({ name, subtype: subtypeName, action: "embedded" });
+      } else {
+        reports.push({
+          name,
+          subtype: subtypeName,
+          action: "unresolved",
+          reason: "Fonte composta (CID) sem programa incorporado e sem substituto disponível",
+        });
+      }
+      continue;
+    }
+
+    if (hasFontProgram(object)) {
+      reports.push({ name, subtype: subtypeName, action: "embedded" });
+      continue;
+    }
+
+    const substitution = chooseSubstitute(name, object);
+    if (!substitution) {
+      reports.push({
+        name,
+        subtype: subtypeName,
+        action: "unresolved",
+        reason: "Fonte simbólica sem substituto métrico compatível",
+      });
+      continue;
+    }
+
+    try {
+      reports.push(await substituteFont(pdfDoc, object, name, subtypeName, substitution));
+    } catch (error) {
+      reports.push({
+        name,
+        subtype: subtypeName,
+        action: "unresolved",
+        reason: `Falha ao incorporar substituto: ${error instanceof Error ? error.message : error}`,
+      });
+    }
+  }
+
+  return reports;
+}
+
+// Fonts written directly in a /Font resource dictionary become indirect
+// objects, so they are embedded and reported like any other font
+function registerDirectFonts(pdfDoc: PDFDocument): void {
+  forEachContentStream(pdfDoc, ({ resources }) => {
+    const fonts = resources?.lookupMaybe(PDFName.of("Font"), PDFDict);
+    for (const key of fonts?.keys() ?? []) {
+      const font = fonts!.get(key);
+      if (font instanceof PDFDict) fonts!.set(key, pdfDoc.context.register(font));
+    }
+  });
+}
+
+// Advance width of every glyph of the glyphless font, in 1/1000 em
+const GLYPHLESS_WIDTH = 500;
+
+/**
+ * Embed the font used for invisible OCR text: a Type 0 font whose program
+ * has a single empty glyph every CID maps to. Text shown with it is encoded
+ * as UTF-16BE, which the identity ToUnicode CMap maps back to Unicode, so
+ * any recognized character can be written without a real font program.
+ */
+export function embedGlyphlessFont(pdfDoc: PDFDocument): PDFRef {
+  const { context } = pdfDoc;
+
+  const program = writeSfnt(new Map([
+    ["head", buildHeadTable()],
+    ["hhea", buildHheaTable(2)],
+    ["maxp", buildMaxpTable(2)],
+    ["hmtx", new Uint8Array([0x01, 0xf4, 0, 0, 0x01, 0xf4, 0, 0])],
+    ["loca", new Uint8Array(6)],
+    ["glyf", new Uint8Array(0)],
+    ["cmap", buildUnicodeCmap(new Map())],
+    ["post", buildPostTable(0)],
+  ]));
+
+  // Every CID is drawn with glyph 1
+  const cidToGid = new Uint8Array(0x10000 * 2);
+  for (let i = 1; i < cidToGid.length; i += 2) cidToGid[i] = 1;
+
+  const ranges: string[] = [];
+  for (let high = 0; high < 0x100; high++) {
+    const start = (high << 8).toString(16).padStart(4, "0");
+    const end = ((high << 8) | 0xff).toString(16).padStart(4, "0");
+    ranges.push(`<${start}> <${end}> <${start}>`);
+  }
+  const blocks: string[] = [];
+  for (let i = 0; i < ranges.length; i += 100) {
+    const block = ranges.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfrange\n${block.join("\n")}\nendbfrange`);
+  }
+  const toUnicode = [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange",
+    "<0000> <FFFF>",
+    "endcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+
+  const descriptor = context.obj({
+    Type: "FontDescriptor",
+    FontName: "GlyphLessFont",
+    Flags: FLAG_FIXED_PITCH | FLAG_SYMBOLIC,
+    FontBBox: [0, 0, GLYPHLESS_WIDTH, 1000],
+    ItalicAngle: 0,
+    Ascent: 1000,
+    Descent: 0,
+    CapHeight: 1000,
+    StemV: 80,
+    FontFile2: context.register(context.flateStream(program, { Length1: program.length })),
+  });
+  const cidFont = context.obj({
+    Type: "Font",
+    Subtype: "CIDFontType2",
+    BaseFont: "GlyphLessFont",
+    CIDSystemInfo: { Registry: PDFString.of("Adobe"), Ordering: PDFString.of("Identity"), Supplement: 0 },
+    FontDescriptor: context.register(descriptor),
+    DW: GLYPHLESS_WIDTH,
+    CIDToGIDMap: context.register(context.flateStream(cidToGid)),
+  });
+
+  return context.register(context.obj({
+    Type: "Font",
+    Subtype: "Type0",
+    BaseFont: "GlyphLessFont",
+    Encoding: "Identity-H",
+    DescendantFonts: [context.register(cidFont)],
+    ToUnicode: context.register(context.flateStream(toUnicode)),
+  }));
+}
+
+function baseFontName(fontDict: PDFDict): string {
+  const baseFont = fontDict.lookup(PDFName.of("BaseFont"));
+  const name = baseFont instanceof PDFName ? baseFont.decodeText() : "(sem nome)";
+  // Drop the subset tag, e.g. "ABCDEF+Helvetica"
+  return name.replace(/^[A-Z]{6}\+/, "");
+}
+
+export function hasFontProgram(fontDict: PDFDict): boolean {
+  const descriptor = fontDict.lookupMaybe(PDFName.of("FontDescriptor"), PDFDict);
+  if (!descriptor) return false;
+  return ["FontFile", "FontFile2", "FontFile3"].some((key) => descriptor.has(PDFName.of(key)));
+}
+
+function chooseSubstitute(name: string, fontDict: PDFDict): Substitution | undefined {
+  const family = name.split(/[,-]/)[0].replace(/[\s_]/g, "").toLowerCase();
+  if (SYMBOLIC_FONTS.has(family)) return undefined;
+
+  const known = METRIC_COMPATIBLE[family];
+  if (known) return { family: known, metricCompatible: true };
+
+  const descriptor = fontDict.lookupMaybe(PDFName.of("FontDescriptor"), PDFDict);
+  const flags = descriptor?.lookupMaybe(PDFName.of("Flags"), PDFNumber)?.asNumber() ?? 0;
+  if (flags & FLAG_SYMBOLIC && !(flags & FLAG_NONSYMBOLIC)) return undefined;
+
+  if (flags & FLAG_FIXED_PITCH) return { family: "Cousine", metricCompatible: false };
+  if (flags & FLAG_SERIF) return { family: "Tinos", metricCompatible: false };
+  return { family: "Arimo", metricCompatible: false };
+}
+
+function fontStyle(name: string, fontDict: PDFDict) {
+  const descriptor = fontDict.lookupMaybe(PDFName.of("FontDescriptor"), PDFDict);
+  const flags = descriptor?.lookupMaybe(PDFName.of("Flags"), PDFNumber)?.asNumber() ?? 0;
+  const weight = descriptor?.lookupMaybe(PDFName.of("FontWeight"), PDFNumber)?.asNumber() ?? 400;
+  return {
+    bold: /bold|black|heavy|semibold|demi/i.test(name) || weight >= 600,
+    italic: /italic|oblique/i.test(name) || !!(flags & FLAG_ITALIC),
+  };
+}
+
+function loadFontFile(family: Family, bold: boolean, italic: boolean): Uint8Array {
+  const style = `${bold ? "700Bold" : "400Regular"}${italic ? "_Italic" : ""}`;
+  const file = require.resolve(`${FONT_PACKAGES[family]}/${style}/${family}_${style}.ttf`);
+  let bytes = fontFileCache.get(file);
+  if (!bytes) {
+    bytes = new Uint8Array(fs.readFileSync(file));
+    fontFileCache.set(file, bytes);
+  }
+  return bytes;
+}
+
+async function substituteFont(
+  pdfDoc: PDFDocument,
+  fontDict: PDFDict,
+  name: string,
+  subtypeName: string,
+  substitution: Substitution,
+): Promise<FontReport> {
+  const { bold, italic } = fontStyle(name, fontDict);
+  const file = loadFontFile(substitution.family, bold, italic);
+  const font = fontkit.create(file);
+  const scale = 1000 / font.unitsPerEm;
+
+  // Type 1 fonts without /Encoding use their built-in (Standard) encoding
+  const encoding = resolveSimpleEncoding(fontDict.lookup(PDFName.of("Encoding")), STANDARD_ENCODING);
+
+  const glyphIds = new Set<number>();
+  const widths = new Array<number>(256).fill(0);
+  const unicodeToGlyph = new Map<number, number>();
+  const missingGlyphs: string[] = [];
+  const differences: Array<number | string> = [];
+  let firstChar = 255;
+  let lastChar = 0;
+
+  for (let code = 0; code < 256; code++) {
+    const glyphName = encoding[code];
+    if (!glyphName) continue;
+
+    const text = glyphNameToUnicode(glyphName);
+    const codePoint = text && Array.from(text).length === 1 ? text.codePointAt(0)! : undefined;
+    const glyph = codePoint !== undefined ? font.glyphForCodePoint(codePoint) : undefined;
+    if (!glyph || glyph.id === 0 || codePoint === undefined) {
+      missingGlyphs.push(glyphName);
+      continue;
+    }
+
+    unicodeToGlyph.set(codePoint, glyph.id);
+    glyphIds.add(glyph.id);
+    widths[code] = Math.round(glyph.advanceWidth * scale);
+    firstChar = Math.min(firstChar, code);
+    lastChar = Math.max(lastChar, code);
+
+    // Non-symbolic TrueType fonts may only use WinAnsi plus AGL differences
+    if (glyphName !== WIN_ANSI_ENCODING[code] && isAdobeGlyphName(glyphName)) {
+      differences.push(code, glyphName);
+    }
+  }
+
+  if (firstChar > lastChar) {
+    throw new Error("nenhum glifo da codificação existe no substituto");
+  }
+
+  const program = subsetTrueType(file, glyphIds, {
+    cmap: buildUnicodeCmap(unicodeToGlyph),
+    post: buildPostTable(font.italicAngle),
+  });
+
+  const postscriptName = (font.postscriptName ?? substitution.family).replace(/[^\x21-\x7e]/g, "");
+  const fontName = `${subsetTag(name, program)}+${postscriptName}`;
+  const fontFile = pdfDoc.context.flateStream(program, { Length1: program.length });
+
+  const flags =
+    FLAG_NONSYMBOLIC |
+    (substitution.family === "Cousine" ? FLAG_FIXED_PITCH : 0) |
+    (substitution.family === "Tinos" ? FLAG_SERIF : 0) |
+    (italic ? FLAG_ITALIC : 0);
+
+  const descriptor = pdfDoc.context.obj({
+    Type: "FontDescriptor",
+    FontName: fontName,
+    Flags: flags,
+    FontBBox: [
+      Math.round(font.bbox.minX * scale),
+      Math.round(font.bbox.minY * scale),
+      Math.round(font.bbox.maxX * scale),
+      Math.round(font.bbox.maxY * scale),
+    ],
+    ItalicAngle: font.italicAngle,
+    Ascent: Math.round(font.ascent * scale),
+    Descent: Math.round(font.descent * scale),
+    CapHeight: Math.round((font.capHeight || font.ascent) * scale),
+    StemV: bold ? 140 : 80,
+    FontFile2: pdfDoc.context.register(fontFile),
+  });
+
+  fontDict.set(PDFName.of("Subtype"), PDFName.of("TrueType"));
+  fontDict.set(PDFName.of("BaseFont"), PDFName.of(fontName));
+  fontDict.set(PDFName.of("FirstChar"), PDFNumber.of(firstChar));
+  fontDict.set(PDFName.of("LastChar"), PDFNumber.of(lastChar));
+  fontDict.set(PDFName.of("Widths"), pdfDoc.context.obj(widths.slice(firstChar, lastChar + 1)));
+  fontDict.set(
+    PDFName.of("Encoding"),
+    differences.length > 0
+      ? pdfDoc.context.obj({
+          Type: "Encoding",
+          BaseEncoding: "WinAnsiEncoding",
+          Differences: differences.map((item) => (typeof item === "number" ? item : PDFName.of(item))),
+        })
+      : PDFName.of("WinAnsiEncoding"),
+  );
+  fontDict.set(PDFName.of("FontDescriptor"), pdfDoc.context.register(descriptor));
+
+  return {
+    name,
+    subtype: subtypeName,
+    action: "substituted",
+    substitute: `${substitution.family}${bold ? " Bold" : ""}${italic ? " Italic" : ""}`,
+    metricCompatible: substitution.metricCompatible,
+    missingGlyphs: missingGlyphs.length > 0 ? missingGlyphs : undefined,
+  };
+}
+
+// Deterministic six-letter tag so repeated conversions produce equal output
+function subsetTag(name: string, program: Uint8Array): string {
+  const digest = createHash("md5").update(name).update(program).digest();
+  return Array.from(digest.subarray(0, 6), (byte) => String.fromCharCode(65 + (byte % 26))).join("");
+}
+
+// Tables a PDF TrueType font program needs; layout tables (GSUB, GPOS,
+// kern...) are only read by text shaping, which the PDF has already done
+const KEPT_TABLES = new Set(["head", "hhea", "hmtx", "maxp", "loca", "glyf", "cvt ", "fpgm", "prep"]);
+
+/**
+ * Subset a TrueType program to the given glyphs plus the components of
+ * composite glyphs. Glyph ids are kept: unused glyphs are left empty, so the
+ * cmap and widths can refer to the ids of the original font. fontkit's own
+ * subsetter is not used because it corrupts outlines of some hinted fonts.
+ *
+ * `extra` tables replace or add to the original ones; PDF/A requires a (3,1)
+ * cmap in non-symbolic TrueType programs.
+ */
+function subsetTrueType(
+  font: Uint8Array,
+  glyphIds: Set<number>,
+  extra: Record<string, Uint8Array>,
+): Uint8Array {
+  const view = new DataView(font.buffer, font.byteOffset, font.byteLength);
+  const tables = new Map<string, Uint8Array>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(...Array.from(font.subarray(record, record + 4)));
+    const offset = view.getUint32(record + 8);
+    const length = view.getUint32(record + 12);
+    if (KEPT_TABLES.has(tag)) tables.set(tag, font.slice(offset, offset + length));
+  }
+
+  const head = tables.get("head")!;
+  const headView = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const maxp = tables.get("maxp")!;
+  const numGlyphs = new DataView(maxp.buffer, maxp.byteOffset, maxp.byteLength).getUint16(4);
+  const loca = tables.get("loca")!;
+  const locaView = new DataView(loca.buffer, loca.byteOffset, loca.byteLength);
+  const shortLoca = headView.getInt16(50) === 0;
+  const glyphOffset = (id: number) => (shortLoca ? locaView.getUint16(id * 2) * 2 : locaView.getUint32(id * 4));
+  const glyf = tables.get("glyf")!;
+  const glyfView = new DataView(glyf.buffer, glyf.byteOffset, glyf.byteLength);
+
+  // .notdef is always kept; composite glyphs pull in their components
+  const kept = new Set<number>([0]);
+  const pending = Array.from(glyphIds);
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id >= numGlyphs || kept.has(id)) continue;
+    kept.add(id);
+    const start = glyphOffset(id);
+    if (glyphOffset(id + 1) <= start || glyfView.getInt16(start) >= 0) continue;
+
+    let pos = start + 10;
+    for (;;) {
+      const flags = glyfView.getUint16(pos);
+      pending.push(glyfView.getUint16(pos + 2));
+      pos += 4 + (flags & 0x0001 ? 4 : 2);
+      if (flags & 0x0008) pos += 2;
+      else if (flags & 0x0040) pos += 4;
+      else if (flags & 0x0080) pos += 8;
+      if (!(flags & 0x0020)) break;
+    }
+  }
+
+  const glyphs: Uint8Array[] = [];
+  const offsets = new Uint8Array((numGlyphs + 1) * 4);
+  const offsetsView = new DataView(offsets.buffer);
+  let size = 0;
+  for (let id = 0; id < numGlyphs; id++) {
+    offsetsView.setUint32(id * 4, size);
+    if (!kept.has(id)) continue;
+    const data = glyf.subarray(glyphOffset(id), glyphOffset(id + 1));
+    glyphs.push(data);
+    size += align4(data.length);
+  }
+  offsetsView.setUint32(numGlyphs * 4, size);
+
+  const newGlyf = new Uint8Array(size);
+  let offset = 0;
+  for (const data of glyphs) {
+    newGlyf.set(data, offset);
+    offset += align4(data.length);
+  }
+  tables.set("glyf", newGlyf);
+  tables.set("loca", offsets);
+  headView.setInt16(50, 1); // long loca offsets
+
+  for (const tag of Object.keys(extra)) tables.set(tag, extra[tag]);
+  return writeSfnt(tables);
+}
+
+function writeSfnt(tables: Map<string, Uint8Array>): Uint8Array {
+  const tags = Array.from(tables.keys()).sort();
+  const headerSize = 12 + tags.length * 16;
+  const totalSize = tags.reduce((size, tag) => size + align4(tables.get(tag)!.length), headerSize);
+  const output = new Uint8Array(totalSize);
+  const out = new DataView(output.buffer);
+
+  const entrySelector = Math.floor(Math.log2(tags.length));
+  const searchRange = Math.pow(2, entrySelector) * 16;
+  out.setUint32(0, 0x00010000);
+  out.setUint16(4, tags.length);
+  out.setUint16(6, searchRange);
+  out.setUint16(8, entrySelector);
+  out.setUint16(10, tags.length * 16 - searchRange);
+
+  let offset = headerSize;
+  let headOffset = -1;
+  tags.forEach((tag, i) => {
+    const data = tables.get(tag)!;
+    if (tag === "head") {
+      // checkSumAdjustment is recomputed below over the whole file
+      new DataView(data.buffer, data.byteOffset, data.byteLength).setUint32(8, 0);
+      headOffset = offset;
+    }
+    const record = 12 + i * 16;
+    for (let c = 0; c < 4; c++) output[record + c] = tag.charCodeAt(c);
+    out.setUint32(record + 4, checksum(data));
+    out.setUint32(record + 8, offset);
+    out.setUint32(record + 12, data.length);
+    output.set(data, offset);
+    offset += align4(data.length);
+  });
+
+  if (headOffset >= 0) {
+    out.setUint32(headOffset + 8, (0xb1b0afba - checksum(output)) >>> 0);
+  }
+  return output;
+}
+
+// cmap with a single format 4 subtable for platform 3, encoding 1
+function buildUnicodeCmap(unicodeToGlyph: Map<number, number>): Uint8Array {
+  const codes = Array.from(unicodeToGlyph.keys()).filter((code) => code < 0xffff).sort((a, b) => a - b);
+  const segments = codes.map((code) => ({ start: code, end: code, glyph: unicodeToGlyph.get(code)! }));
+  segments.push({ start: 0xffff, end: 0xffff, glyph: 0 });
+
+  const segCount = segments.length;
+  const subtableLength = 16 + segCount * 8;
+  const data = new Uint8Array(12 + subtableLength);
+  const view = new DataView(data.buffer);
+
+  view.setUint16(0, 0); // version
+  view.setUint16(2, 1); // number of subtables
+  view.setUint16(4, 3); // platform: Windows
+  view.setUint16(6, 1); // encoding: Unicode BMP
+  view.setUint32(8, 12);
+
+  const entrySelector = Math.floor(Math.log2(segCount));
+  const searchRange = Math.pow(2, entrySelector) * 2;
+  const base = 12;
+  view.setUint16(base, 4);
+  view.setUint16(base + 2, subtableLength);
+  view.setUint16(base + 4, 0);
+  view.setUint16(base + 6, segCount * 2);
+  view.setUint16(base + 8, searchRange);
+  view.setUint16(base + 10, entrySelector);
+  view.setUint16(base + 12, segCount * 2 - searchRange);
+
+  const endCodes = base + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+  segments.forEach((segment, i) => {
+    view.setUint16(endCodes + i * 2, segment.end);
+    view.setUint16(startCodes + i * 2, segment.start);
+    view.setUint16(idDeltas + i * 2, segment.start === 0xffff ? 1 : (segment.glyph - segment.start) & 0xffff);
+    view.setUint16(idRangeOffsets + i * 2, 0);
+  });
+
+  return data;
+}
+
+// head table of a font with a 1000 unit em and short loca offsets
+function buildHeadTable(): Uint8Array {
+  const data = new Uint8Array(54);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, 0x00010000); // version
+  view.setUint32(4, 0x00010000); // fontRevision
+  view.setUint32(12, 0x5f0f3cf5); // magicNumber
+  view.setUint16(18, 1000); // unitsPerEm
+  view.setInt16(40, GLYPHLESS_WIDTH); // xMax
+  view.setInt16(42, 1000); // yMax
+  view.setUint16(46, 3); // lowestRecPPEM
+  view.setInt16(48, 2); // fontDirectionHint
+  return data;
+}
+
+function buildHheaTable(numberOfHMetrics: number): Uint8Array {
+  const data = new Uint8Array(36);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setInt16(4, 1000); // ascender
+  view.setUint16(10, GLYPHLESS_WIDTH); // advanceWidthMax
+  view.setInt16(18, 1); // caretSlopeRise
+  view.setUint16(34, numberOfHMetrics);
+  return data;
+}
+
+// maxp version 1.0, as TrueType outlines require
+function buildMaxpTable(numGlyphs: number): Uint8Array {
+  const data = new Uint8Array(32);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, numGlyphs);
+  view.setUint16(14, 1); // maxZones
+  return data;
+}
+
+// post table version 3: no glyph names, only the metrics fields
+function buildPostTable(italicAngle: number): Uint8Array {
+  const data = new Uint8Array(32);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, 0x00030000);
+  view.setInt32(4, Math.round(italicAngle * 65536));
+  return data;
+}
+
+function checksum(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const word =
+      ((data[i] << 24) | ((data[i + 1] ?? 0) << 16) | ((data[i + 2] ?? 0) << 8) | (data[i + 3] ?? 0)) >>> 0;
+    sum = (sum + word) >>> 0;
+  }
+  return sum;
+}
+
+const align4 = (size: number) => (size + 3) & ~3;
@@ -0,0 +1,595 @@
+import zlib from "zlib";
+import {
+  PDFContext,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+} from "pdf-lib";
+import type { ImageInputReport, InputFormat } from "@shared/schema";
+
+/**
+ * Image input: photographed or scanned pages arriving as JPEG, PNG or
+ * multi-page TIFF become a PDF with one page per image, sized from the
+ * resolution the image declares, which the rest of the pipeline then
+ * treats like any scanned PDF.
+ *
+ * Image data is copied without recompression where PDF has a matching
+ * filter (JPEG, fax G3/G4); other TIFF compressions are decoded here and
+ * stored with Flate.
+ */
+
+// Assumed when an image declares no resolution: a typical scan
+const DEFAULT_DPI = 300;
+
+// Largest page side, in points: the implementation limit PDF/A-1 enforces.
+// Images that would exceed it get a higher resolution, i.e. a smaller page.
+const MAX_PAGE_SIZE = 14400;
+
+/**
+ * The uploaded file is not an image this converter can read, or its data
+ * is damaged.
+ */
+export class ImageInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageInputError";
+  }
+}
+
+export interface ImageConversion {
+  pdf: Uint8Array;
+  images: ImageInputReport[];
+}
+
+// The format of an uploaded file, by its signature
+export function detectInputFormat(data: Uint8Array): InputFormat | null {
+  const signature = Buffer.from(data.subarray(0, 1024)).toString("latin1");
+  if (signature.includes("%PDF-")) return "pdf";
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "jpeg";
+  if (signature.startsWith("\x89PNG\r\n\x1a\n")) return "png";
+  if (signature.startsWith("II*\0") || signature.startsWith("MM\0*")) return "tiff";
+  return null;
+}
+
+export async function imagesToPdf(data: Uint8Array, format: Exclude<InputFormat, "pdf">): Promise<ImageConversion> {
+  const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+  const images: ImageInputReport[] = [];
+
+  const addPage = (width: number, height: number, [xDpi, yDpi]: [number, number] | [], encoding: string) => {
+    const dpiDeclared = xDpi !== undefined;
+    let dpi: [number, number] = dpiDeclared ? [xDpi, yDpi!] : [DEFAULT_DPI, DEFAULT_DPI];
+    const scale = Math.max(1, ((width * 72) / dpi[0]) / MAX_PAGE_SIZE, ((height * 72) / dpi[1]) / MAX_PAGE_SIZE);
+    dpi = [dpi[0] * scale, dpi[1] * scale];
+    images.push({
+      page: images.length + 1,
+      width,
+      height,
+      dpi: [Math.round(dpi[0] * 100) / 100, Math.round(dpi[1] * 100) / 100],
+      dpiDeclared,
+      encoding,
+    });
+    return pdfDoc.addPage([(width * 72) / dpi[0], (height * 72) / dpi[1]]);
+  };
+
+  try {
+    if (format === "jpeg") {
+      const image = await pdfDoc.embedJpg(data);
+      const page = addPage(image.width, image.height, jpegResolution(data), "JPEG");
+      page.drawImage(image, { x: 0, y: 0, width: page.getWidth(), height: page.getHeight() });
+    } else if (format === "png") {
+      const image = await pdfDoc.embedPng(data);
+      const page = addPage(image.width, image.height, pngResolution(data), "PNG");
+      page.drawImage(image, { x: 0, y: 0, width: page.getWidth(), height: page.getHeight() });
+    } else {
+      const directories = readTiff(data);
+      if (directories.length === 0) throw new ImageInputError("The TIFF file has no images");
+      for (const ifd of directories) {
+        const image = readTiffImage(data, ifd);
+        const page = addPage(image.width, image.height, tiffResolution(ifd), image.encoding);
+        drawStrips(pdfDoc, page, image);
+      }
+    }
+  } catch (error) {
+    if (error instanceof ImageInputError) throw error;
+    throw new ImageInputError(`The ${format.toUpperCase()} image could not be read: ${(error as Error).message}`);
+  }
+
+  return { pdf: await pdfDoc.save({ useObjectStreams: false }), images };
+}
+
+// Resolution from the JFIF header, else from the Exif IFD0
+function jpegResolution(data: Uint8Array): [number, number] | [] {
+  let exif: [number, number] | [] = [];
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // Start of scan: no more headers
+    if (marker === 0xda) break;
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+    const id = Buffer.from(segment.subarray(0, 6)).toString("latin1");
+    if (marker === 0xe0 && id.startsWith("JFIF\0") && segment.length >= 12) {
+      const units = segment[7];
+      const x = (segment[8] << 8) | segment[9];
+      const y = (segment[10] << 8) | segment[11];
+      // Units 0 only give the pixel aspect ratio
+      if (units === 1 && x && y) return [x, y];
+      if (units === 2 && x && y) return [x * 2.54, y * 2.54];
+    }
+    if (marker === 0xe1 && id === "Exif\0\0") {
+      try {
+        const [ifd0] = readTiff(segment.subarray(6), 1);
+        if (ifd0) exif = tiffResolution(ifd0);
+      } catch {
+        // Malformed Exif: no resolution
+      }
+    }
+    offset += 2 + length;
+  }
+  return exif;
+}
+
+// Resolution from the pHYs chunk, when its unit is the meter
+function pngResolution(data: Uint8Array): [number, number] | [] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const length = view.getUint32(offset);
+    const type = Buffer.from(data.subarray(offset + 4, offset + 8)).toString("latin1");
+    if (type === "pHYs" && length >= 9) {
+      const x = view.getUint32(offset + 8);
+      const y = view.getUint32(offset + 12);
+      if (data[offset + 16] === 1 && x && y) return [x * 0.0254, y * 0.0254];
+    }
+    if (type === "IDAT" || type === "IEND") break;
+    offset += 12 + length;
+  }
+  return [];
+}
+
+// TIFF tags read from an image file directory
+const TAG = {
+  NewSubfileType: 254,
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  Photometric: 262,
+  FillOrder: 266,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  XResolution: 282,
+  YResolution: 283,
+  PlanarConfiguration: 284,
+  T4Options: 292,
+  ResolutionUnit: 296,
+  Predictor: 317,
+  ColorMap: 320,
+  TileWidth: 322,
+  InkSet: 332,
+  JPEGTables: 347,
+} as const;
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+interface TiffDirectory {
+  littleEndian: boolean;
+  entries: Map<number, number[]>;
+  // Fields of the undefined type, e.g. JPEGTables, as raw bytes
+  bytes: Map<number, Uint8Array>;
+}
+
+/**
+ * The image file directories of a TIFF, in order, skipping reduced-
+ * resolution copies (thumbnails); `limit` stops after that many.
+ */
+function readTiff(data: Uint8Array, limit = Infinity): TiffDirectory[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const littleEndian = data[0] === 0x49;
+  if (view.getUint16(2, littleEndian) !== 42) throw new ImageInputError("Unsupported TIFF variant (BigTIFF?)");
+
+  const directories: TiffDirectory[] = [];
+  const visited = new Set<number>();
+  let offset = view.getUint32(4, littleEndian);
+  while (offset !== 0 && !visited.has(offset) && offset + 2 <= data.length && directories.length < limit) {
+    visited.add(offset);
+    const count = view.getUint16(offset, littleEndian);
+    const ifd: TiffDirectory = { littleEndian, entries: new Map(), bytes: new Map() };
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > data.length) break;
+      const tag = view.getUint16(entry, littleEndian);
+      const type = view.getUint16(entry + 2, littleEndian);
+      const n = view.getUint32(entry + 4, littleEndian);
+      const size = TYPE_SIZES[type];
+      if (!size) continue;
+      const at = n * size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+      if (at + n * size > data.length) continue;
+      if (type === 7) {
+        ifd.bytes.set(tag, data.subarray(at, at + n));
+        continue;
+      }
+      const values: number[] = [];
+      for (let j = 0; j < n; j++) values.push(readValue(view, type, at + j * size, littleEndian));
+      ifd.entries.set(tag, values);
+    }
+    const next = offset + 2 + count * 12;
+    offset = next + 4 <= data.length ? view.getUint32(next, littleEndian) : 0;
+    if (!((ifd.entries.get(TAG.NewSubfileType)?.[0] ?? 0) & 1)) directories.push(ifd);
+  }
+  return directories;
+}
+
+function readValue(view: DataView, type: number, at: number, littleEndian: boolean): number {
+  switch (type) {
+    case 3:
+      return view.getUint16(at, littleEndian);
+    case 4:
+      return view.getUint32(at, littleEndian);
+    case 5:
+      return view.getUint32(at, littleEndian) / (view.getUint32(at + 4, littleEndian) || 1);
+    case 6:
+      return view.getInt8(at);
+    case 8:
+      return view.getInt16(at, littleEndian);
+    case 9:
+      return view.getInt32(at, littleEndian);
+    case 10:
+      return view.getInt32(at, littleEndian) / (view.getInt32(at + 4, littleEndian) || 1);
+    case 11:
+      return view.getFloat32(at, littleEndian);
+    case 12:
+      return view.getFloat64(at, littleEndian);
+    default:
+      return view.getUint8(at);
+  }
+}
+
+function tiffResolution(ifd: TiffDirectory): [number, number] | [] {
+  const x = ifd.entries.get(TAG.XResolution)?.[0];
+  const y = ifd.entries.get(TAG.YResolution)?.[0] ?? x;
+  // Unit 1 has no absolute size; 2 is the inch, 3 the centimeter
+  const unit = ifd.entries.get(TAG.ResolutionUnit)?.[0] ?? 2;
+  if (!x || !y || (unit !== 2 && unit !== 3)) return [];
+  return unit === 3 ? [x * 2.54, y * 2.54] : [x, y];
+}
+
+type StreamDict = NonNullable<Parameters<PDFContext["stream"]>[1]>;
+
+// An image XObject and the rows of the page image it covers
+interface Strip {
+  dict: StreamDict;
+  data: Uint8Array;
+  // Compress `data` with Flate when writing it
+  flate: boolean;
+  firstRow: number;
+  rows: number;
+}
+
+interface TiffImage {
+  width: number;
+  height: number;
+  encoding: string;
+  strips: Strip[];
+}
+
+const COMPRESSION_NAMES: Record<number, string> = {
+  1: "TIFF uncompressed",
+  2: "CCITT MH",
+  3: "CCITT G3",
+  4: "CCITT G4",
+  5: "TIFF LZW",
+  7: "TIFF JPEG",
+  8: "TIFF Deflate",
+  32773: "TIFF PackBits",
+  32946: "TIFF Deflate",
+};
+
+/**
+ * The image of one directory as image XObjects. Fax and JPEG strips are
+ * each coded independently, so every strip becomes its own XObject; the
+ * other compressions are decoded and joined into a single one.
+ */
+function readTiffImage(data: Uint8Array, ifd: TiffDirectory): TiffImage {
+  const get = (tag: number, fallback: number) => ifd.entries.get(tag)?.[0] ?? fallback;
+  const width = get(TAG.ImageWidth, 0);
+  const height = get(TAG.ImageLength, 0);
+  const compression = get(TAG.Compression, 1);
+  const photometric = get(TAG.Photometric, compression >= 2 && compression <= 4 ? 0 : 1);
+  const samples = get(TAG.SamplesPerPixel, 1);
+  const bits = get(TAG.BitsPerSample, 1);
+  const rowsPerStrip = Math.min(get(TAG.RowsPerStrip, height), height) || height;
+  const offsets = ifd.entries.get(TAG.StripOffsets) ?? [];
+  const counts = ifd.entries.get(TAG.StripByteCounts) ?? [];
+  const encoding = COMPRESSION_NAMES[compression];
+
+  if (!width || !height) throw new ImageInputError("TIFF image without dimensions");
+  if (!encoding) throw new ImageInputError(`Unsupported TIFF compression ${compression}`);
+  if (ifd.entries.has(TAG.TileWidth)) throw new ImageInputError("Tiled TIFF images are not supported");
+  if (offsets.length === 0 || offsets.length !== counts.length) throw new ImageInputError("TIFF image without strips");
+
+  const stripData = offsets.map((offset, i) => data.subarray(offset, offset + counts[i]));
+  const stripRows = (i: number) => Math.min(rowsPerStrip, height - i * rowsPerStrip);
+
+  // Fax: 1-bit data the CCITTFaxDecode filter reads as it is
+  if (compression >= 2 && compression <= 4) {
+    const twoDimensional = compression === 3 && !!(get(TAG.T4Options, 0) & 1);
+    const reversed = get(TAG.FillOrder, 1) === 2;
+    return {
+      width,
+      height,
+      encoding,
+      strips: stripData.map((strip, i) => ({
+        dict: {
+          ColorSpace: "DeviceGray",
+          BitsPerComponent: 1,
+          Filter: "CCITTFaxDecode",
+          DecodeParms: {
+            K: compression === 4 ? -1 : twoDimensional ? 1 : 0,
+            Columns: width,
+            Rows: stripRows(i),
+            // MH codes every row from a byte boundary; the fill bits G3
+            // may put before EOLs need no flag
+            EncodedByteAlign: compression === 2,
+            // Fax codes white and black runs; BlackIsZero images show the
+            // runs coded as white in black
+            BlackIs1: photometric === 1,
+          },
+        },
+        data: reversed ? reverseBits(strip) : strip,
+        flate: false,
+        firstRow: i * rowsPerStrip,
+        rows: stripRows(i),
+      })),
+    };
+  }
+
+  // JPEG: each strip is a JPEG stream, abbreviated when the tables are
+  // shared in JPEGTables
+  if (compression === 7) {
+    const colorSpace = ({ 1: "DeviceGray", 2: "DeviceRGB", 5: "DeviceCMYK", 6: "DeviceRGB" } as Record<number, string>)[
+      photometric
+    ];
+    if (!colorSpace) throw new ImageInputError(`Unsupported TIFF JPEG photometric interpretation ${photometric}`);
+    const tables = ifd.bytes.get(TAG.JPEGTables);
+    return {
+      width,
+      height,
+      encoding,
+      strips: stripData.map((strip, i) => ({
+        dict: {
+          ColorSpace: colorSpace,
+          BitsPerComponent: 8,
+          Filter: "DCTDecode",
+          // RGB data stored without the YCbCr transform
+          ...(photometric === 2 ? { DecodeParms: { ColorTransform: 0 } } : {}),
+        },
+        data: tables && tables.length > 4 ? joinJpegTables(tables, strip) : strip,
+        flate: false,
+        firstRow: i * rowsPerStrip,
+        rows: stripRows(i),
+      })),
+    };
+  }
+
+  // Everything else is decoded to rows of samples
+  const components = ({ 0: 1, 1: 1, 2: 3, 3: 1, 5: 4 } as Record<number, number>)[photometric];
+  if (!components || (photometric === 5 && get(TAG.InkSet, 1) !== 1)) {
+    throw new ImageInputError(`Unsupported TIFF photometric interpretation ${photometric}`);
+  }
+  if (![1, 2, 4, 8, 16].includes(bits) || samples < components) {
+    throw new ImageInputError(`Unsupported TIFF sample layout (${samples} × ${bits} bits)`);
+  }
+  if (samples > 1 && get(TAG.PlanarConfiguration, 1) !== 1) {
+    throw new ImageInputError("Planar TIFF images are not supported");
+  }
+  if (samples > components && bits < 8) {
+    throw new ImageInputError("TIFF extra samples need 8 or 16 bits per sample");
+  }
+
+  const rowBytes = Math.ceil((width * samples * bits) / 8);
+  const pixels = new Uint8Array(rowBytes * height);
+  const predictor = get(TAG.Predictor, 1);
+  stripData.forEach((strip, i) => {
+    const rows = stripRows(i);
+    if (rows <= 0) return;
+    const decoded = decompress(strip, compression).subarray(0, rowBytes * rows);
+    if (predictor === 2) undoPredictor(decoded, rowBytes, samples, bits, ifd.littleEndian);
+    else if (predictor !== 1) throw new ImageInputError(`Unsupported TIFF predictor ${predictor}`);
+    pixels.set(decoded, i * rowsPerStrip * rowBytes);
+  });
+
+  // PDF/A-1 allows at most 8 bits per component, and images carry no
+  // alpha; keep the high byte of 16-bit samples and drop extra samples
+  let output = pixels;
+  let outputBits = bits;
+  if (bits === 16 || samples > components) {
+    const bytesPerSample = bits / 8;
+    const high = bits === 16 && ifd.littleEndian ? 1 : 0;
+    output = new Uint8Array(width * height * components);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < components; c++) {
+          output[(y * width + x) * components + c] = pixels[y * rowBytes + (x * samples + c) * bytesPerSample + high];
+        }
+      }
+    }
+    outputBits = 8;
+  }
+
+  const dict: StreamDict = { BitsPerComponent: outputBits };
+  if (photometric === 3) {
+    const map = ifd.entries.get(TAG.ColorMap) ?? [];
+    const size = 1 << bits;
+    if (bits > 8 || map.length < size * 3) throw new ImageInputError("TIFF palette image without a color map");
+    let lookup = "";
+    for (let i = 0; i < size; i++) {
+      for (const channel of [0, 1, 2]) lookup += (map[channel * size + i] >> 8).toString(16).padStart(2, "0");
+    }
+    dict.ColorSpace = [PDFName.of("Indexed"), PDFName.of("DeviceRGB"), size - 1, PDFHexString.of(lookup)];
+  } else {
+    dict.ColorSpace = components === 4 ? "DeviceCMYK" : components === 3 ? "DeviceRGB" : "DeviceGray";
+    // WhiteIsZero
+    if (photometric === 0) dict.Decode = [1, 0];
+  }
+  return { width, height, encoding, strips: [{ dict, data: output, flate: true, firstRow: 0, rows: height }] };
+}
+
+function decompress(data: Uint8Array, compression: number): Uint8Array {
+  switch (compression) {
+    case 1:
+      return data;
+    case 5:
+      return decodeLzw(data);
+    case 8:
+    case 32946:
+      return new Uint8Array(zlib.inflateSync(data));
+    case 32773:
+      return decodePackBits(data);
+    default:
+      throw new ImageInputError(`Unsupported TIFF compression ${compression}`);
+  }
+}
+
+// TIFF LZW: MSB-first codes of 9 to 12 bits, widened one code early
+function decodeLzw(data: Uint8Array): Uint8Array {
+  const CLEAR = 256;
+  const END = 257;
+  let out = new Uint8Array(Math.max(1024, data.length * 4));
+  let length = 0;
+  const write = (bytes: Uint8Array) => {
+    if (length + bytes.length > out.length) {
+      const grown = new Uint8Array(Math.max(out.length * 2, length + bytes.length));
+      grown.set(out.subarray(0, length));
+      out = grown;
+    }
+    out.set(bytes, length);
+    length += bytes.length;
+  };
+
+  const table: Uint8Array[] = [];
+  for (let i = 0; i < 256; i++) table.push(Uint8Array.of(i));
+  table.push(new Uint8Array(0), new Uint8Array(0));
+
+  let width = 9;
+  let bit = 0;
+  let previous: Uint8Array | null = null;
+  const totalBits = data.length * 8;
+  while (bit + width <= totalBits) {
+    let code = 0;
+    for (let i = 0; i < width; i++, bit++) code = (code << 1) | ((data[bit >> 3] >> (7 - (bit & 7))) & 1);
+    if (code === END) break;
+    if (code === CLEAR) {
+      table.length = 258;
+      width = 9;
+      previous = null;
+      continue;
+    }
+
+    let entry: Uint8Array;
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push(append(previous, entry[0]));
+    } else if (previous && code === table.length) {
+      entry = append(previous, previous[0]);
+      table.push(entry);
+    } else {
+      throw new ImageInputError("Corrupt LZW data");
+    }
+    write(entry);
+    previous = entry;
+    if (table.length >= (1 << width) - 1 && width < 12) width++;
+  }
+  return out.subarray(0, length);
+}
+
+function append(bytes: Uint8Array, byte: number): Uint8Array {
+  const result = new Uint8Array(bytes.length + 1);
+  result.set(bytes);
+  result[bytes.length] = byte;
+  return result;
+}
+
+function decodePackBits(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let i = 0;
+  while (i < data.length) {
+    const n = (data[i++] << 24) >> 24;
+    if (n >= 0) {
+      for (let j = 0; j <= n && i < data.length; j++) out.push(data[i++]);
+    } else if (n !== -128) {
+      const byte = data[i++];
+      for (let j = 0; j < 1 - n; j++) out.push(byte);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+// Horizontal differencing (predictor 2), undone in place
+function undoPredictor(data: Uint8Array, rowBytes: number, samples: number, bits: number, littleEndian: boolean): void {
+  if (bits === 8) {
+    for (let row = 0; row + rowBytes <= data.length; row += rowBytes) {
+      for (let i = row + samples; i < row + rowBytes; i++) data[i] = (data[i] + data[i - samples]) & 0xff;
+    }
+  } else if (bits === 16) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    for (let row = 0; row + rowBytes <= data.length; row += rowBytes) {
+      for (let i = row + samples * 2; i + 1 < row + rowBytes; i += 2) {
+        const value = (view.getUint16(i, littleEndian) + view.getUint16(i - samples * 2, littleEndian)) & 0xffff;
+        view.setUint16(i, value, littleEndian);
+      }
+    }
+  } else {
+    throw new ImageInputError(`Unsupported TIFF predictor for ${bits}-bit samples`);
+  }
+}
+
+// FillOrder 2 stores each byte's bits lowest first
+function reverseBits(data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    let byte = data[i];
+    byte = ((byte & 0xf0) >> 4) | ((byte & 0x0f) << 4);
+    byte = ((byte & 0xcc) >> 2) | ((byte & 0x33) << 2);
+    out[i] = ((byte & 0xaa) >> 1) | ((byte & 0x55) << 1);
+  }
+  return out;
+}
+
+// A complete JPEG stream: the shared tables (without their EOI) followed
+// by the strip (without its SOI)
+function joinJpegTables(tables: Uint8Array, strip: Uint8Array): Uint8Array {
+  const head = tables.subarray(0, tables.length - 2);
+  const body = strip.subarray(2);
+  const joined = new Uint8Array(head.length + body.length);
+  joined.set(head);
+  joined.set(body, head.length);
+  return joined;
+}
+
+// Draw each strip over the rows of the page it covers
+function drawStrips(pdfDoc: PDFDocument, page: PDFPage, { width, height, strips }: TiffImage): void {
+  const { context } = pdfDoc;
+  const pageWidth = page.getWidth();
+  const rowHeight = page.getHeight() / height;
+  for (const strip of strips) {
+    if (strip.rows <= 0) continue;
+    const dict = { Type: "XObject", Subtype: "Image", Width: width, Height: strip.rows, ...strip.dict };
+    const stream = strip.flate ? context.flateStream(strip.data, dict) : context.stream(strip.data, dict);
+    const name = page.node.newXObject("Im", context.register(stream));
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(pageWidth, 0, 0, strip.rows * rowHeight, 0, (height - strip.firstRow - strip.rows) * rowHeight),
+      drawObject(name),
+      popGraphicsState(),
+    );
+  }
+}
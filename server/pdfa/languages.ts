@@ -0,0 +1,135 @@
+import { PDFDocument, PDFName, PDFString } from "pdf-lib";
+import type { Page } from "tesseract.js";
+import type { OcrJob } from "./pool";
+import { missingLanguages } from "./tessdata";
+
+/**
+ * OCR language selection for the `auto` language option: the script of a
+ * few sample pages is found with Tesseract's orientation and script
+ * detection, and Latin-script pages are then told apart by the frequent
+ * words each candidate language recognizes.
+ */
+
+// Used when detection finds nothing it can act on
+const DEFAULT_LANGUAGES = ["por"];
+
+// Recognition models for each script OSD reports
+const SCRIPT_LANGUAGES: Record<string, string[]> = {
+  Latin: ["por", "spa", "eng"],
+  Cyrillic: ["rus"],
+  Greek: ["ell"],
+  Arabic: ["ara"],
+  Hebrew: ["heb"],
+  Han: ["chi_sim"],
+  Japanese: ["jpn"],
+  Hangul: ["kor"],
+  Devanagari: ["hin"],
+  Thai: ["tha"],
+};
+
+// Frequent words only one of the Latin candidates uses; shared ones such as
+// "de", "a", "que" or "para" tell nothing apart
+const DISTINCTIVE_WORDS: Record<string, Set<string>> = {
+  por: new Set([
+    "o", "os", "e", "do", "da", "dos", "das", "em", "um", "uma", "com", "não", "ao", "pelo", "pela", "são", "é",
+    "nos", "nas",
+  ]),
+  spa: new Set(["el", "la", "los", "las", "y", "del", "en", "un", "una", "con", "al", "es", "lo", "sus", "está"]),
+  eng: new Set([
+    "the", "of", "and", "to", "in", "is", "that", "for", "with", "be", "this", "by", "on", "are", "it", "or", "at",
+  ]),
+};
+
+// A language is recognized alongside the most frequent one when it
+// accounts for at least this share of the distinctive words found
+const SECONDARY_SHARE = 0.2;
+
+// BCP 47 tags for /Lang, by Tesseract code
+const LANGUAGE_TAGS: Record<string, string> = {
+  por: "pt",
+  spa: "es",
+  eng: "en",
+  fra: "fr",
+  deu: "de",
+  ita: "it",
+  rus: "ru",
+  ell: "el",
+  ara: "ar",
+  heb: "he",
+  chi_sim: "zh-Hans",
+  chi_tra: "zh-Hant",
+  jpn: "ja",
+  kor: "ko",
+  hin: "hi",
+  tha: "th",
+};
+
+export interface DetectedLanguages {
+  languages: string[];
+  script: string | null;
+}
+
+/**
+ * Choose recognition languages from rendered sample pages. The most
+ * frequent language comes first; only installed models are candidates, and
+ * scripts without one fall back to `DEFAULT_LANGUAGES`.
+ */
+export async function detectLanguages(job: OcrJob, images: Buffer[]): Promise<DetectedLanguages> {
+  const confidence = new Map<string, number>();
+  const detections = await Promise.all(images.map((image) => job.detect(image)));
+  for (const { script, script_confidence } of detections) {
+    if (script) confidence.set(script, (confidence.get(script) ?? 0) + (script_confidence ?? 0));
+  }
+
+  const [script = null] = Array.from(confidence.keys()).sort((a, b) => confidence.get(b)! - confidence.get(a)!);
+
+  const models = script ? SCRIPT_LANGUAGES[script] ?? [] : [];
+  const missing = missingLanguages(models);
+  const candidates = models.filter((language) => !missing.includes(language));
+  if (candidates.length === 0) return { languages: DEFAULT_LANGUAGES, script };
+  if (candidates.length === 1) return { languages: candidates, script };
+
+  const pages = await Promise.all(images.map((image) => job.recognize(image, candidates.join("+"))));
+  const hits = new Map<string, number>(candidates.map((language) => [language, 0]));
+  for (const page of pages) {
+    for (const word of pageWords(page)) {
+      candidates.forEach((language) => {
+        if (DISTINCTIVE_WORDS[language]?.has(word)) hits.set(language, hits.get(language)! + 1);
+      });
+    }
+  }
+
+  const total = Array.from(hits.values()).reduce((sum, count) => sum + count, 0);
+  if (total === 0) return { languages: DEFAULT_LANGUAGES, script };
+  const languages = candidates
+    .filter((language) => hits.get(language)! / total >= SECONDARY_SHARE)
+    .sort((a, b) => hits.get(b)! - hits.get(a)!);
+  return { languages, script };
+}
+
+export function languageTag(language: string): string | null {
+  return LANGUAGE_TAGS[language] ?? null;
+}
+
+// Declare the document's natural language, unless it already declares one
+export function setDocumentLanguage(pdfDoc: PDFDocument, tag: string): void {
+  if (pdfDoc.catalog.has(PDFName.of("Lang"))) return;
+  pdfDoc.catalog.set(PDFName.of("Lang"), PDFString.of(tag));
+}
+
+// Recognized words, lowercased and without surrounding punctuation; only
+// Latin-script pages get this far
+function pageWords(page: Page): string[] {
+  const words: string[] = [];
+  (page.blocks ?? []).forEach((block) =>
+    block.paragraphs.forEach((paragraph) =>
+      paragraph.lines.forEach((line) =>
+        line.words.forEach((word) => {
+          const text = word.text.toLowerCase().replace(/^[^a-zà-öø-ÿ]+|[^a-zà-öø-ÿ]+$/g, "");
+          if (text) words.push(text);
+        }),
+      ),
+    ),
+  );
+  return words;
+}
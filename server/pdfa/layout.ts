@@ -0,0 +1,340 @@
+import type { Bbox } from "tesseract.js";
+import type { LayoutBlock, OcrPageReport } from "@shared/schema";
+import type { OcrBlock, OcrLine, OcrPage, OcrParagraph, OcrWord } from "./ocr";
+
+/**
+ * Layout analysis of a recognized page: columns, headings and tables are
+ * found from the positions of the recognized lines alone, and the page's
+ * text is put in reading order.
+ *
+ * Lines are first cut at gaps wide enough to be column gutters. The page is
+ * then split, top to bottom, into sections that each keep one column
+ * layout (a headline spanning the page ends one), and the columns of each
+ * section are read left to right, each analyzed the same way in turn.
+ * Sections whose columns line up in rows of short cells are tables, read
+ * row by row.
+ */
+
+// A gap between words at least this many line heights wide separates
+// columns (or table cells) rather than words
+const GUTTER_FACTOR = 1;
+// Share of its width a gutter keeps as a section grows
+const KEPT_GUTTER = 0.5;
+// Lines this many times taller than the page's typical line are headings
+const HEADING_FACTOR = 1.5;
+// Tables have short cells; text columns have full lines
+const MAX_CELL_WORDS = 3;
+
+export type PageLayout = Pick<OcrPageReport, "columns" | "blocks"> & {
+  // The recognized page, its blocks in reading order
+  page: OcrPage;
+};
+
+// Words of one line between gutters
+interface Fragment {
+  bbox: Bbox;
+  line: OcrLine;
+  words: OcrWord[];
+  // Tesseract paragraph the line came from
+  paragraph: OcrParagraph;
+}
+
+interface Region {
+  type: LayoutBlock["type"];
+  // Rows of fragments, top to bottom, each left to right
+  rows: Fragment[][];
+  section: number;
+  column: number;
+  // Tables only: the x ranges between gutters
+  columns?: [number, number][];
+}
+
+interface Placement {
+  section: number;
+  column: number;
+}
+
+export function analyzeLayout(page: OcrPage): PageLayout {
+  const fragments = page.blocks.flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) => paragraph.lines.flatMap((line) => splitLine(line, paragraph))),
+  );
+  if (fragments.length === 0) return { page: { ...page, blocks: [] }, columns: 0, blocks: [] };
+
+  const lineHeight = median(fragments.map(({ bbox }) => bbox.y1 - bbox.y0));
+  const regions: Region[] = [];
+  sections(fragments, lineHeight).forEach((section, s) =>
+    arrange(section, lineHeight, { section: s + 1, column: 1 }, true, regions),
+  );
+
+  const blocks = regions.flatMap((region) => splitHeadings(region, lineHeight));
+  const toBox = userSpace(page);
+  return {
+    page: { ...page, blocks: blocks.map(toOcrBlock) },
+    // Table cells are not columns of text
+    columns: Math.max(1, ...regions.filter(({ type }) => type !== "table").map(({ column }) => column)),
+    blocks: blocks.map((region) => {
+      const all = region.rows.flat();
+      const block: LayoutBlock = {
+        type: region.type,
+        bbox: toBox(union(all.map(({ bbox }) => bbox))),
+        section: region.section,
+        column: region.column,
+        text: region.rows.map((row) => row.map(fragmentText).join(" ")).join("\n"),
+      };
+      if (region.type === "table") block.cells = tableCells(region);
+      return block;
+    }),
+  };
+}
+
+// Cut a line wherever its words are a gutter apart
+function splitLine(line: OcrLine, paragraph: OcrParagraph): Fragment[] {
+  const minGap = GUTTER_FACTOR * (line.bbox.y1 - line.bbox.y0);
+  const fragments: Fragment[] = [];
+  let words: OcrWord[] = [];
+  line.words.forEach((word, i) => {
+    if (i > 0 && word.bbox.x0 - line.words[i - 1].bbox.x1 >= minGap) {
+      fragments.push(toFragment(line, paragraph, words));
+      words = [];
+    }
+    words.push(word);
+  });
+  if (words.length > 0) fragments.push(toFragment(line, paragraph, words));
+  return fragments;
+}
+
+function toFragment(line: OcrLine, paragraph: OcrParagraph, words: OcrWord[]): Fragment {
+  const bbox = union(words.map((word) => word.bbox));
+  // Keep the line's height, so fragments of one line stay level
+  return { bbox: { x0: bbox.x0, y0: line.bbox.y0, x1: bbox.x1, y1: line.bbox.y1 }, line, words, paragraph };
+}
+
+/**
+ * Read the fragments of a region in order, appending what is found to
+ * `out`. At the top level, `place` numbers each section and column;
+ * nested sections and columns keep the top-level place.
+ */
+function arrange(fragments: Fragment[], lineHeight: number, place: Placement, top: boolean, out: Region[]): void {
+  const found = gutters(fragments, lineHeight);
+  if (found.length === 0) {
+    out.push({ type: "text", rows: rows(fragments), ...place });
+    return;
+  }
+
+  const bounds = columnBounds(fragments, found);
+  if (isTable(fragments, bounds)) {
+    out.push({ type: "table", rows: rows(fragments), columns: bounds, ...place });
+    return;
+  }
+
+  bounds.forEach(([x0, x1], c) => {
+    const column = fragments.filter(({ bbox }) => bbox.x0 >= x0 && bbox.x1 <= x1);
+    sections(column, lineHeight).forEach((section) =>
+      arrange(section, lineHeight, top ? { section: place.section, column: c + 1 } : place, false, out),
+    );
+  });
+}
+
+/**
+ * Split fragments, top to bottom, into sections with one column layout
+ * each. Horizontal bands of the page join the section above while its
+ * gutters, or its lack of them, stay as they are. A band that fits the columns of the section
+ * below (the first lines of a column that starts higher) moves down to it,
+ * and a heading closing a section is a section of its own, introducing the
+ * one below.
+ */
+function sections(fragments: Fragment[], lineHeight: number): Fragment[][] {
+  const hasGutters = (group: Fragment[][]) => gutters(group.flat(), lineHeight).length > 0;
+  const groups: Fragment[][][] = [];
+  for (const band of bands(fragments)) {
+    const current = groups[groups.length - 1];
+    // Without gutters of its own, a section takes no band that has some
+    if (current && keepsGutters(current, band, lineHeight) && (hasGutters(current) || !hasGutters([band]))) {
+      current.push(band);
+    } else {
+      groups.push([band]);
+    }
+  }
+
+  for (let i = 0; i + 1 < groups.length; i++) {
+    const [above, below] = [groups[i], groups[i + 1]];
+    if (hasGutters(below) && !hasGutters(above)) {
+      while (above.length > 0 && keepsGutters(below, above[above.length - 1], lineHeight)) {
+        below.unshift(above.pop()!);
+      }
+    }
+    if (above.length === 0) {
+      groups.splice(i--, 1);
+    } else if (above.length > 1 && hasGutters(above) && isHeading(above[above.length - 1], lineHeight)) {
+      groups.splice(++i, 0, [above.pop()!]);
+    }
+  }
+  return groups.map((group) => group.flat());
+}
+
+// Whether `band` leaves the gutters of `group` in place: each one whole,
+// not split, and narrowed by no more than half. New gutters may open
+// beside the group, where a column starts lower; cells of a table end a
+// section of text columns, whose gutters they split or narrow.
+function keepsGutters(group: Fragment[][], band: Fragment[], lineHeight: number): boolean {
+  const after = gutters([...group.flat(), ...band], lineHeight);
+  return gutters(group.flat(), lineHeight).every(([x0, x1]) => {
+    const kept = after.filter(([a0, a1]) => a0 < x1 && a1 > x0);
+    return kept.length === 1 && Math.min(x1, kept[0][1]) - Math.max(x0, kept[0][0]) >= KEPT_GUTTER * (x1 - x0);
+  });
+}
+
+// Groups of fragments with no horizontal gap between them, top to bottom
+function bands(fragments: Fragment[]): Fragment[][] {
+  const sorted = [...fragments].sort((a, b) => a.bbox.y0 - b.bbox.y0);
+  const result: Fragment[][] = [];
+  let bottom = -Infinity;
+  for (const fragment of sorted) {
+    if (fragment.bbox.y0 > bottom) result.push([]);
+    result[result.length - 1].push(fragment);
+    bottom = Math.max(bottom, fragment.bbox.y1);
+  }
+  return result;
+}
+
+// Vertical gaps no fragment crosses, at least a gutter wide: [start, end]
+function gutters(fragments: Fragment[], lineHeight: number): [number, number][] {
+  const sorted = [...fragments].sort((a, b) => a.bbox.x0 - b.bbox.x0);
+  const result: [number, number][] = [];
+  let right = -Infinity;
+  for (const { bbox } of sorted) {
+    if (right !== -Infinity && bbox.x0 - right >= GUTTER_FACTOR * lineHeight) result.push([right, bbox.x0]);
+    right = Math.max(right, bbox.x1);
+  }
+  return result;
+}
+
+// The x ranges of the columns between gutters
+function columnBounds(fragments: Fragment[], found: [number, number][]): [number, number][] {
+  const left = Math.min(...fragments.map(({ bbox }) => bbox.x0));
+  const right = Math.max(...fragments.map(({ bbox }) => bbox.x1));
+  const edges = [left, ...found.flat(), right];
+  const bounds: [number, number][] = [];
+  for (let i = 0; i < edges.length; i += 2) bounds.push([edges[i], edges[i + 1]]);
+  return bounds;
+}
+
+// Rows of short cells, most of them filled in more than one column
+function isTable(fragments: Fragment[], bounds: [number, number][]): boolean {
+  const tableRows = rows(fragments);
+  const multiCell = tableRows.filter((row) => new Set(row.map((fragment) => columnOf(fragment, bounds))).size > 1);
+  return (
+    tableRows.length >= 2 &&
+    multiCell.length >= Math.max(2, tableRows.length / 2) &&
+    median(fragments.map(({ words }) => words.length)) <= MAX_CELL_WORDS
+  );
+}
+
+function columnOf({ bbox }: Fragment, bounds: [number, number][]): number {
+  const index = bounds.findIndex(([, x1]) => bbox.x0 <= x1);
+  return index === -1 ? bounds.length - 1 : index;
+}
+
+// Fragments in rows: a fragment whose middle lies within a row's first
+// fragment joins it. Rows top to bottom, each left to right.
+function rows(fragments: Fragment[]): Fragment[][] {
+  const sorted = [...fragments].sort((a, b) => a.bbox.y0 - b.bbox.y0 || a.bbox.x0 - b.bbox.x0);
+  const result: Fragment[][] = [];
+  for (const fragment of sorted) {
+    const middle = (fragment.bbox.y0 + fragment.bbox.y1) / 2;
+    const row = result.find(([first]) => middle >= first.bbox.y0 && middle <= first.bbox.y1);
+    if (row) {
+      row.push(fragment);
+    } else {
+      result.push([fragment]);
+    }
+  }
+  result.forEach((row) => row.sort((a, b) => a.bbox.x0 - b.bbox.x0));
+  return result;
+}
+
+// Split a text region where its rows change between heading and body size
+function splitHeadings(region: Region, lineHeight: number): Region[] {
+  if (region.type === "table") return [region];
+  const result: Region[] = [];
+  region.rows.forEach((row, i) => {
+    const type = isHeading(row, lineHeight) ? "heading" : "text";
+    if (i === 0 || result[result.length - 1].type !== type) result.push({ ...region, type, rows: [] });
+    result[result.length - 1].rows.push(row);
+  });
+  return result;
+}
+
+// Fragments of a row or band set in a larger size than the page's text
+function isHeading(fragments: Fragment[], lineHeight: number): boolean {
+  return Math.max(...fragments.map(({ bbox }) => bbox.y1 - bbox.y0)) >= HEADING_FACTOR * lineHeight;
+}
+
+/**
+ * A region as an OCR block: text rows become lines, grouped in paragraphs
+ * as Tesseract grouped them; each table row is a paragraph with a line per
+ * cell.
+ */
+function toOcrBlock(region: Region): OcrBlock {
+  const paragraphs: OcrParagraph[] = [];
+  let source: OcrParagraph | null = null;
+  for (const row of region.rows) {
+    const lines: OcrLine[] = [];
+    row.forEach((fragment, i) => {
+      // Pieces of one line within a column of text are rejoined
+      if (region.type !== "table" && i > 0 && fragment.line === row[i - 1].line) {
+        const line = lines[lines.length - 1];
+        line.words = [...line.words, ...fragment.words];
+        line.bbox = union([line.bbox, fragment.bbox]);
+      } else {
+        lines.push({ ...fragment.line, bbox: fragment.bbox, words: fragment.words });
+      }
+    });
+    if (region.type === "table" || row[0].paragraph !== source) {
+      paragraphs.push({ bbox: union(row.map(({ bbox }) => bbox)), lines });
+      source = row[0].paragraph;
+    } else {
+      const paragraph = paragraphs[paragraphs.length - 1];
+      paragraph.lines.push(...lines);
+      paragraph.bbox = union([paragraph.bbox, ...lines.map(({ bbox }) => bbox)]);
+    }
+  }
+  return { bbox: union(paragraphs.map(({ bbox }) => bbox)), paragraphs };
+}
+
+function tableCells(region: Region): string[][] {
+  const bounds = region.columns!;
+  return region.rows.map((row) => {
+    const cells = bounds.map(() => [] as string[]);
+    for (const fragment of row) cells[columnOf(fragment, bounds)].push(fragmentText(fragment));
+    return cells.map((cell) => cell.join(" "));
+  });
+}
+
+function fragmentText({ words }: Fragment): string {
+  return words.map((word) => word.text).join(" ");
+}
+
+function union(boxes: Bbox[]): Bbox {
+  return {
+    x0: Math.min(...boxes.map((box) => box.x0)),
+    y0: Math.min(...boxes.map((box) => box.y0)),
+    x1: Math.max(...boxes.map((box) => box.x1)),
+    y1: Math.max(...boxes.map((box) => box.y1)),
+  };
+}
+
+// Pixel boxes of the page image to default user space, rounded to 0.1
+function userSpace(page: OcrPage): (box: Bbox) => LayoutBlock["bbox"] {
+  const scale = 72 / page.dpi;
+  const [x1, , , y2] = page.view;
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return ({ x0, y0, x1: right, y1: bottom }) =>
+    [x1 + x0 * scale, y2 - bottom * scale, x1 + right * scale, y2 - y0 * scale].map(round) as LayoutBlock["bbox"];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
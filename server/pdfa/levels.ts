@@ -0,0 +1,273 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from "pdf-lib";
+import { pdfaFormatLabels, type LevelReport, type PdfaFormatType } from "@shared/schema";
+import { readStreamData } from "./content";
+import { readIdentification, readXmp } from "./metadata";
+
+/**
+ * What distinguishes one PDF/A part and conformance level from another, as
+ * far as the converter is concerned.
+ */
+export interface ConformanceLevel {
+  formatType: PdfaFormatType;
+  label: string;
+  part: 1 | 2 | 3;
+  conformance: "A" | "B" | "U";
+  // PDF version written in the header: PDF/A-1 is based on PDF 1.4
+  pdfVersion: [number, number];
+  // Transparency is handled by its own stage (see transparency.ts)
+  transparency: boolean;
+  jpeg2000: boolean;
+  optionalContent: boolean;
+  // none: forbidden (part 1), pdfa: only PDF/A files (part 2), any: part 3
+  embeddedFiles: "none" | "pdfa" | "any";
+  // Level A requires a tagged (logically structured) document
+  tagged: boolean;
+}
+
+export function getConformanceLevel(formatType: PdfaFormatType): ConformanceLevel {
+  const part = Number(formatType.charAt(6)) as 1 | 2 | 3;
+  const conformance = formatType.charAt(7).toUpperCase() as "A" | "B" | "U";
+
+  return {
+    formatType,
+    label: pdfaFormatLabels[formatType],
+    part,
+    conformance,
+    pdfVersion: part === 1 ? [1, 4] : [1, 7],
+    transparency: part !== 1,
+    jpeg2000: part !== 1,
+    optionalContent: part !== 1,
+    embeddedFiles: part === 1 ? "none" : part === 2 ? "pdfa" : "any",
+    tagged: conformance === "A",
+  };
+}
+
+// Filters pdf-lib can decode, so streams using them can be re-encoded
+const DECODABLE_FILTERS = new Set([
+  "FlateDecode", "LZWDecode", "ASCIIHexDecode", "ASCII85Decode", "RunLengthDecode",
+]);
+
+/**
+ * Apply the rules that differ between PDF/A parts and levels.
+ *
+ * Constructs that can be rewritten without changing the page appearance are
+ * fixed; anything else the level forbids is reported as unresolved.
+ */
+export async function applyLevelRules(pdfDoc: PDFDocument, level: ConformanceLevel): Promise<LevelReport> {
+  const report: LevelReport = { formatType: level.formatType, fixed: [], unresolved: [] };
+
+  reencodeLzwStreams(pdfDoc, report);
+  await restrictEmbeddedFiles(pdfDoc, level, report);
+
+  if (!level.jpeg2000) {
+    const jpxImages = pdfDoc.context
+      .enumerateIndirectObjects()
+      .filter(([, object]) => object instanceof PDFStream && hasFilter(object, "JPXDecode"));
+    if (jpxImages.length > 0) {
+      report.unresolved.push(
+        `${jpxImages.length} imagem(ns) JPEG 2000, formato não permitido no ${level.label}`,
+      );
+    }
+  }
+
+  if (!level.optionalContent && pdfDoc.catalog.has(PDFName.of("OCProperties"))) {
+    report.unresolved.push(`Conteúdo opcional (camadas) não é permitido no ${level.label}`);
+  }
+
+  if (level.tagged) {
+    if (pdfDoc.catalog.has(PDFName.of("StructTreeRoot"))) {
+      const markInfo = pdfDoc.catalog.lookupMaybe(PDFName.of("MarkInfo"), PDFDict);
+      if (markInfo?.get(PDFName.of("Marked")) !== PDFBool.True) {
+        pdfDoc.catalog.set(PDFName.of("MarkInfo"), pdfDoc.context.obj({ Marked: true }));
+        report.fixed.push("Documento marcado como estruturado (MarkInfo)");
+      }
+    } else {
+      // Tags cannot be derived from the page content, so untagged input,
+      // including every image and OCR page, cannot reach level A
+      report.unresolved.push(
+        `O documento não possui estrutura lógica (tags), exigida pelo ${level.label}; ` +
+          "o conversor não cria tags, escolha um nível B ou U para arquivos sem elas",
+      );
+    }
+  }
+
+  return report;
+}
+
+// LZW compression is forbidden at every level; Flate is its lossless equivalent
+function reencodeLzwStreams(pdfDoc: PDFDocument, report: LevelReport): void {
+  let reencoded = 0;
+  let failed = 0;
+
+  for (const [ref, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream) || !hasFilter(object, "LZWDecode")) continue;
+
+    if (!filterNames(object).every((name) => DECODABLE_FILTERS.has(name))) {
+      failed++;
+      continue;
+    }
+
+    const replacement = pdfDoc.context.flateStream(readStreamData(object));
+    for (const [key, value] of object.dict.entries()) {
+      if (["Filter", "DecodeParms", "Length"].includes(key.decodeText())) continue;
+      replacement.dict.set(key, value);
+    }
+    pdfDoc.context.assign(ref, replacement);
+    reencoded++;
+  }
+
+  if (reencoded > 0) report.fixed.push(`${reencoded} fluxo(s) LZW recomprimido(s) com Flate`);
+  if (failed > 0) report.unresolved.push(`${failed} fluxo(s) com compressão LZW não puderam ser convertidos`);
+}
+
+/**
+ * Part 1 forbids embedded files, part 2 allows only embedded PDF/A files and
+ * part 3 allows anything. Files that are not allowed are removed from both
+ * the EmbeddedFiles name tree and file attachment annotations; in part 2,
+ * files that cannot be read to tell are kept and reported as unresolved.
+ */
+async function restrictEmbeddedFiles(pdfDoc: PDFDocument, level: ConformanceLevel, report: LevelReport): Promise<void> {
+  if (level.embeddedFiles === "any") return;
+
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+  const embeddedFiles = names?.lookupMaybe(PDFName.of("EmbeddedFiles"), PDFDict);
+  const attachments = pdfDoc.getPages().map((page) => {
+    const annotations = page.node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+    return (annotations?.asArray() ?? [])
+      .map((annotation) => pdfDoc.context.lookup(annotation))
+      .filter((annotation): annotation is PDFDict =>
+        annotation instanceof PDFDict && annotation.lookup(PDFName.of("Subtype")) === PDFName.of("FileAttachment"),
+      );
+  });
+
+  const kinds = new Map<unknown, EmbeddedFileKind>();
+  if (level.embeddedFiles === "pdfa") {
+    const fileSpecs = [
+      ...(embeddedFiles ? nameTreeValues(embeddedFiles) : []),
+      ...attachments.flat().map((annotation) => annotation.lookup(PDFName.of("FS"))),
+    ];
+    for (const fileSpec of fileSpecs) {
+      if (fileSpec instanceof PDFDict && !kinds.has(fileSpec)) kinds.set(fileSpec, await classifyEmbeddedFile(fileSpec));
+    }
+  }
+  const allowed = (fileSpec: unknown) => kinds.has(fileSpec) && kinds.get(fileSpec) !== "other";
+
+  if (embeddedFiles) {
+    const removed = filterNameTree(embeddedFiles, allowed);
+    removed.forEach((name) => report.fixed.push(`Arquivo incorporado "${name}" removido`));
+  }
+
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const annotations = page.node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+    if (!annotations) return;
+    for (let i = annotations.size() - 1; i >= 0; i--) {
+      const annotation = annotations.lookupMaybe(i, PDFDict);
+      if (annotation?.lookup(PDFName.of("Subtype")) !== PDFName.of("FileAttachment")) continue;
+      if (allowed(annotation.lookup(PDFName.of("FS")))) continue;
+      annotations.remove(i);
+      report.fixed.push(`Anexo na página ${pageIndex + 1} removido`);
+    }
+  });
+
+  const unreadable = Array.from(kinds.values()).filter((kind) => kind === "unreadable").length;
+  if (unreadable > 0) {
+    report.unresolved.push(`${unreadable} arquivo(s) incorporado(s) não puderam ser lidos para verificar se são PDF/A`);
+  }
+}
+
+// The values of a name tree's leaves
+function nameTreeValues(node: PDFDict): PDFObject[] {
+  const values: PDFObject[] = [];
+  const kids = node.lookupMaybe(PDFName.of("Kids"), PDFArray);
+  for (let i = 0; i < (kids?.size() ?? 0); i++) {
+    const kid = kids!.lookupMaybe(i, PDFDict);
+    if (kid) values.push(...nameTreeValues(kid));
+  }
+  const pairs = node.lookupMaybe(PDFName.of("Names"), PDFArray);
+  for (let i = 0; i + 1 < (pairs?.size() ?? 0); i += 2) {
+    const value = pairs!.lookup(i + 1);
+    if (value) values.push(value);
+  }
+  return values;
+}
+
+// Remove the leaves of a name tree whose value fails `keep`; returns their names
+function filterNameTree(node: PDFDict, keep: (value: unknown) => boolean): string[] {
+  const removed: string[] = [];
+
+  const kids = node.lookupMaybe(PDFName.of("Kids"), PDFArray);
+  for (let i = 0; i < (kids?.size() ?? 0); i++) {
+    const kid = kids!.lookupMaybe(i, PDFDict);
+    if (kid) removed.push(...filterNameTree(kid, keep));
+  }
+
+  const pairs = node.lookupMaybe(PDFName.of("Names"), PDFArray);
+  if (pairs) {
+    const kept: PDFObject[] = [];
+    const removedBefore = removed.length;
+    for (let i = 0; i + 1 < pairs.size(); i += 2) {
+      if (keep(pairs.lookup(i + 1))) {
+        kept.push(pairs.get(i), pairs.get(i + 1));
+      } else {
+        const key = pairs.lookup(i);
+        removed.push(key instanceof PDFString || key instanceof PDFHexString ? key.decodeText() : String(key));
+      }
+    }
+    if (removed.length > removedBefore) node.set(PDFName.of("Names"), node.context.obj(kept));
+  }
+
+  return removed;
+}
+
+/**
+ * What an embedded file is, as far as part 2 is concerned: a PDF whose own
+ * XMP metadata declares a PDF/A part, any other file, or one whose data or
+ * PDF structure could not be read to tell.
+ */
+export type EmbeddedFileKind = "pdfa" | "other" | "unreadable";
+
+export async function classifyEmbeddedFile(fileSpec: PDFDict): Promise<EmbeddedFileKind> {
+  const ef = fileSpec.lookupMaybe(PDFName.of("EF"), PDFDict);
+  const stream = ef?.lookup(PDFName.of("UF")) ?? ef?.lookup(PDFName.of("F"));
+  if (!(stream instanceof PDFStream)) return "other";
+
+  let xmp: string | null;
+  try {
+    const data = readStreamData(stream);
+    if (Buffer.from(data.subarray(0, 5)).toString("latin1") !== "%PDF-") return "other";
+    const embedded = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+    // The metadata stream is often compressed, so it is read decoded; a
+    // file without a catalog to read it from throws here
+    xmp = readXmp(embedded);
+  } catch {
+    return "unreadable";
+  }
+
+  const identification = xmp ? readIdentification(xmp) : null;
+  return identification && identification.part >= 1 && identification.part <= 3 ? "pdfa" : "other";
+}
+
+function filterNames(stream: PDFStream): string[] {
+  const filter = stream.dict.lookup(PDFName.of("Filter"));
+  const filters = filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : [];
+  return filters
+    .map((item) => (item instanceof PDFRef ? stream.dict.context.lookup(item) : item))
+    .filter((item): item is PDFName => item instanceof PDFName)
+    .map((name) => name.decodeText());
+}
+
+export function hasFilter(stream: PDFStream, name: string): boolean {
+  return filterNames(stream).includes(name);
+}
@@ -0,0 +1,289 @@
+import { PDFDocument, PDFName, PDFDict, PDFStream } from "pdf-lib";
+import { readStreamData } from "./content";
+
+export const PRODUCER = "Tatianus PDF/A Converter";
+
+export const PDFAID_NAMESPACE = "http://www.aiim.org/pdfa/ns/id/";
+
+// PDF/A identification written into the pdfaid schema
+export interface PdfaIdentification {
+  part: number;
+  conformance: string;
+}
+
+/**
+ * An XMP schema outside the set predefined by ISO 19005. PDF/A only accepts
+ * such properties when the packet also describes the schema in the
+ * pdfaExtension:schemas container, so each one carries its own description.
+ */
+export interface XmpExtensionSchema {
+  schema: string;
+  namespaceURI: string;
+  prefix: string;
+  properties: Array<{
+    name: string;
+    valueType: "Text" | "Date" | "Integer" | "Boolean";
+    category: "internal" | "external";
+    description: string;
+    value: string;
+  }>;
+}
+
+/**
+ * Document information as it ends up in both the Info dictionary and XMP.
+ * PDF/A requires every Info entry that has an XMP counterpart to hold an
+ * equivalent value, so both stores are always written from this one object.
+ */
+interface DocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creatorTool?: string;
+  producer: string;
+  createDate: Date;
+  modifyDate: Date;
+}
+
+/**
+ * Rebuild the document metadata for PDF/A.
+ *
+ * The values already present in the Info dictionary are read, normalized
+ * (dates in UTC, producer set to the converter) and written back, and a new
+ * XMP packet carrying the same values plus the pdfaid schema and any
+ * extension schemas replaces the existing catalog /Metadata stream.
+ */
+export function writePdfaMetadata(
+  pdfDoc: PDFDocument,
+  identification: PdfaIdentification,
+  extensions: XmpExtensionSchema[] = [],
+  now: Date = new Date(),
+): void {
+  const info = readDocumentInfo(pdfDoc, now);
+  writeInfoDictionary(pdfDoc, info);
+
+  const xmp = buildXmpPacket(info, identification, extensions);
+  const metadataStream = pdfDoc.context.stream(new TextEncoder().encode(xmp), {
+    Type: "Metadata",
+    Subtype: "XML",
+  });
+  pdfDoc.catalog.set(PDFName.of("Metadata"), pdfDoc.context.register(metadataStream));
+}
+
+function readDocumentInfo(pdfDoc: PDFDocument, now: Date): DocumentInfo {
+  const text = (read: () => string | undefined) => {
+    try {
+      const value = read()?.trim();
+      return value ? value : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  const date = (read: () => Date | undefined) => {
+    try {
+      const value = read();
+      return value && !isNaN(value.getTime()) ? value : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    title: text(() => pdfDoc.getTitle()),
+    author: text(() => pdfDoc.getAuthor()),
+    subject: text(() => pdfDoc.getSubject()),
+    keywords: text(() => pdfDoc.getKeywords()),
+    creatorTool: text(() => pdfDoc.getCreator()),
+    producer: PRODUCER,
+    createDate: date(() => pdfDoc.getCreationDate()) ?? now,
+    modifyDate: now,
+  };
+}
+
+function writeInfoDictionary(pdfDoc: PDFDocument, info: DocumentInfo): void {
+  const infoDict = pdfDoc.context.lookupMaybe(pdfDoc.context.trailerInfo.Info, PDFDict);
+
+  // Entries without a usable value are removed rather than left empty, since
+  // an empty Info string with no XMP counterpart is reported as a mismatch
+  const textEntries: Array<[string, string | undefined, (value: string) => void]> = [
+    ["Title", info.title, (value) => pdfDoc.setTitle(value)],
+    ["Author", info.author, (value) => pdfDoc.setAuthor(value)],
+    ["Subject", info.subject, (value) => pdfDoc.setSubject(value)],
+    ["Keywords", info.keywords, (value) => pdfDoc.setKeywords([value])],
+    ["Creator", info.creatorTool, (value) => pdfDoc.setCreator(value)],
+  ];
+  for (const [key, value, set] of textEntries) {
+    if (value) {
+      set(value);
+    } else {
+      infoDict?.delete(PDFName.of(key));
+    }
+  }
+
+  // Trapped has an XMP counterpart too, and "Unknown" is not allowed in PDF/A
+  infoDict?.delete(PDFName.of("Trapped"));
+
+  pdfDoc.setProducer(info.producer);
+  pdfDoc.setCreationDate(info.createDate);
+  pdfDoc.setModificationDate(info.modifyDate);
+}
+
+function buildXmpPacket(
+  info: DocumentInfo,
+  identification: PdfaIdentification,
+  extensions: XmpExtensionSchema[],
+): string {
+  const properties: string[] = [
+    `<pdfaid:part>${identification.part}</pdfaid:part>`,
+    `<pdfaid:conformance>${identification.conformance}</pdfaid:conformance>`,
+    `<dc:format>application/pdf</dc:format>`,
+  ];
+
+  if (info.title) {
+    properties.push(`<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(info.title)}</rdf:li></rdf:Alt></dc:title>`);
+  }
+  if (info.author) {
+    properties.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(info.author)}</rdf:li></rdf:Seq></dc:creator>`);
+  }
+  if (info.subject) {
+    properties.push(`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(info.subject)}</rdf:li></rdf:Alt></dc:description>`);
+  }
+  if (info.keywords) {
+    properties.push(`<pdf:Keywords>${escapeXml(info.keywords)}</pdf:Keywords>`);
+  }
+  if (info.creatorTool) {
+    properties.push(`<xmp:CreatorTool>${escapeXml(info.creatorTool)}</xmp:CreatorTool>`);
+  }
+
+  properties.push(
+    `<pdf:Producer>${escapeXml(info.producer)}</pdf:Producer>`,
+    `<xmp:CreateDate>${formatXmpDate(info.createDate)}</xmp:CreateDate>`,
+    `<xmp:ModifyDate>${formatXmpDate(info.modifyDate)}</xmp:ModifyDate>`,
+    `<xmp:MetadataDate>${formatXmpDate(info.modifyDate)}</xmp:MetadataDate>`,
+  );
+
+  return `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      ${properties.join("\n      ")}
+    </rdf:Description>${extensions.length > 0 ? buildExtensionDescriptions(extensions) : ""}
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+function buildExtensionDescriptions(extensions: XmpExtensionSchema[]): string {
+  const schemas = extensions.map((extension) => {
+    const properties = extension.properties.map((property) => `
+              <rdf:li rdf:parseType="Resource">
+                <pdfaProperty:name>${property.name}</pdfaProperty:name>
+                <pdfaProperty:valueType>${property.valueType}</pdfaProperty:valueType>
+                <pdfaProperty:category>${property.category}</pdfaProperty:category>
+                <pdfaProperty:description>${escapeXml(property.description)}</pdfaProperty:description>
+              </rdf:li>`).join("");
+
+    return `
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>${escapeXml(extension.schema)}</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>${escapeXml(extension.namespaceURI)}</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>${extension.prefix}</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>${properties}
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>`;
+  }).join("");
+
+  const values = extensions.map((extension) => `
+    <rdf:Description rdf:about=""
+        xmlns:${extension.prefix}="${escapeXml(extension.namespaceURI)}">
+      ${extension.properties
+        .map((property) => `<${extension.prefix}:${property.name}>${escapeXml(property.value)}</${extension.prefix}:${property.name}>`)
+        .join("\n      ")}
+    </rdf:Description>`).join("");
+
+  return `
+    <rdf:Description rdf:about=""
+        xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+        xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+        xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+      <pdfaExtension:schemas>
+        <rdf:Bag>${schemas}
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>${values}`;
+}
+
+// pdf-lib writes Info dates in UTC with second precision, so XMP does too
+function formatXmpDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// The catalog's XMP packet, decoded; null when missing or unreadable
+export function readXmp(pdfDoc: PDFDocument): string | null {
+  const metadata = pdfDoc.catalog.lookup(PDFName.of("Metadata"));
+  if (!(metadata instanceof PDFStream)) return null;
+  try {
+    return new TextDecoder().decode(readStreamData(metadata));
+  } catch {
+    return null;
+  }
+}
+
+// The pdfaid part and level an XMP packet declares
+export function readIdentification(xmp: string): PdfaIdentification | null {
+  const part = Number(xmpProperty(xmp, PDFAID_NAMESPACE, "part"));
+  if (!part) return null;
+  return { part, conformance: (xmpProperty(xmp, PDFAID_NAMESPACE, "conformance") ?? "").toUpperCase() };
+}
+
+// Prefix -> namespace URI, for every declaration in the packet
+export function xmpNamespaces(xmp: string): Map<string, string> {
+  const namespaces = new Map<string, string>();
+  const pattern = /xmlns:([A-Za-z_][\w.-]*)\s*=\s*["']([^"']*)["']/g;
+  for (let match = pattern.exec(xmp); match; match = pattern.exec(xmp)) namespaces.set(match[1], unescapeXml(match[2]));
+  return namespaces;
+}
+
+/**
+ * The value of a simple XMP property, written as an element or an
+ * attribute; for arrays (dc:title, dc:creator), the first item.
+ */
+export function xmpProperty(xmp: string, namespace: string, name: string): string | undefined {
+  const namespaces = xmpNamespaces(xmp);
+  for (const prefix of Array.from(namespaces.keys())) {
+    if (namespaces.get(prefix) !== namespace) continue;
+    const element = new RegExp(`<${prefix}:${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${prefix}:${name}>`).exec(xmp);
+    if (element) {
+      const item = /<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/.exec(element[1]);
+      return unescapeXml(item ? item[1] : element[1]).trim();
+    }
+    const attribute = new RegExp(`\\s${prefix}:${name}\\s*=\\s*["']([^"']*)["']`).exec(xmp);
+    if (attribute) return unescapeXml(attribute[1]).trim();
+  }
+  return undefined;
+}
+
+export function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCharCode(Number(decimal)))
+    .replace(/&amp;/g, "&");
+}
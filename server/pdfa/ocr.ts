@@ -0,0 +1,330 @@
+import type { Bbox, Block } from "tesseract.js";
+import { PDFDocument, PDFRef } from "pdf-lib";
+import type { ConversionOptions, LanguageReport, OcrPageReport, PreprocessReport } from "@shared/schema";
+import { measureConfidence } from "./confidence";
+import { embedGlyphlessFont } from "./fonts";
+import { detectLanguages, languageTag } from "./languages";
+import { analyzeLayout } from "./layout";
+import { analyzePageText, hasUsableText, removeInvisibleText } from "./pagetext";
+import { ocrPool } from "./pool";
+import { preprocessPage, straightenPage } from "./preprocess";
+import { openRenderer } from "./render";
+import { assertLanguagesInstalled } from "./tessdata";
+
+// Resolution pages are rendered at for recognition
+const OCR_DPI = 300;
+// Pages the `auto` language option looks at, spread over the document
+const LANGUAGE_SAMPLE_PAGES = 3;
+
+// Recognized layout of one page, in pixels of the rendered image
+export interface OcrWord {
+  text: string;
+  bbox: Bbox;
+  confidence: number;
+}
+
+export interface OcrLine {
+  bbox: Bbox;
+  confidence: number;
+  // Start and end of the baseline, when Tesseract found one
+  baseline: Bbox | null;
+  words: OcrWord[];
+}
+
+export interface OcrParagraph {
+  bbox: Bbox;
+  lines: OcrLine[];
+}
+
+export interface OcrBlock {
+  bbox: Bbox;
+  paragraphs: OcrParagraph[];
+}
+
+export interface OcrPage {
+  pageIndex: number;
+  dpi: number;
+  width: number;
+  height: number;
+  // Page area the image covers, in default user space: [x1, y1, x2, y2]
+  view: [number, number, number, number];
+  blocks: OcrBlock[];
+}
+
+export interface OcrResult {
+  pages: OcrPageReport[];
+  // Recognized layout of every page; empty for pages OCR skipped
+  layouts: OcrPage[];
+  language: LanguageReport;
+  preprocessing: PreprocessReport[];
+}
+
+interface RenderedImage {
+  image: Buffer;
+  width: number;
+  height: number;
+  view: [number, number, number, number];
+}
+
+/**
+ * Recognize the text of pages and write it back as an invisible text layer,
+ * so scanned pages become searchable and selectable. Which pages are
+ * recognized depends on `ocrMode`:
+ *
+ * - `skip_text`: pages without usable text, visible or invisible
+ * - `redo_ocr`: pages without usable visible text, after removing any
+ *   earlier invisible OCR layer
+ * - `force`: every page, also replacing earlier OCR layers
+ *
+ * Pages are rendered from `source`, the serialized document the pages of
+ * `pdfDoc` were loaded from, so the two must have the same page order.
+ * Invisible text does not render, so removing it first does not change
+ * what is recognized.
+ *
+ * Each page is preprocessed before it is recognized (see `preprocessPage`),
+ * and with `languages: "auto"` the languages are chosen from a sample of
+ * the pages to recognize before any of them is.
+ */
+export async function applyOcr(
+  pdfDoc: PDFDocument,
+  source: Uint8Array,
+  {
+    ocrMode: mode,
+    languages: requested,
+    preprocessing: steps,
+    confidenceThreshold,
+  }: Pick<ConversionOptions, "ocrMode" | "languages" | "preprocessing" | "confidenceThreshold">,
+  onPage: (done: number, total: number) => void = () => {},
+): Promise<OcrResult> {
+  const reports: OcrPageReport[] = pdfDoc.getPages().map((page, pageIndex) => {
+    const text = analyzePageText(pdfDoc, pageIndex);
+    const existingText = hasUsableText(text) ? "visible" : text.invisible > 0 ? "invisible" : "none";
+    const recognize =
+      mode === "force" || existingText === "none" || (mode === "redo_ocr" && existingText === "invisible");
+    // The earlier OCR layer only goes when a new one replaces it
+    const replacedLayer = recognize && text.invisible > 0 && removeInvisibleText(page.node);
+    return {
+      page: pageIndex + 1,
+      existingText,
+      action: recognize ? "recognized" : "skipped",
+      replacedLayer,
+      words: 0,
+      wordConfidence: null,
+      lineConfidence: null,
+      lowConfidence: false,
+      lowConfidenceRegions: [],
+      columns: 0,
+      blocks: [],
+    };
+  });
+  const pending = reports.filter((report) => report.action === "recognized");
+  const total = pending.length;
+  // Language data is only needed when some page is recognized; fail before
+  // rendering any page when it is missing
+  if (total > 0 && requested !== "auto") assertLanguagesInstalled(requested.join("+"));
+  const layouts: OcrPage[] = pdfDoc.getPages().map((page, pageIndex) => {
+    const { x, y, width, height } = page.getCropBox();
+    return {
+      pageIndex,
+      dpi: OCR_DPI,
+      width: Math.ceil((width * OCR_DPI) / 72),
+      height: Math.ceil((height * OCR_DPI) / 72),
+      view: [x, y, x + width, y + height],
+      blocks: [],
+    };
+  });
+  let font: PDFRef | undefined;
+  let done = 0;
+
+  // Pages are rendered here one at a time and recognized by the shared
+  // worker pool; rendering stops while the job has as many pages in flight
+  // as the pool lets it run, so rendered images never pile up in memory
+  const job = ocrPool.createJob();
+  const inFlight = new Set<Promise<void>>();
+  const renderer = await openRenderer(source);
+  const preprocessing: PreprocessReport[] = [];
+  const render = async ({ page, existingText }: OcrPageReport): Promise<RenderedImage> => {
+    const pageIndex = page - 1;
+    const rendered = await renderer.renderPage(pageIndex, { dpi: OCR_DPI });
+    const { canvas, rotation, report } = await preprocessPage(
+      job,
+      rendered.canvas,
+      await rendered.canvas.encode("png"),
+      steps,
+      existingText !== "visible",
+    );
+    preprocessing.push({ page, ...report });
+
+    // The text layer is written in the space of the straightened page
+    const view = rotation
+      ? straightenPage(pdfDoc, pageIndex, rendered.view, report.orientation, rotation)
+      : rendered.view;
+    return { image: await canvas.encode("png"), width: canvas.width, height: canvas.height, view };
+  };
+
+  const language: LanguageReport = {
+    languages: requested === "auto" ? [] : requested,
+    detected: false,
+    script: null,
+    samplePages: [],
+    tag: null,
+  };
+  // Sample pages stay rendered until their turn to be recognized
+  const samples = new Map<number, RenderedImage>();
+  try {
+    if (requested === "auto" && total > 0) {
+      const count = Math.min(LANGUAGE_SAMPLE_PAGES, total);
+      for (let i = 0; i < count; i++) {
+        const sample = pending[Math.floor((i * total) / count)];
+        samples.set(sample.page - 1, await render(sample));
+      }
+      const detected = await detectLanguages(
+        job,
+        Array.from(samples.values()).map(({ image }) => image),
+      );
+      language.languages = detected.languages;
+      language.script = detected.script;
+      language.detected = true;
+      language.samplePages = Array.from(samples.keys()).map((pageIndex) => pageIndex + 1);
+    }
+    // Empty when auto mode had no page to detect the languages of
+    language.tag = language.languages.length > 0 ? languageTag(language.languages[0]) : null;
+    const languages = language.languages.join("+");
+
+    onPage(0, total);
+    for (const report of pending) {
+      const pageIndex = report.page - 1;
+      const { image, width, height, view } = samples.get(pageIndex) ?? (await render(report));
+      samples.delete(pageIndex);
+
+      const task = job.recognize(image, languages).then((data) => {
+        // The text layer and exports follow the page's reading order
+        const { page, columns, blocks } = analyzeLayout({
+          pageIndex,
+          dpi: OCR_DPI,
+          width,
+          height,
+          view,
+          blocks: (data.blocks ?? []).map(toOcrBlock),
+        });
+
+        layouts[pageIndex] = page;
+        report.columns = columns;
+        report.blocks = blocks;
+        report.words = countWords(page);
+        Object.assign(report, measureConfidence(page, confidenceThreshold));
+        if (report.words > 0) {
+          font ??= embedGlyphlessFont(pdfDoc);
+          addTextLayer(pdfDoc, page, font);
+        }
+        onPage(++done, total);
+      });
+      inFlight.add(task);
+      task.then(() => inFlight.delete(task), () => inFlight.delete(task));
+
+      if (inFlight.size >= job.concurrency) await Promise.race(inFlight);
+    }
+    await Promise.all(inFlight);
+  } finally {
+    // Let pages still being recognized settle before the job is torn down
+    await Promise.allSettled(inFlight);
+    await renderer.close();
+  }
+
+  preprocessing.sort((a, b) => a.page - b.page);
+  return { pages: reports, layouts, language, preprocessing };
+}
+
+function toOcrBlock(block: Block): OcrBlock {
+  return {
+    bbox: block.bbox,
+    paragraphs: block.paragraphs.map((paragraph) => ({
+      bbox: paragraph.bbox,
+      lines: paragraph.lines.map((line) => ({
+        bbox: line.bbox,
+        confidence: line.confidence,
+        // The JSON output drops the core's has_baseline flag; a missing
+        // baseline comes back empty
+        baseline: line.baseline.has_baseline !== false && line.baseline.x1 > line.baseline.x0 ? line.baseline : null,
+        words: line.words
+          .filter((word) => word.text.trim() !== "")
+          .map((word) => ({ text: word.text.trim(), bbox: word.bbox, confidence: word.confidence })),
+      })),
+    })),
+  };
+}
+
+function countWords(page: OcrPage): number {
+  let words = 0;
+  page.blocks.forEach((block) =>
+    block.paragraphs.forEach((paragraph) =>
+      paragraph.lines.forEach((line) => (words += line.words.length)),
+    ),
+  );
+  return words;
+}
+
+/**
+ * Draw the recognized words in text render mode 3 (invisible) with the
+ * glyphless font. Each word starts at its box on the line's baseline and is
+ * stretched horizontally (Tz) to the box width, so selecting text in a
+ * viewer highlights the word in the image underneath.
+ */
+export function addTextLayer(pdfDoc: PDFDocument, page: OcrPage, font: PDFRef): void {
+  const { context } = pdfDoc;
+  const node = pdfDoc.getPage(page.pageIndex).node;
+  const fontName = node.newFontDictionary("OcrText", font).asString();
+
+  const scale = 72 / page.dpi;
+  const [x1, , , y2] = page.view;
+  const toX = (px: number) => x1 + px * scale;
+  const toY = (py: number) => y2 - py * scale;
+  const format = (value: number) => (Math.round(value * 1000) / 1000).toString();
+
+  const ops: string[] = ["BT", "3 Tr"];
+  for (const block of page.blocks) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        if (line.words.length === 0) continue;
+
+        // Baseline as a function of x, in pixels; without one, the line's bottom
+        const baseline = line.baseline ?? { x0: line.bbox.x0, y0: line.bbox.y1, x1: line.bbox.x1, y1: line.bbox.y1 };
+        const slope = baseline.x1 !== baseline.x0 ? (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0) : 0;
+        const baselineAt = (px: number) => baseline.y0 + slope * (px - baseline.x0);
+        const angle = Math.atan(-slope);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+
+        const fontSize = Math.max(1, (baselineAt(line.bbox.x0) - line.bbox.y0) * scale);
+        ops.push(`/${fontName} ${format(fontSize)} Tf`);
+
+        line.words.forEach((word, i) => {
+          const next = line.words[i + 1];
+          // A space after every word but the last keeps words apart when extracted
+          const text = next ? `${word.text} ` : word.text;
+          const units = text.length;
+          const width = ((next ? next.bbox.x0 : word.bbox.x1) - word.bbox.x0) * scale / cos;
+          const scaling = (width / (units * 0.5 * fontSize)) * 100;
+
+          ops.push(`${format(Math.max(1, scaling))} Tz`);
+          ops.push(
+            `${[cos, sin, -sin, cos, toX(word.bbox.x0), toY(baselineAt(word.bbox.x0))].map(format).join(" ")} Tm`,
+          );
+          ops.push(`<${utf16Hex(text)}> Tj`);
+        });
+      }
+    }
+  }
+  ops.push("ET");
+
+  // Isolate the page's own content so its graphics state cannot leak into ours
+  node.wrapContentStreams(context.register(context.stream("q")), context.register(context.stream("Q")));
+  node.addContentStream(context.register(context.flateStream(ops.join("\n"))));
+}
+
+// Text for the glyphless font's Identity-H encoding: one CID per UTF-16 unit
+function utf16Hex(text: string): string {
+  let hex = "";
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, "0");
+  return hex;
+}
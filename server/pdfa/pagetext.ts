@@ -0,0 +1,238 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFPageLeaf, PDFStream } from "pdf-lib";
+import {
+  getPageContent,
+  lookupResource,
+  operandName,
+  operandNumber,
+  parseContentStream,
+  readStreamData,
+  serializeContentStream,
+  type ContentOperand,
+  type ContentOperation,
+} from "./content";
+
+/**
+ * What text a page already carries, for deciding whether it needs OCR.
+ *
+ * Text drawn in render mode 3 or 7 paints nothing: it is how OCR layers
+ * (ours and other tools') are written, so it is counted apart from visible,
+ * born-digital text.
+ */
+
+// A page with at least this many visible characters has usable text...
+const MIN_TEXT_CHARACTERS = 100;
+// ...as does one with fewer that paints no image over this share of the
+// page: a scan with a stamped signature line or page number is still a scan
+const SCAN_COVERAGE = 0.5;
+
+const TEXT_SHOWING = new Set(["Tj", "TJ", "'", "\""]);
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export interface PageText {
+  // Characters (string bytes) shown visibly and invisibly
+  visible: number;
+  invisible: number;
+  // Largest share of the page covered by a single image, 0-1
+  imageCoverage: number;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  renderMode: number;
+}
+
+export function analyzePageText(pdfDoc: PDFDocument, pageIndex: number): PageText {
+  const page = pdfDoc.getPage(pageIndex);
+  const { width, height } = page.getCropBox();
+  const pageArea = Math.abs(width * height) || 1;
+
+  const text: PageText = { visible: 0, invisible: 0, imageCoverage: 0 };
+  const visited = new Set<PDFStream>();
+
+  const addImage = (ctm: Matrix) => {
+    // An image fills the unit square, so its area is the CTM's determinant
+    const coverage = Math.abs(ctm[0] * ctm[3] - ctm[1] * ctm[2]) / pageArea;
+    text.imageCoverage = Math.max(text.imageCoverage, Math.min(1, coverage));
+  };
+
+  const scan = (operations: ContentOperation[], resources: PDFDict | undefined, initial: GraphicsState) => {
+    let state = { ...initial };
+    const stack: GraphicsState[] = [];
+
+    for (const op of operations) {
+      switch (op.operator) {
+        case "q":
+          stack.push({ ...state });
+          break;
+        case "Q":
+          state = stack.pop() ?? state;
+          break;
+        case "cm":
+          state.ctm = multiply(toMatrix(op.operands), state.ctm);
+          break;
+        case "Tr":
+          state.renderMode = operandNumber(op.operands[0]);
+          break;
+        case "BI":
+          addImage(state.ctm);
+          break;
+        case "Do": {
+          const name = operandName(op.operands[0]);
+          const xObject = name ? lookupResource(resources, "XObject", name) : undefined;
+          if (!(xObject instanceof PDFStream)) break;
+          const subtype = xObject.dict.lookup(PDFName.of("Subtype"));
+          if (subtype === PDFName.of("Image")) {
+            addImage(state.ctm);
+          } else if (subtype === PDFName.of("Form") && !visited.has(xObject)) {
+            visited.add(xObject);
+            const matrix = xObject.dict.lookupMaybe(PDFName.of("Matrix"), PDFArray);
+            const formMatrix = matrix ? toMatrix(matrix.asArray().map(toOperand)) : IDENTITY;
+            try {
+              scan(
+                parseContentStream(readStreamData(xObject)),
+                xObject.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? resources,
+                { ...state, ctm: multiply(formMatrix, state.ctm) },
+              );
+            } catch {
+              // Undecodable form: it contributes nothing
+            }
+          }
+          break;
+        }
+        default:
+          if (TEXT_SHOWING.has(op.operator)) {
+            const characters = countShownBytes(op.operands);
+            if (isInvisible(state.renderMode)) {
+              text.invisible += characters;
+            } else {
+              text.visible += characters;
+            }
+          }
+      }
+    }
+  };
+
+  try {
+    scan(parseContentStream(getPageContent(page.node)), page.node.Resources(), { ctm: IDENTITY, renderMode: 0 });
+  } catch {
+    // Undecodable page content is treated as having no text
+  }
+  return text;
+}
+
+// Whether the page's visible text makes OCR unnecessary
+export function hasUsableText(text: PageText): boolean {
+  return text.visible >= MIN_TEXT_CHARACTERS || (text.visible > 0 && text.imageCoverage < SCAN_COVERAGE);
+}
+
+/**
+ * Drop the text objects in a page's content streams that only show
+ * invisible text (render mode 3), i.e. an earlier OCR layer; clipping text
+ * (mode 7) stays. Text objects mixing visible and invisible text are
+ * kept whole, since removing part of one would move the text after it.
+ * Returns whether anything was removed.
+ */
+export function removeInvisibleText(page: PDFPageLeaf): boolean {
+  let operations: ContentOperation[];
+  try {
+    operations = parseContentStream(getPageContent(page));
+  } catch {
+    return false;
+  }
+
+  const kept: ContentOperation[] = [];
+  const stack: number[] = [];
+  let renderMode = 0;
+  let removed = false;
+
+  // Operations of the text object being read, and what it has shown so far
+  let textObject: ContentOperation[] | null = null;
+  let showsVisible = false;
+  let showsInvisible = false;
+
+  for (const op of operations) {
+    if (op.operator === "q") stack.push(renderMode);
+    if (op.operator === "Q") renderMode = stack.pop() ?? renderMode;
+    if (op.operator === "Tr") renderMode = operandNumber(op.operands[0]);
+
+    if (op.operator === "BT") {
+      textObject = [op];
+      showsVisible = false;
+      showsInvisible = false;
+      continue;
+    }
+    if (!textObject) {
+      kept.push(op);
+      continue;
+    }
+
+    textObject.push(op);
+    if (TEXT_SHOWING.has(op.operator)) {
+      // Mode 7 also adds the text to the clipping path, which changes how
+      // the content after it renders, so only mode 3 text is removable
+      if (renderMode === 3) {
+        showsInvisible = true;
+      } else {
+        showsVisible = true;
+      }
+    }
+    if (op.operator === "ET") {
+      if (showsInvisible && !showsVisible) {
+        // Render mode set inside the object still applies after it
+        removed = true;
+        kept.push(...textObject.filter((textOp) => textOp.operator === "Tr"));
+      } else {
+        kept.push(...textObject);
+      }
+      textObject = null;
+    }
+  }
+  if (textObject) kept.push(...textObject);
+
+  if (removed) {
+    const { context } = page;
+    page.set(PDFName.of("Contents"), context.register(context.flateStream(serializeContentStream(kept))));
+  }
+  return removed;
+}
+
+function isInvisible(renderMode: number): boolean {
+  return renderMode === 3 || renderMode === 7;
+}
+
+function countShownBytes(operands: ContentOperand[]): number {
+  let count = 0;
+  for (const operand of operands) {
+    if (operand.type === "string") {
+      count += operand.value.length;
+    } else if (operand.type === "array") {
+      count += countShownBytes(operand.value);
+    }
+  }
+  return count;
+}
+
+function toMatrix(operands: ContentOperand[]): Matrix {
+  if (operands.length < 6) return IDENTITY;
+  return operands.slice(0, 6).map(operandNumber) as Matrix;
+}
+
+// An entry of a form's /Matrix array, as a content stream operand
+function toOperand(value: unknown): ContentOperand {
+  return { type: "number", value: value instanceof PDFNumber ? value.asNumber() : 0 };
+}
+
+// The product m × n, i.e. m applied in the space n maps to the page
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
@@ -0,0 +1,174 @@
+import os from "os";
+import { createWorker, OEM, type DetectData, type Page, type Worker } from "tesseract.js";
+import { assertLanguagesInstalled, TESSDATA_WORKER_OPTIONS } from "./tessdata";
+
+// Orientation and script detection needs the legacy engine, which a worker
+// can only get when created, so OSD workers are never reinitialized with
+// recognition languages or the other way around
+const OSD = "osd";
+
+interface PoolWorker {
+  worker: Worker;
+  // Languages the worker is currently initialized with, e.g. "por+eng"
+  languages: string;
+  busy: boolean;
+}
+
+interface Task {
+  job: OcrJob;
+  languages: string;
+  run: (worker: Worker) => Promise<void>;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * A bounded pool of warm tesseract.js workers, each running in its own
+ * worker thread, shared by every conversion on the server.
+ *
+ * Pages are queued across jobs in arrival order; a job never has more than
+ * `jobConcurrency` pages being recognized at once, so one large document
+ * cannot take every worker while other jobs wait. Workers are created on
+ * demand and kept alive afterwards, so only the first pages pay for loading
+ * the engine and language data.
+ */
+export class OcrPool {
+  private workers: PoolWorker[] = [];
+  private starting = 0;
+  private queue: Task[] = [];
+  private running = new Map<OcrJob, number>();
+
+  constructor(
+    readonly size: number,
+    readonly jobConcurrency: number,
+  ) {}
+
+  // Start a job: pages recognized through it share its concurrency limit
+  createJob(): OcrJob {
+    return new OcrJob(this);
+  }
+
+  recognize(job: OcrJob, image: Buffer, languages: string): Promise<Page> {
+    return this.enqueue(job, languages, async (worker) => {
+      const { data } = await worker.recognize(image, {}, { blocks: true, text: false });
+      return data;
+    });
+  }
+
+  // Orientation and script of a page image
+  detect(job: OcrJob, image: Buffer): Promise<DetectData> {
+    return this.enqueue(job, OSD, async (worker) => (await worker.detect(image)).data);
+  }
+
+  async terminate(): Promise<void> {
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(({ worker }) => worker.terminate()));
+  }
+
+  private enqueue<T>(job: OcrJob, languages: string, work: (worker: Worker) => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ job, languages, run: async (worker) => resolve(await work(worker)), reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    for (let i = 0; i < this.queue.length; i++) {
+      const task = this.queue[i];
+      if ((this.running.get(task.job) ?? 0) >= this.jobConcurrency) continue;
+
+      // Prefer an idle worker already set up for the task's languages, then a
+      // new worker, and only reinitialize another one when the pool is full.
+      // An idle worker of the other engine is retired to make room instead.
+      const idle = this.workers.filter((candidate) => !candidate.busy);
+      const compatible = idle.filter((candidate) => (candidate.languages === OSD) === (task.languages === OSD));
+      let canStart = this.workers.length + this.starting < this.size;
+      if (!canStart && compatible.length === 0 && idle.length > 0) {
+        this.retire(idle[0]);
+        canStart = true;
+      }
+      const poolWorker =
+        compatible.find((candidate) => candidate.languages === task.languages) ??
+        (canStart ? undefined : compatible[0]);
+      if (!poolWorker && !canStart) return;
+
+      this.queue.splice(i--, 1);
+      this.running.set(task.job, (this.running.get(task.job) ?? 0) + 1);
+      if (poolWorker) poolWorker.busy = true;
+      this.run(task, poolWorker);
+    }
+  }
+
+  private async run(task: Task, poolWorker: PoolWorker | undefined): Promise<void> {
+    try {
+      if (!poolWorker) {
+        this.starting++;
+        try {
+          assertLanguagesInstalled(task.languages);
+          const worker =
+            task.languages === OSD
+              ? await createWorker(OSD, OEM.TESSERACT_ONLY, { ...TESSDATA_WORKER_OPTIONS, legacyCore: true })
+              : await createWorker(task.languages, OEM.LSTM_ONLY, TESSDATA_WORKER_OPTIONS);
+          poolWorker = { worker, languages: task.languages, busy: true };
+          this.workers.push(poolWorker);
+        } finally {
+          this.starting--;
+        }
+      } else if (poolWorker.languages !== task.languages) {
+        assertLanguagesInstalled(task.languages);
+        await poolWorker.worker.reinitialize(task.languages, OEM.LSTM_ONLY);
+        poolWorker.languages = task.languages;
+      }
+
+      await task.run(poolWorker.worker);
+    } catch (error) {
+      // A worker that failed may be in any state; replace it on demand
+      if (poolWorker) {
+        this.retire(poolWorker);
+        poolWorker = undefined;
+      }
+      task.reject(error);
+    } finally {
+      if (poolWorker) poolWorker.busy = false;
+      const running = (this.running.get(task.job) ?? 1) - 1;
+      if (running > 0) {
+        this.running.set(task.job, running);
+      } else {
+        this.running.delete(task.job);
+      }
+      this.dispatch();
+    }
+  }
+
+  private retire(poolWorker: PoolWorker): void {
+    this.workers = this.workers.filter((candidate) => candidate !== poolWorker);
+    poolWorker.worker.terminate().catch(() => {});
+  }
+}
+
+// The pages of one conversion, recognized through the shared pool
+export class OcrJob {
+  constructor(private pool: OcrPool) {}
+
+  get concurrency(): number {
+    return Math.min(this.pool.jobConcurrency, this.pool.size);
+  }
+
+  recognize(image: Buffer, languages: string): Promise<Page> {
+    return this.pool.recognize(this, image, languages);
+  }
+
+  detect(image: Buffer): Promise<DetectData> {
+    return this.pool.detect(this, image);
+  }
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const poolSize = readPositiveInt("OCR_POOL_SIZE", Math.max(1, os.cpus().length - 1));
+
+// Configured with OCR_POOL_SIZE (workers) and OCR_JOB_CONCURRENCY (pages
+// of a single job recognized at once; defaults to the whole pool)
+export const ocrPool = new OcrPool(poolSize, readPositiveInt("OCR_JOB_CONCURRENCY", poolSize));
@@ -0,0 +1,260 @@
+import { createCanvas, type Canvas } from "@napi-rs/canvas";
+import { PDFDocument, PDFName, PDFNumber } from "pdf-lib";
+import type { PreprocessingOptions, PreprocessReport } from "@shared/schema";
+import type { OcrJob } from "./pool";
+
+/**
+ * Scan preprocessing ahead of OCR. Orientation and skew are corrected on
+ * both the image Tesseract reads and the page itself, so the archived page
+ * stands straight and its text layer lines up; binarization and
+ * despeckling only clean up the image Tesseract reads.
+ */
+
+// OSD confidence below which a page is left in its orientation
+const MIN_ORIENTATION_CONFIDENCE = 2;
+
+// Skew angles searched, in degrees either way, and the smallest one corrected
+const MAX_SKEW = 10;
+const MIN_SKEW = 0.25;
+// Skew is measured on a downscaled copy of the page
+const SKEW_SCALE = 0.25;
+
+// Gray level below which a pixel counts as ink when measuring skew
+const INK_THRESHOLD = 128;
+
+export interface PreprocessedPage {
+  canvas: Canvas;
+  // Degrees, counterclockwise, the page content was turned in total
+  rotation: number;
+  report: Omit<PreprocessReport, "page">;
+}
+
+/**
+ * Apply the enabled steps to a rendered page. `straighten` is false for
+ * pages with born-digital text, which keep the orientation their author
+ * gave them.
+ */
+export async function preprocessPage(
+  job: OcrJob,
+  canvas: Canvas,
+  image: Buffer,
+  options: PreprocessingOptions,
+  straighten: boolean,
+): Promise<PreprocessedPage> {
+  const report: PreprocessedPage["report"] = { orientation: 0, skew: 0, binarized: false, despeckled: false };
+
+  if (straighten && options.rotate) {
+    // Too little text to tell the orientation comes back without a
+    // confidence and leaves the page as it is; errors, such as missing OSD
+    // data, fail the page rather than silently skipping the rotation
+    const { orientation_degrees, orientation_confidence } = await job.detect(image);
+    if ((orientation_confidence ?? 0) >= MIN_ORIENTATION_CONFIDENCE) {
+      // OSD reports the clockwise turn that makes the page upright
+      report.orientation = (360 - (orientation_degrees ?? 0)) % 360;
+    }
+  }
+
+  if (straighten && options.deskew) {
+    const skew = measureSkew(report.orientation ? rotateCanvas(canvas, report.orientation, 0) : canvas);
+    if (Math.abs(skew) >= MIN_SKEW) report.skew = skew;
+  }
+
+  const rotation = report.orientation - report.skew;
+  let result = rotation ? rotateCanvas(canvas, report.orientation, -report.skew) : canvas;
+
+  if (options.binarize || options.despeckle) {
+    if (result === canvas) result = rotateCanvas(canvas, 0, 0);
+    const context = result.getContext("2d");
+    const imageData = context.getImageData(0, 0, result.width, result.height);
+    if (options.binarize) {
+      binarize(imageData.data);
+      report.binarized = true;
+    }
+    if (options.despeckle) {
+      despeckle(imageData.data, result.width, result.height);
+      report.despeckled = true;
+    }
+    context.putImageData(imageData, 0, 0);
+  }
+
+  return { canvas: result, rotation, report };
+}
+
+/**
+ * Turn the page's content by `rotation` degrees counterclockwise around
+ * the center of `view`, the page area the OCR image covers. Quarter turns
+ * in `orientation` swap the page's width and height; the page loses any
+ * /Rotate, since its content now stands upright on its own. Returns the
+ * new page area.
+ */
+export function straightenPage(
+  pdfDoc: PDFDocument,
+  pageIndex: number,
+  [x1, y1, x2, y2]: [number, number, number, number],
+  orientation: number,
+  rotation: number,
+): [number, number, number, number] {
+  const { context } = pdfDoc;
+  const node = pdfDoc.getPage(pageIndex).node;
+  const [width, height] = orientation % 180 !== 0 ? [y2 - y1, x2 - x1] : [x2 - x1, y2 - y1];
+
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const [cx, cy] = [(x1 + x2) / 2, (y1 + y2) / 2];
+  const matrix = [cos, sin, -sin, cos, width / 2 - (cos * cx - sin * cy), height / 2 - (sin * cx + cos * cy)];
+  const format = (value: number) => (Math.round(value * 10000) / 10000).toString();
+
+  node.wrapContentStreams(
+    context.register(context.stream(`q ${matrix.map(format).join(" ")} cm`)),
+    context.register(context.stream("Q")),
+  );
+  node.set(PDFName.of("MediaBox"), context.obj([0, 0, width, height]));
+  for (const box of ["CropBox", "BleedBox", "TrimBox", "ArtBox"]) node.delete(PDFName.of(box));
+  if (orientation !== 0 || node.getInheritableAttribute(PDFName.of("Rotate"))) {
+    node.set(PDFName.of("Rotate"), PDFNumber.of(0));
+  }
+  return [0, 0, width, height];
+}
+
+/**
+ * Draw `source` turned by `orientation` (a quarter-turn multiple) plus
+ * `skew` degrees, counterclockwise, on white. Skew keeps the frame of the
+ * turned page, so its corners are cropped.
+ */
+function rotateCanvas(source: Canvas, orientation: number, skew: number): Canvas {
+  const swap = orientation % 180 !== 0;
+  const width = swap ? source.height : source.width;
+  const height = swap ? source.width : source.height;
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d");
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.translate(width / 2, height / 2);
+  // Canvas y grows downwards, so a positive angle turns clockwise
+  context.rotate((-(orientation + skew) * Math.PI) / 180);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  // The native canvas applies the transform to putImageData too
+  context.resetTransform();
+  return canvas;
+}
+
+/**
+ * Angle of the text lines, counterclockwise, found by projection profiles:
+ * rows of ink are sharpest, i.e. the sum of squared row counts is largest,
+ * when projected along the lines' own angle.
+ */
+function measureSkew(source: Canvas): number {
+  const width = Math.max(1, Math.round(source.width * SKEW_SCALE));
+  const height = Math.max(1, Math.round(source.height * SKEW_SCALE));
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d");
+  context.drawImage(source, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (luminance(data, i) < INK_THRESHOLD) {
+        xs.push(x - width / 2);
+        ys.push(y - height / 2);
+      }
+    }
+  }
+  if (xs.length < 100) return 0;
+
+  const diagonal = Math.ceil(Math.sqrt(width * width + height * height));
+  const rows = new Float64Array(diagonal + 1);
+  const sharpness = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    rows.fill(0);
+    // A line rising to the right has y falling as x grows, so this levels it
+    for (let i = 0; i < xs.length; i++) rows[Math.round(ys[i] * cos + xs[i] * sin + diagonal / 2)]++;
+    let sum = 0;
+    for (let i = 0; i < rows.length; i++) sum += rows[i] * rows[i];
+    return sum;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let best = 0;
+    let bestScore = -1;
+    for (let degrees = from; degrees <= to + step / 2; degrees += step) {
+      const score = sharpness(degrees);
+      if (score > bestScore) {
+        best = degrees;
+        bestScore = score;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, 0.5);
+  return Math.round(search(coarse - 0.5, coarse + 0.5, 0.05) * 100) / 100;
+}
+
+// Otsu's threshold: the gray level best separating ink from paper
+function binarize(data: Uint8ClampedArray): void {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+
+  const total = data.length / 4;
+  let sumAll = 0;
+  for (let level = 0; level < 256; level++) sumAll += level * histogram[level];
+
+  let threshold = INK_THRESHOLD;
+  let best = -1;
+  let weightBelow = 0;
+  let sumBelow = 0;
+  for (let level = 0; level < 256; level++) {
+    weightBelow += histogram[level];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sumAll - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = level;
+    }
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    const value = luminance(data, i) <= threshold ? 0 : 255;
+    data[i] = data[i + 1] = data[i + 2] = value;
+  }
+}
+
+// Clear ink pixels with fewer than two inked neighbours: scanner dust and
+// speckle, which Tesseract would otherwise read as punctuation
+function despeckle(data: Uint8ClampedArray, width: number, height: number): void {
+  const ink = new Uint8Array(width * height);
+  for (let i = 0; i < ink.length; i++) ink[i] = luminance(data, i * 4) < INK_THRESHOLD ? 1 : 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!ink[y * width + x]) continue;
+      let neighbours = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if ((dx || dy) && nx >= 0 && ny >= 0 && nx < width && ny < height) neighbours += ink[ny * width + nx];
+        }
+      }
+      if (neighbours < 2) {
+        const i = (y * width + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 255;
+      }
+    }
+  }
+}
+
+function luminance(data: Uint8ClampedArray, i: number): number {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+}
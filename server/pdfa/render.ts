@@ -0,0 +1,80 @@
+import { createRequire } from "module";
+import path from "path";
+import { createCanvas, type Canvas } from "@napi-rs/canvas";
+import { AnnotationMode, getDocument, type PDFDocumentProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+/**
+ * Page rasterization for the stages that need pixels rather than PDF
+ * objects (transparency flattening, OCR). Pages are rendered with pdf.js on
+ * a native canvas, entirely server-side.
+ */
+
+// pdf.js reads its CMaps, standard fonts and decoders from its own package
+const PDFJS_DIR = path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json"));
+
+export interface RenderOptions {
+  dpi: number;
+  // Draw annotation appearance streams on top of the page content
+  annotations?: boolean;
+}
+
+export interface RenderedPage {
+  canvas: Canvas;
+  // Page area the canvas covers, in default user space: [x1, y1, x2, y2]
+  view: [number, number, number, number];
+}
+
+export interface PageRenderer {
+  pageCount: number;
+  renderPage(pageIndex: number, options: RenderOptions): Promise<RenderedPage>;
+  close(): Promise<void>;
+}
+
+/**
+ * Open a serialized PDF for rendering. Pages are rendered unrotated, so the
+ * canvas lines up with the page's default user space; callers must close
+ * the renderer to release pdf.js resources.
+ */
+export async function openRenderer(pdf: Uint8Array): Promise<PageRenderer> {
+  const document: PDFDocumentProxy = await getDocument({
+    // pdf.js takes ownership of the buffer it is given, and rejects Node
+    // Buffers, whose slice() is a view rather than a copy
+    data: new Uint8Array(pdf),
+    cMapUrl: `${PDFJS_DIR}/cmaps/`,
+    standardFontDataUrl: `${PDFJS_DIR}/standard_fonts/`,
+    wasmUrl: `${PDFJS_DIR}/wasm/`,
+    iccUrl: `${PDFJS_DIR}/iccs/`,
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+
+  return {
+    pageCount: document.numPages,
+
+    async renderPage(pageIndex, { dpi, annotations = false }) {
+      const page = await document.getPage(pageIndex + 1);
+      try {
+        const viewport = page.getViewport({ scale: dpi / 72, rotation: 0 });
+        const canvas = createCanvas(Math.max(1, Math.ceil(viewport.width)), Math.max(1, Math.ceil(viewport.height)));
+        const context = canvas.getContext("2d");
+        context.fillStyle = "#ffffff";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+
+        await page.render({
+          canvas: canvas as unknown as HTMLCanvasElement,
+          canvasContext: context as unknown as CanvasRenderingContext2D,
+          viewport,
+          annotationMode: annotations ? AnnotationMode.ENABLE : AnnotationMode.DISABLE,
+        }).promise;
+
+        return { canvas, view: page.view as [number, number, number, number] };
+      } finally {
+        page.cleanup();
+      }
+    },
+
+    async close() {
+      await document.destroy();
+    },
+  };
+}
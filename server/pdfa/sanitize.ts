@@ -0,0 +1,297 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFStream,
+} from "pdf-lib";
+import type { SanitizationEntry } from "@shared/schema";
+
+// Action types ISO 19005-2 clause 6.6.1 does not permit
+const FORBIDDEN_ACTIONS = new Set([
+  "Launch", "Sound", "Movie", "ResetForm", "ImportData", "Hide",
+  "SetOCGState", "Rendition", "Trans", "GoTo3DView", "JavaScript",
+]);
+
+// Named actions other than these four are forbidden as well
+const ALLOWED_NAMED_ACTIONS = new Set(["NextPage", "PrevPage", "FirstPage", "LastPage"]);
+
+// Annotation types ISO 19005-2 clause 6.3.1 does not permit
+const FORBIDDEN_ANNOTATIONS = new Set(["3D", "Sound", "Screen", "Movie", "RichMedia"]);
+
+// Annotation flags (ISO 32000-1, table 165)
+const ANNOT_INVISIBLE = 1 << 0;
+const ANNOT_HIDDEN = 1 << 1;
+const ANNOT_PRINT = 1 << 2;
+const ANNOT_NOVIEW = 1 << 5;
+const ANNOT_TOGGLE_NOVIEW = 1 << 8;
+
+/**
+ * Remove or neutralize constructs ISO 19005-2 forbids.
+ *
+ * Each removal is returned as an entry so the job result can tell the user
+ * exactly what changed. Nothing is removed that affects how a page renders,
+ * except PostScript and reference XObjects, which conforming viewers never
+ * draw anyway and which are replaced by empty forms.
+ */
+export function sanitizeDocument(pdfDoc: PDFDocument): SanitizationEntry[] {
+  const entries: SanitizationEntry[] = [];
+  const { context, catalog } = pdfDoc;
+
+  // Document-level JavaScript lives in the name tree
+  const names = catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+  if (names?.has(PDFName.of("JavaScript"))) {
+    names.delete(PDFName.of("JavaScript"));
+    entries.push({ kind: "javascript", location: "Catálogo", detail: "Árvore de nomes JavaScript removida" });
+  }
+
+  const acroForm = catalog.lookupMaybe(PDFName.of("AcroForm"), PDFDict);
+  if (acroForm?.has(PDFName.of("XFA"))) {
+    acroForm.delete(PDFName.of("XFA"));
+    entries.push({ kind: "form", location: "Formulário", detail: "Formulário XFA removido" });
+  }
+  if (acroForm?.has(PDFName.of("NeedAppearances"))) {
+    acroForm.delete(PDFName.of("NeedAppearances"));
+    entries.push({ kind: "form", location: "Formulário", detail: "NeedAppearances removido" });
+  }
+
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const annotations = page.node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+    if (!annotations) return;
+
+    for (let i = annotations.size() - 1; i >= 0; i--) {
+      const annotation = annotations.lookupMaybe(i, PDFDict);
+      if (!annotation) continue;
+      const subtype = annotation.lookup(PDFName.of("Subtype"));
+      const subtypeName = subtype instanceof PDFName ? subtype.decodeText() : "";
+      const location = `Página ${pageIndex + 1}`;
+
+      if (FORBIDDEN_ANNOTATIONS.has(subtypeName)) {
+        annotations.remove(i);
+        entries.push({ kind: "annotation", location, detail: `Anotação ${subtypeName} removida` });
+        continue;
+      }
+
+      // Annotations must print and must not be hidden (Popups are exempt)
+      if (subtypeName !== "Popup") {
+        const flags = annotation.lookupMaybe(PDFName.of("F"), PDFNumber)?.asNumber() ?? 0;
+        const fixed =
+          (flags | ANNOT_PRINT) & ~(ANNOT_INVISIBLE | ANNOT_HIDDEN | ANNOT_NOVIEW | ANNOT_TOGGLE_NOVIEW);
+        if (fixed !== flags) {
+          annotation.set(PDFName.of("F"), PDFNumber.of(fixed));
+          entries.push({ kind: "annotation", location, detail: `Sinalizadores da anotação ${subtypeName} corrigidos` });
+        }
+      }
+    }
+  });
+
+  const objects = context.enumerateIndirectObjects();
+  const graphicsStates = collectGraphicsStates(objects);
+
+  for (const [ref, object] of objects) {
+    const location = describe(ref, object, catalog);
+
+    if (object instanceof PDFStream) {
+      sanitizeDict(object.dict, graphicsStates, location, entries);
+      sanitizeStream(pdfDoc, ref, object, location, entries);
+    } else if (object instanceof PDFDict) {
+      sanitizeDict(object, graphicsStates, location, entries);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Clean one dictionary and the direct dictionaries nested in it.
+ */
+function sanitizeDict(
+  dict: PDFDict,
+  graphicsStates: Set<PDFDict>,
+  location: string,
+  entries: SanitizationEntry[],
+): void {
+  if (dict.has(PDFName.of("AA"))) {
+    dict.delete(PDFName.of("AA"));
+    entries.push({ kind: "additional_actions", location, detail: "Ações adicionais (AA) removidas" });
+  }
+
+  for (const key of ["A", "OpenAction"]) {
+    const action = dict.lookup(PDFName.of(key));
+    if (!(action instanceof PDFDict)) continue;
+
+    const forbidden = forbiddenActionType(action);
+    if (forbidden) {
+      dict.delete(PDFName.of(key));
+      entries.push({
+        kind: forbidden === "JavaScript" ? "javascript" : "action",
+        location,
+        detail: `Ação ${forbidden} removida`,
+      });
+    } else {
+      pruneNextActions(action, location, entries);
+    }
+  }
+
+  // Transfer functions are device-dependent and not allowed in ExtGState
+  if (graphicsStates.has(dict) || dict.lookup(PDFName.of("Type")) === PDFName.of("ExtGState")) {
+    if (dict.has(PDFName.of("TR"))) {
+      dict.delete(PDFName.of("TR"));
+      entries.push({ kind: "transfer_function", location, detail: "Função de transferência TR removida" });
+    }
+    const tr2 = dict.lookup(PDFName.of("TR2"));
+    if (tr2 && tr2 !== PDFName.of("Default")) {
+      dict.set(PDFName.of("TR2"), PDFName.of("Default"));
+      entries.push({ kind: "transfer_function", location, detail: "Função de transferência TR2 substituída por Default" });
+    }
+  }
+
+  for (const key of dict.keys()) {
+    const value = dict.get(key);
+    if (value instanceof PDFDict) sanitizeDict(value, graphicsStates, location, entries);
+    if (value instanceof PDFArray) {
+      for (let i = 0; i < value.size(); i++) {
+        const item = value.get(i);
+        if (item instanceof PDFDict) sanitizeDict(item, graphicsStates, location, entries);
+      }
+    }
+  }
+}
+
+function sanitizeStream(
+  pdfDoc: PDFDocument,
+  ref: PDFRef,
+  stream: PDFStream,
+  location: string,
+  entries: SanitizationEntry[],
+): void {
+  const { dict } = stream;
+
+  // External stream data: the file specification replaces the stream body
+  const external = ["F", "FFilter", "FDecodeParms"].filter((key) => dict.has(PDFName.of(key)));
+  if (external.length > 0) {
+    external.forEach((key) => dict.delete(PDFName.of(key)));
+    entries.push({
+      kind: "external_stream",
+      location,
+      detail: `Referência a arquivo externo removida (${external.join(", ")})`,
+    });
+  }
+
+  const subtype = dict.lookup(PDFName.of("Subtype"));
+  if (subtype === PDFName.of("PS") || (subtype === PDFName.of("Form") && dict.has(PDFName.of("Ref")))) {
+    // Replace with an empty form so existing Do operators stay valid
+    pdfDoc.context.assign(ref, pdfDoc.context.stream(new Uint8Array(0), {
+      Type: "XObject",
+      Subtype: "Form",
+      BBox: [0, 0, 0, 0],
+    }));
+    entries.push({
+      kind: subtype === PDFName.of("PS") ? "postscript" : "reference_xobject",
+      location,
+      detail: subtype === PDFName.of("PS")
+        ? "XObject PostScript substituído por formulário vazio"
+        : "XObject de referência externa substituído por formulário vazio",
+    });
+    return;
+  }
+
+  if (subtype === PDFName.of("Form") && dict.has(PDFName.of("PS"))) {
+    dict.delete(PDFName.of("PS"));
+    entries.push({ kind: "postscript", location, detail: "Fragmento PostScript do formulário removido" });
+  }
+
+  if (subtype === PDFName.of("Image")) {
+    for (const key of ["Alternates", "OPI"]) {
+      if (dict.has(PDFName.of(key))) {
+        dict.delete(PDFName.of(key));
+        entries.push({ kind: "image", location, detail: `Entrada ${key} da imagem removida` });
+      }
+    }
+    if (dict.lookup(PDFName.of("Interpolate")) === PDFBool.True) {
+      dict.delete(PDFName.of("Interpolate"));
+      entries.push({ kind: "image", location, detail: "Interpolação da imagem desativada" });
+    }
+  }
+}
+
+export function forbiddenActionType(action: PDFDict): string | undefined {
+  const type = action.lookup(PDFName.of("S"));
+  if (!(type instanceof PDFName)) return undefined;
+  const name = type.decodeText();
+  if (FORBIDDEN_ACTIONS.has(name)) return name;
+  if (name === "Named") {
+    const named = action.lookup(PDFName.of("N"));
+    if (!(named instanceof PDFName) || !ALLOWED_NAMED_ACTIONS.has(named.decodeText())) return "Named";
+  }
+  return undefined;
+}
+
+// Actions run in sequence through /Next; drop the forbidden links of the chain
+function pruneNextActions(action: PDFDict, location: string, entries: SanitizationEntry[]): void {
+  const next = action.lookup(PDFName.of("Next"));
+  let chain: Array<PDFObject | undefined> = [];
+  if (next instanceof PDFDict) chain = [next];
+  if (next instanceof PDFArray) chain = Array.from({ length: next.size() }, (_, i) => next.lookup(i));
+
+  const kept = chain.filter((item) => {
+    if (!(item instanceof PDFDict)) return false;
+    const forbidden = forbiddenActionType(item);
+    if (!forbidden) {
+      pruneNextActions(item, location, entries);
+      return true;
+    }
+    entries.push({
+      kind: forbidden === "JavaScript" ? "javascript" : "action",
+      location,
+      detail: `Ação encadeada ${forbidden} removida`,
+    });
+    return false;
+  });
+
+  if (kept.length === chain.length) return;
+  if (kept.length === 0) {
+    action.delete(PDFName.of("Next"));
+  } else {
+    action.set(PDFName.of("Next"), action.context.obj(kept));
+  }
+}
+
+// ExtGState dictionaries are usually untyped; find them through the
+// resource dictionaries that name them
+export function collectGraphicsStates(objects: [PDFRef, PDFObject][]): Set<PDFDict> {
+  const states = new Set<PDFDict>();
+  const visit = (dict: PDFDict) => {
+    const gstates = dict.lookupMaybe(PDFName.of("ExtGState"), PDFDict);
+    gstates?.keys().forEach((name) => {
+      const state = gstates.lookup(name);
+      if (state instanceof PDFDict) states.add(state);
+    });
+    dict.keys().forEach((key) => {
+      const value = dict.get(key);
+      if (value instanceof PDFDict) visit(value);
+    });
+  };
+
+  for (const [, object] of objects) {
+    if (object instanceof PDFDict) visit(object);
+    if (object instanceof PDFStream) visit(object.dict);
+  }
+  return states;
+}
+
+function describe(ref: PDFRef, object: PDFObject, catalog: PDFDict): string {
+  const dict = object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : undefined;
+  const type = dict?.lookup(PDFName.of("Type"));
+  const subtype = dict?.lookup(PDFName.of("Subtype"));
+  const label = [type, subtype]
+    .filter((name): name is PDFName => name instanceof PDFName)
+    .map((name) => name.decodeText())
+    .join("/");
+  if (object === catalog) return `Catálogo (${ref.toString()})`;
+  return label ? `${label} (${ref.toString()})` : `Objeto ${ref.toString()}`;
+}
@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import {
+  PDFDocument,
+  PDFHeader,
+  PDFHexString,
+  PDFArray,
+  PDFDict,
+  PDFObject,
+  PDFRef,
+  PDFStream,
+} from "pdf-lib";
+
+/**
+ * Normalize the low-level file structure to what ISO 19005 expects:
+ * a PDF 1.7 header (pdf-lib always writes the binary comment line after it)
+ * and a trailer /ID built from the original bytes when the input has none.
+ */
+export function normalizeStructure(pdfDoc: PDFDocument, input: Uint8Array): void {
+  pdfDoc.context.header = PDFHeader.forVersion(1, 7);
+
+  const existingId = pdfDoc.context.lookupMaybe(pdfDoc.context.trailerInfo.ID, PDFArray);
+  if (!existingId || existingId.size() !== 2) {
+    const digest = createHash("md5").update(input).digest("hex").toUpperCase();
+    pdfDoc.context.trailerInfo.ID = pdfDoc.context.obj([
+      PDFHexString.of(digest),
+      PDFHexString.of(digest),
+    ]);
+  }
+}
+
+/**
+ * Rewrite the version in the header of a saved file. pdf-lib's writer always
+ * emits "%PDF-1.7" whatever the context header says; replacing the single
+ * minor digit keeps every byte offset in the cross-reference table valid.
+ */
+export function setHeaderVersion(pdf: Uint8Array, [major, minor]: [number, number]): Uint8Array {
+  const header = Buffer.from(pdf.subarray(0, 8)).toString("latin1");
+  if (!/^%PDF-\d\.\d$/.test(header) || major > 9 || minor > 9) return pdf;
+  pdf.set(Buffer.from(`%PDF-${major}.${minor}`, "latin1"), 0);
+  return pdf;
+}
+
+/**
+ * Delete indirect objects nothing refers to any more, starting from the
+ * trailer. pdf-lib writes every object of the context, so content replaced
+ * by a stage would otherwise stay in the output file.
+ */
+export function removeUnusedObjects(pdfDoc: PDFDocument): number {
+  const { context } = pdfDoc;
+  const reachable = new Set<string>();
+
+  const visit = (object: PDFObject | undefined) => {
+    if (object instanceof PDFRef) {
+      if (reachable.has(object.toString())) return;
+      reachable.add(object.toString());
+      visit(context.lookup(object));
+    } else if (object instanceof PDFStream) {
+      visit(object.dict);
+    } else if (object instanceof PDFDict) {
+      object.values().forEach(visit);
+    } else if (object instanceof PDFArray) {
+      object.asArray().forEach(visit);
+    }
+  };
+  const { Root, Info, ID } = context.trailerInfo;
+  [Root, Info, ID].forEach(visit);
+
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (reachable.has(ref.toString())) continue;
+    context.delete(ref);
+    removed++;
+  }
+  return removed;
+}
@@ -0,0 +1,96 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import type { WorkerOptions } from "tesseract.js";
+import type { InstalledLanguage } from "@shared/schema";
+
+/**
+ * Tesseract language data and engine files, served from this server so OCR
+ * needs no internet access. Language data is read from a local directory,
+ * configured with TESSDATA_DIR (default: ./tessdata), holding one
+ * `<code>.traineddata` file per language, gzipped (`.traineddata.gz`) or
+ * not. Orientation detection needs `osd.traineddata`.
+ *
+ * `npm install` fills the directory from the @tesseract.js-data/*
+ * dependencies (see scripts/install-tessdata.js); run `npm run tessdata`
+ * to fill another directory after changing TESSDATA_DIR.
+ */
+
+export const TESSDATA_DIR = path.resolve(process.env.TESSDATA_DIR || "tessdata");
+
+const TRAINEDDATA_FILE = /^([a-z]{3}(?:_[a-z]+)*)\.traineddata(\.gz)?$/;
+
+const require = createRequire(import.meta.url);
+
+// The browser worker script and the directory of core WASM builds shipped
+// with the installed tesseract.js
+export const TESSERACT_WORKER_FILE = require.resolve("tesseract.js/dist/worker.min.js");
+export const TESSERACT_CORE_DIR = path.dirname(require.resolve("tesseract.js-core/package.json"));
+
+/**
+ * A recognition language the job asked for has no traineddata in the
+ * language directory.
+ */
+export class MissingLanguageError extends Error {
+  constructor(readonly languages: string[]) {
+    super(`OCR language data not installed: ${languages.join(", ")} (looked in ${TESSDATA_DIR})`);
+    this.name = "MissingLanguageError";
+  }
+}
+
+// Languages in the directory, by code; when both forms of a file exist
+// the uncompressed one is used
+export function listInstalledLanguages(): InstalledLanguage[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(TESSDATA_DIR);
+  } catch {
+    return [];
+  }
+
+  const languages = new Map<string, InstalledLanguage>();
+  for (const file of files) {
+    const match = TRAINEDDATA_FILE.exec(file);
+    if (!match) continue;
+    const [, code, gz] = match;
+    const existing = languages.get(code);
+    if (existing && !existing.compressed) continue;
+    try {
+      const stats = fs.statSync(path.join(TESSDATA_DIR, file));
+      if (stats.isFile()) languages.set(code, { code, file, size: stats.size, compressed: !!gz });
+    } catch {
+      // Vanished or unreadable: not installed
+    }
+  }
+  return Array.from(languages.values()).sort((a, b) => a.code.localeCompare(b.code));
+}
+
+// Path of the traineddata for `code`, in whichever form is installed
+export function languageDataPath(code: string): string | undefined {
+  const language = listInstalledLanguages().find((candidate) => candidate.code === code);
+  return language && path.join(TESSDATA_DIR, language.file);
+}
+
+// The codes among `codes` with no traineddata
+export function missingLanguages(codes: string[]): string[] {
+  const installed = new Set(listInstalledLanguages().map(({ code }) => code));
+  return codes.filter((code) => !installed.has(code));
+}
+
+/**
+ * Options making a Node worker read its language data from the language
+ * directory and nowhere else: uncompressed files through the read-only
+ * cache, gzipped ones through `langPath` when the cache misses.
+ */
+export const TESSDATA_WORKER_OPTIONS: Partial<WorkerOptions> = {
+  cachePath: TESSDATA_DIR,
+  cacheMethod: "readOnly",
+  langPath: TESSDATA_DIR,
+  gzip: true,
+};
+
+// Fail early, and by name, when `languages` ("por+eng") are not installed
+export function assertLanguagesInstalled(languages: string): void {
+  const missing = missingLanguages(languages.split("+"));
+  if (missing.length > 0) throw new MissingLanguageError(missing);
+}
@@ -0,0 +1,417 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPageLeaf,
+  PDFRef,
+  PDFStream,
+} from "pdf-lib";
+import type { TransparencyMode, TransparencyReport } from "@shared/schema";
+import {
+  getPageContent,
+  lookupResource,
+  operandName,
+  parseContentStream,
+  readStreamData,
+  serializeContentStream,
+  type ContentOperation,
+} from "./content";
+import { openRenderer } from "./render";
+import { removeUnusedObjects } from "./structure";
+
+type TransparencyUsage = TransparencyReport["usages"][number];
+
+const USAGE_LABELS: Record<TransparencyUsage, string> = {
+  group: "transparency group",
+  soft_mask: "soft mask",
+  constant_alpha: "constant alpha",
+  blend_mode: "blend mode",
+};
+
+// Resolution of the image that replaces a flattened page
+const FLATTEN_DPI = 200;
+const FLATTEN_JPEG_QUALITY = 90;
+
+// Operators kept, invisible, on a flattened page so its text stays
+// searchable: text objects, the transformations placing them and marked
+// content, which the structure tree of tagged documents points into
+const TEXT_OPERATORS = new Set([
+  "q", "Q", "cm", "BT", "ET", "Tc", "Tw", "Tz", "TL", "Tf", "Ts",
+  "Td", "TD", "Tm", "T*", "Tj", "TJ", "'", "\"", "BMC", "BDC", "EMC", "MP", "DP",
+]);
+
+/**
+ * The input uses transparency and the job asked to fail rather than
+ * flatten; `pages` lists every page and what it uses.
+ */
+export class TransparencyError extends Error {
+  constructor(readonly pages: TransparencyReport[], label: string) {
+    super(
+      `Transparency is not allowed in ${label}: ` +
+        pages.map((page) => `page ${page.page} (${page.usages.map((usage) => USAGE_LABELS[usage]).join(", ")})`).join("; "),
+    );
+    this.name = "TransparencyError";
+  }
+}
+
+interface PageTransparency {
+  usages: Set<TransparencyUsage>;
+  // Page and form dictionaries carrying a transparency /Group
+  groups: PDFDict[];
+  // Indexes in /Annots of annotations that are themselves transparent
+  annotations: number[];
+}
+
+/**
+ * Remove the transparency PDF/A-1 forbids, page by page.
+ *
+ * A transparency group on its own does not change how opaque content
+ * renders, so groups are simply dropped. Pages that paint with soft masks,
+ * constant alpha or blend modes are either flattened — rendered to an
+ * opaque image, with their transparent annotations, while their text is
+ * kept as invisible text — or, in `fail` mode, make the conversion throw a
+ * `TransparencyError` naming them.
+ */
+export async function removeTransparency(
+  pdfDoc: PDFDocument,
+  mode: TransparencyMode,
+  label: string,
+): Promise<TransparencyReport[]> {
+  const pages = pdfDoc.getPages();
+  const found = pages.map((page) => findPageTransparency(page.node));
+
+  const reports: TransparencyReport[] = [];
+  found.forEach(({ usages, annotations }, pageIndex) => {
+    if (usages.size === 0) return;
+    reports.push({
+      page: pageIndex + 1,
+      usages: Array.from(usages),
+      action: usages.size === 1 && usages.has("group") ? "groups_removed" : "flattened",
+      annotations: annotations.length,
+      textKept: true,
+    });
+  });
+
+  const flattened = reports.filter((report) => report.action === "flattened");
+  if (mode === "fail" && flattened.length > 0) {
+    throw new TransparencyError(flattened, label);
+  }
+
+  found.forEach(({ groups }) => groups.forEach((dict) => dict.delete(PDFName.of("Group"))));
+  if (flattened.length === 0) return reports;
+
+  // Render a copy where flattened pages keep only their transparent
+  // annotations, which are then drawn into the page image
+  const keptAnnotations = new Map<number, PDFArray>();
+  for (const { page } of flattened) {
+    const node = pages[page - 1].node;
+    const annotations = node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+    if (!annotations) continue;
+    const transparent = found[page - 1].annotations;
+    const kept = annotations.asArray().filter((_, i) => !transparent.includes(i));
+    node.set(PDFName.of("Annots"), pdfDoc.context.obj(transparent.map((i) => annotations.get(i))));
+    keptAnnotations.set(page - 1, pdfDoc.context.obj(kept));
+  }
+  const snapshot = await pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false });
+  keptAnnotations.forEach((kept, pageIndex) => {
+    if (kept.size() > 0) {
+      pages[pageIndex].node.set(PDFName.of("Annots"), kept);
+    } else {
+      pages[pageIndex].node.delete(PDFName.of("Annots"));
+    }
+  });
+
+  const renderer = await openRenderer(snapshot);
+  try {
+    for (const report of flattened) {
+      const pageIndex = report.page - 1;
+      const { canvas, view } = await renderer.renderPage(pageIndex, {
+        dpi: FLATTEN_DPI,
+        annotations: report.annotations > 0,
+      });
+      const image = await pdfDoc.embedJpg(await canvas.encode("jpeg", FLATTEN_JPEG_QUALITY));
+      report.textKept = replacePageContent(pdfDoc, pageIndex, image.ref, view);
+    }
+  } finally {
+    await renderer.close();
+  }
+
+  removeUnusedObjects(pdfDoc);
+  return reports;
+}
+
+// What the page, the forms it paints and its annotations use of
+// transparency
+export function transparencyUsages(page: PDFPageLeaf): TransparencyUsage[] {
+  return Array.from(findPageTransparency(page).usages);
+}
+
+function findPageTransparency(page: PDFPageLeaf): PageTransparency {
+  const found: PageTransparency = { usages: new Set(), groups: [], annotations: [] };
+
+  if (isTransparencyGroup(page)) {
+    found.usages.add("group");
+    found.groups.push(page);
+  }
+
+  try {
+    scanOperations(parseContentStream(getPageContent(page)), page.Resources(), found, new Set());
+  } catch {
+    // Undecodable content cannot be analyzed; annotations still are
+  }
+
+  const annotations = page.lookupMaybe(PDFName.of("Annots"), PDFArray);
+  for (let i = 0; i < (annotations?.size() ?? 0); i++) {
+    const annotation = annotations!.lookupMaybe(i, PDFDict);
+    if (!annotation) continue;
+
+    const own: PageTransparency = { usages: new Set(), groups: [], annotations: [] };
+    const alpha = annotation.lookup(PDFName.of("CA"));
+    if (alpha instanceof PDFNumber && alpha.asNumber() < 1) own.usages.add("constant_alpha");
+    appearanceStreams(annotation).forEach((stream) => scanForm(stream, undefined, own, new Set()));
+
+    own.usages.forEach((usage) => found.usages.add(usage));
+    found.groups.push(...own.groups);
+    if (Array.from(own.usages).some((usage) => usage !== "group")) found.annotations.push(i);
+  }
+
+  return found;
+}
+
+function scanOperations(
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  found: PageTransparency,
+  visited: Set<PDFStream>,
+): void {
+  for (const op of operations) {
+    if (op.operator === "gs") {
+      const name = operandName(op.operands[0]);
+      const state = name ? lookupResource(resources, "ExtGState", name) : undefined;
+      if (state instanceof PDFDict) scanGraphicsState(state, found);
+    } else if (op.operator === "Do") {
+      const name = operandName(op.operands[0]);
+      const xObject = name ? lookupResource(resources, "XObject", name) : undefined;
+      if (!(xObject instanceof PDFStream)) continue;
+      const subtype = xObject.dict.lookup(PDFName.of("Subtype"));
+      if (subtype === PDFName.of("Image")) {
+        const smask = xObject.dict.lookup(PDFName.of("SMask"));
+        const smaskInData = xObject.dict.lookup(PDFName.of("SMaskInData"));
+        if (smask instanceof PDFStream || (smaskInData instanceof PDFNumber && smaskInData.asNumber() > 0)) {
+          found.usages.add("soft_mask");
+        }
+      } else if (subtype === PDFName.of("Form")) {
+        scanForm(xObject, resources, found, visited);
+      }
+    } else if (op.operator === "scn" || op.operator === "SCN") {
+      // Patterns carry their own content (tiling) or graphics state (shading)
+      const name = operandName(op.operands[op.operands.length - 1]);
+      const pattern = name ? lookupResource(resources, "Pattern", name) : undefined;
+      if (pattern instanceof PDFStream) {
+        scanForm(pattern, resources, found, visited);
+      } else if (pattern instanceof PDFDict) {
+        const state = pattern.lookupMaybe(PDFName.of("ExtGState"), PDFDict);
+        if (state) scanGraphicsState(state, found);
+      }
+    }
+  }
+}
+
+function scanForm(
+  form: PDFStream,
+  inherited: PDFDict | undefined,
+  found: PageTransparency,
+  visited: Set<PDFStream>,
+): void {
+  if (visited.has(form)) return;
+  visited.add(form);
+
+  if (isTransparencyGroup(form.dict)) {
+    found.usages.add("group");
+    found.groups.push(form.dict);
+  }
+
+  const resources = form.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? inherited;
+  try {
+    scanOperations(parseContentStream(readStreamData(form)), resources, found, visited);
+  } catch {
+    // Undecodable form: nothing more can be said about it
+  }
+}
+
+function scanGraphicsState(state: PDFDict, found: PageTransparency): void {
+  const smask = state.lookup(PDFName.of("SMask"));
+  if (smask && smask !== PDFName.of("None")) found.usages.add("soft_mask");
+
+  for (const key of ["CA", "ca"]) {
+    const alpha = state.lookup(PDFName.of(key));
+    if (alpha instanceof PDFNumber && alpha.asNumber() < 1) found.usages.add("constant_alpha");
+  }
+
+  const blendMode = state.lookup(PDFName.of("BM"));
+  const modes = blendMode instanceof PDFArray ? blendMode.asArray() : blendMode ? [blendMode] : [];
+  if (modes.some((mode) => mode !== PDFName.of("Normal") && mode !== PDFName.of("Compatible"))) {
+    found.usages.add("blend_mode");
+  }
+}
+
+function isTransparencyGroup(dict: PDFDict): boolean {
+  const group = dict.lookupMaybe(PDFName.of("Group"), PDFDict);
+  return group?.lookup(PDFName.of("S")) === PDFName.of("Transparency");
+}
+
+function appearanceStreams(annotation: PDFDict): PDFStream[] {
+  const appearance = annotation.lookupMaybe(PDFName.of("AP"), PDFDict);
+  const streams: PDFStream[] = [];
+  for (const key of ["N", "R", "D"]) {
+    const entry = appearance?.lookup(PDFName.of(key));
+    if (entry instanceof PDFStream) {
+      streams.push(entry);
+    } else if (entry instanceof PDFDict) {
+      entry.values().forEach((value) => {
+        const stream = value instanceof PDFStream ? value : annotation.context.lookup(value);
+        if (stream instanceof PDFStream) streams.push(stream);
+      });
+    }
+  }
+  return streams;
+}
+
+/**
+ * Replace what a page paints with the rendered image, keeping its text
+ * objects in render mode 3 (invisible) on top. Text inside form XObjects is
+ * kept through text-only copies of the forms. Returns false when some
+ * content could not be decoded, so part of the page's text was lost.
+ */
+function replacePageContent(
+  pdfDoc: PDFDocument,
+  pageIndex: number,
+  image: PDFObject,
+  [x1, y1, x2, y2]: [number, number, number, number],
+): boolean {
+  const { context } = pdfDoc;
+  const page = pdfDoc.getPage(pageIndex).node;
+  const resources = page.Resources();
+
+  const copies: TextCopies = { forms: new Map(), complete: true };
+  const xObjects = context.obj({});
+  let text: ContentOperation[] = [];
+  try {
+    text = textOperations(pdfDoc, parseContentStream(getPageContent(page)), resources, xObjects, copies);
+  } catch {
+    // Undecodable content: the page keeps only its image
+    copies.complete = false;
+  }
+
+  // Kept forms are painted under their original names
+  let imageName = "Flattened";
+  while (xObjects.has(PDFName.of(imageName))) imageName += "_";
+  xObjects.set(PDFName.of(imageName), image);
+
+  const operations: ContentOperation[] = [
+    { operator: "q", operands: [] },
+    {
+      operator: "cm",
+      operands: [x2 - x1, 0, 0, y2 - y1, x1, y1].map((value) => ({ type: "number" as const, value })),
+    },
+    { operator: "Do", operands: [{ type: "name", value: imageName }] },
+    { operator: "Q", operands: [] },
+    { operator: "q", operands: [] },
+    { operator: "Tr", operands: [{ type: "number", value: 3 }] },
+    ...text,
+    { operator: "Q", operands: [] },
+  ];
+
+  page.set(PDFName.of("Contents"), context.register(context.flateStream(serializeContentStream(operations))));
+  page.set(PDFName.of("Resources"), textResources(pdfDoc, resources, xObjects));
+  page.delete(PDFName.of("Group"));
+  return copies.complete;
+}
+
+interface TextCopies {
+  // The text-only copy of each form met so far, null for forms without text
+  forms: Map<PDFStream, PDFRef | null>;
+  // False once some form could not be decoded
+  complete: boolean;
+}
+
+// The operations of a content stream that place text, made invisible.
+// Forms it paints are replaced by text-only copies, added to `xObjects`
+// under the name they are painted with.
+function textOperations(
+  pdfDoc: PDFDocument,
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  xObjects: PDFDict,
+  copies: TextCopies,
+): ContentOperation[] {
+  const kept: ContentOperation[] = [];
+  for (const op of operations) {
+    if (op.operator === "Tr") {
+      kept.push({ operator: "Tr", operands: [{ type: "number", value: 3 }] });
+    } else if (op.operator === "Do") {
+      const name = operandName(op.operands[0]);
+      const xObject = name ? lookupResource(resources, "XObject", name) : undefined;
+      if (!name || !(xObject instanceof PDFStream)) continue;
+      if (xObject.dict.lookup(PDFName.of("Subtype")) !== PDFName.of("Form")) continue;
+      const copy = textForm(pdfDoc, xObject, resources, copies);
+      if (!copy) continue;
+      xObjects.set(PDFName.of(name), copy);
+      kept.push(op);
+    } else if (TEXT_OPERATORS.has(op.operator)) {
+      kept.push(op);
+    }
+  }
+  return kept;
+}
+
+// A copy of `form` painting only its text, or undefined when it has none
+function textForm(
+  pdfDoc: PDFDocument,
+  form: PDFStream,
+  inherited: PDFDict | undefined,
+  copies: TextCopies,
+): PDFRef | undefined {
+  // Also stops forms that paint themselves
+  if (copies.forms.has(form)) return copies.forms.get(form) ?? undefined;
+  copies.forms.set(form, null);
+
+  const resources = form.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? inherited;
+  const xObjects = pdfDoc.context.obj({});
+  let text: ContentOperation[];
+  try {
+    text = textOperations(pdfDoc, parseContentStream(readStreamData(form)), resources, xObjects, copies);
+  } catch {
+    copies.complete = false;
+    return undefined;
+  }
+  if (!text.some((op) => op.operator === "BT" || op.operator === "Do")) return undefined;
+
+  const copy = pdfDoc.context.flateStream(serializeContentStream(text), {
+    Type: "XObject",
+    Subtype: "Form",
+    Resources: textResources(pdfDoc, resources, xObjects),
+  });
+  for (const key of ["BBox", "Matrix"]) {
+    const value = form.dict.get(PDFName.of(key));
+    if (value) copy.dict.set(PDFName.of(key), value);
+  }
+  const ref = pdfDoc.context.register(copy);
+  copies.forms.set(form, ref);
+  return ref;
+}
+
+// Resources for kept text: the fonts and marked content properties of
+// `resources`, and the kept forms
+function textResources(pdfDoc: PDFDocument, resources: PDFDict | undefined, xObjects: PDFDict): PDFDict {
+  const kept = pdfDoc.context.obj({});
+  for (const key of ["Font", "Properties"]) {
+    const value = resources?.get(PDFName.of(key));
+    if (value) kept.set(PDFName.of(key), value);
+  }
+  if (xObjects.keys().length > 0) kept.set(PDFName.of("XObject"), xObjects);
+  return kept;
+}
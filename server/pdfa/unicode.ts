@@ -0,0 +1,339 @@
+import fontkit, { type Font } from "@pdf-lib/fontkit";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFStream,
+} from "pdf-lib";
+import type { UnicodeReport } from "@shared/schema";
+import {
+  forEachContentStream,
+  lookupResource,
+  operandName,
+  parseContentStream,
+  readStreamData,
+  type ContentOperand,
+} from "./content";
+import { STANDARD_ENCODING, glyphNameToUnicode, resolveSimpleEncoding } from "./encodings";
+
+interface FontUsage {
+  // Byte length of one character code in strings shown with this font
+  codeLength: number;
+  // Character code -> zero-based pages it is shown on
+  codes: Map<number, Set<number>>;
+}
+
+/**
+ * Make sure every character code shown with each font maps to Unicode.
+ *
+ * Existing ToUnicode CMaps are kept where they give a valid value (PDF/A-2
+ * forbids U+0000, U+FEFF and U+FFFE). Codes they miss are filled from the
+ * font's encoding and Differences glyph names, or from the embedded font
+ * program's cmap and glyph names, and a merged CMap replaces the old one.
+ * Composite fonts with a predefined CJK CMap already map to Unicode through
+ * their registry and ordering and are left untouched.
+ */
+export function ensureUnicodeMappings(pdfDoc: PDFDocument): UnicodeReport[] {
+  const reports: UnicodeReport[] = [];
+
+  for (const [fontDict, usage] of Array.from(collectFontUsage(pdfDoc))) {
+    const name = fontName(fontDict);
+
+    if (usage.codeLength === 0) {
+      reports.push({ font: name, status: "not_required", mappedCodes: usage.codes.size, unmappedGlyphs: [], pages: [] });
+      continue;
+    }
+
+    const existing = readExistingToUnicode(fontDict);
+    const synthesize = unicodeSource(fontDict);
+    const merged = new Map(existing);
+    const unmapped = new Map<string, Set<number>>();
+    let added = 0;
+
+    for (const [code, pages] of Array.from(usage.codes)) {
+      if (isValidUnicode(merged.get(code))) continue;
+      const value = synthesize(code);
+      if (isValidUnicode(value)) {
+        merged.set(code, value!);
+        added++;
+      } else {
+        merged.delete(code);
+        const label = glyphLabel(fontDict, code, usage.codeLength);
+        const labelPages = unmapped.get(label) ?? new Set<number>();
+        pages.forEach((page) => labelPages.add(page));
+        unmapped.set(label, labelPages);
+      }
+    }
+
+    let status: UnicodeReport["status"] = "present";
+    if (added > 0) {
+      status = existing.size > 0 ? "repaired" : "generated";
+      const cmap = buildToUnicodeCMap(merged, usage.codeLength);
+      fontDict.set(PDFName.of("ToUnicode"), pdfDoc.context.register(pdfDoc.context.flateStream(cmap)));
+    }
+
+    const affectedPages = new Set<number>();
+    unmapped.forEach((pages) => pages.forEach((page) => affectedPages.add(page + 1)));
+    reports.push({
+      font: name,
+      status,
+      mappedCodes: usage.codes.size - unmapped.size,
+      unmappedGlyphs: Array.from(unmapped.keys()),
+      pages: Array.from(affectedPages).sort((a, b) => a - b),
+    });
+  }
+
+  return reports;
+}
+
+function collectFontUsage(pdfDoc: PDFDocument): Map<PDFDict, FontUsage> {
+  const usage = new Map<PDFDict, FontUsage>();
+
+  forEachContentStream(pdfDoc, ({ operations, resources, pageIndex }) => {
+    let current: FontUsage | undefined;
+
+    const addString = (operand: ContentOperand | undefined) => {
+      if (!current || current.codeLength === 0 || operand?.type !== "string") return;
+      const bytes = operand.value;
+      for (let i = 0; i + current.codeLength <= bytes.length; i += current.codeLength) {
+        let code = 0;
+        for (let b = 0; b < current.codeLength; b++) code = (code << 8) | bytes[i + b];
+        const pages = current.codes.get(code) ?? new Set<number>();
+        pages.add(pageIndex);
+        current.codes.set(code, pages);
+      }
+    };
+
+    for (const op of operations) {
+      switch (op.operator) {
+        case "Tf": {
+          const name = operandName(op.operands[0]);
+          const font = name ? lookupResource(resources, "Font", name) : undefined;
+          current = undefined;
+          if (font instanceof PDFDict) {
+            current = usage.get(font);
+            if (!current) {
+              current = { codeLength: codeLength(font), codes: new Map() };
+              usage.set(font, current);
+            }
+          }
+          break;
+        }
+        case "Tj":
+        case "'":
+          addString(op.operands[0]);
+          break;
+        case '"':
+          addString(op.operands[2]);
+          break;
+        case "TJ": {
+          const items = op.operands[0];
+          if (items?.type === "array") items.value.forEach(addString);
+          break;
+        }
+      }
+    }
+  });
+
+  return usage;
+}
+
+/**
+ * Byte length of the character codes of a font, or 0 for composite fonts
+ * whose predefined CMap makes a ToUnicode entry unnecessary.
+ */
+function codeLength(fontDict: PDFDict): number {
+  if (fontDict.lookup(PDFName.of("Subtype")) !== PDFName.of("Type0")) return 1;
+
+  const encoding = fontDict.lookup(PDFName.of("Encoding"));
+  if (encoding === PDFName.of("Identity-H") || encoding === PDFName.of("Identity-V")) return 2;
+  if (encoding instanceof PDFStream) {
+    try {
+      const ranges = parseContentStream(readStreamData(encoding)).find((op) => op.operator === "endcodespacerange");
+      const first = ranges?.operands[0];
+      if (first?.type === "string") return first.value.length;
+    } catch {
+      // Fall through to the common two-byte case
+    }
+    return 2;
+  }
+  return 0;
+}
+
+function readExistingToUnicode(fontDict: PDFDict): Map<number, string> {
+  const mapping = new Map<number, string>();
+  const stream = fontDict.lookup(PDFName.of("ToUnicode"));
+  if (!(stream instanceof PDFStream)) return mapping;
+
+  let operations;
+  try {
+    operations = parseContentStream(readStreamData(stream));
+  } catch {
+    return mapping;
+  }
+
+  const toNumber = (bytes: Uint8Array) => bytes.reduce((value, byte) => value * 256 + byte, 0);
+  const toText = (bytes: Uint8Array) => {
+    let text = "";
+    for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return text;
+  };
+
+  for (const op of operations) {
+    if (op.operator === "endbfchar") {
+      for (let i = 0; i + 1 < op.operands.length; i += 2) {
+        const [source, target] = [op.operands[i], op.operands[i + 1]];
+        if (source.type === "string" && target.type === "string") {
+          mapping.set(toNumber(source.value), toText(target.value));
+        }
+      }
+    } else if (op.operator === "endbfrange") {
+      for (let i = 0; i + 2 < op.operands.length; i += 3) {
+        const [low, high, target] = [op.operands[i], op.operands[i + 1], op.operands[i + 2]];
+        if (low.type !== "string" || high.type !== "string") continue;
+        const start = toNumber(low.value);
+        const end = Math.min(toNumber(high.value), start + 0xffff);
+        for (let code = start; code <= end; code++) {
+          if (target.type === "array") {
+            const item = target.value[code - start];
+            if (item?.type === "string") mapping.set(code, toText(item.value));
+          } else if (target.type === "string") {
+            // Only the last byte of the destination is incremented
+            const bytes = Uint8Array.from(target.value);
+            bytes[bytes.length - 1] += code - start;
+            mapping.set(code, toText(bytes));
+          }
+        }
+      }
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Build the fallback code -> Unicode lookup for a font from what the font
+ * itself declares: simple font encodings first, then the embedded program.
+ */
+function unicodeSource(fontDict: PDFDict): (code: number) => string | undefined {
+  const subtype = fontDict.lookup(PDFName.of("Subtype"));
+
+  if (subtype === PDFName.of("Type0")) {
+    const descendant = fontDict.lookupMaybe(PDFName.of("DescendantFonts"), PDFArray)?.lookupMaybe(0, PDFDict);
+    const program = descendant ? loadFontProgram(descendant) : undefined;
+    if (!descendant || !program) return () => undefined;
+
+    const cidToGid = descendant.lookup(PDFName.of("CIDToGIDMap"));
+    const gidMap = cidToGid instanceof PDFStream ? readStreamData(cidToGid) : undefined;
+    return (cid) => {
+      const gid = gidMap ? (gidMap[cid * 2] << 8) | gidMap[cid * 2 + 1] : cid;
+      return gid ? glyphUnicode(program, gid) : undefined;
+    };
+  }
+
+  const descriptor = fontDict.lookupMaybe(PDFName.of("FontDescriptor"), PDFDict);
+  const flags = descriptor?.lookupMaybe(PDFName.of("Flags"), PDFNumber)?.asNumber() ?? 0;
+  const symbolic = (flags & 4) !== 0 && (flags & 32) === 0;
+  const encodingEntry = fontDict.lookup(PDFName.of("Encoding"));
+
+  // Symbolic fonts without /Encoding use the program's built-in encoding
+  const encoding =
+    symbolic && !encodingEntry
+      ? new Array<string | undefined>(256).fill(undefined)
+      : resolveSimpleEncoding(encodingEntry, STANDARD_ENCODING);
+  const program = loadFontProgram(fontDict);
+
+  return (code) => {
+    const glyphName = encoding[code];
+    if (glyphName) {
+      const text = glyphNameToUnicode(glyphName);
+      if (text) return text;
+    }
+    if (!program) return undefined;
+    // Symbolic TrueType fonts map codes through the (3,0) cmap at U+F0xx
+    for (const candidate of [0xf000 + code, code]) {
+      const glyph = program.glyphForCodePoint(candidate);
+      if (glyph && glyph.id !== 0) return glyphUnicode(program, glyph.id);
+    }
+    return undefined;
+  };
+}
+
+function loadFontProgram(fontDict: PDFDict): Font | undefined {
+  const descriptor = fontDict.lookupMaybe(PDFName.of("FontDescriptor"), PDFDict);
+  const file = descriptor?.lookup(PDFName.of("FontFile2")) ?? descriptor?.lookup(PDFName.of("FontFile3"));
+  if (!(file instanceof PDFStream)) return undefined;
+  try {
+    return fontkit.create(readStreamData(file));
+  } catch {
+    // Bare CFF and Type 1 programs are not readable by fontkit
+    return undefined;
+  }
+}
+
+function glyphUnicode(program: Font, gid: number): string | undefined {
+  try {
+    const glyph = program.getGlyph(gid);
+    const codePoints = glyph.codePoints.filter((cp) => cp < 0xe000 || cp > 0xf8ff);
+    if (codePoints.length > 0) return String.fromCodePoint(...codePoints);
+    // fontkit exposes post/CFF glyph names but does not declare them
+    const { name } = glyph as typeof glyph & { name?: string };
+    return name ? glyphNameToUnicode(name) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isValidUnicode(value: string | undefined): boolean {
+  if (!value) return false;
+  return !Array.from(value).some((ch) => ch === "\u0000" || ch === "\ufeff" || ch === "\ufffe");
+}
+
+function glyphLabel(fontDict: PDFDict, code: number, length: number): string {
+  if (length === 1) {
+    const encoding = resolveSimpleEncoding(fontDict.lookup(PDFName.of("Encoding")), STANDARD_ENCODING);
+    if (encoding[code]) return `${encoding[code]} (0x${code.toString(16).padStart(2, "0")})`;
+  }
+  return `0x${code.toString(16).padStart(length * 2, "0")}`;
+}
+
+function fontName(fontDict: PDFDict): string {
+  const baseFont = fontDict.lookup(PDFName.of("BaseFont"));
+  return baseFont instanceof PDFName ? baseFont.decodeText().replace(/^[A-Z]{6}\+/, "") : "(Type 3)";
+}
+
+export function buildToUnicodeCMap(mapping: Map<number, string>, codeLength: number): Uint8Array {
+  const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, "0");
+  const utf16 = (text: string) =>
+    Array.from({ length: text.length }, (_, i) => hex(text.charCodeAt(i), 4)).join("");
+
+  const entries = Array.from(mapping.entries()).sort((a, b) => a[0] - b[0]);
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    blocks.push(
+      `${chunk.length} beginbfchar\n` +
+        chunk.map(([code, text]) => `<${hex(code, codeLength * 2)}> <${utf16(text)}>`).join("\n") +
+        "\nendbfchar",
+    );
+  }
+
+  const maxCode = hex(Math.pow(256, codeLength) - 1, codeLength * 2);
+  const cmap = `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def
+/CMapName /Adobe-Identity-UCS def
+/CMapType 2 def
+1 begincodespacerange
+<${"0".repeat(codeLength * 2)}> <${maxCode}>
+endcodespacerange
+${blocks.join("\n")}
+endcmap
+CMapName currentdict /CMap defineresource pop
+end
+end`;
+
+  return new TextEncoder().encode(cmap);
+}
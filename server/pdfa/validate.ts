@@ -0,0 +1,788 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from "pdf-lib";
+import {
+  pdfaConformanceLabel,
+  type PdfaConformance,
+  type ValidationCategory,
+  type ValidationResult,
+  type ValidationViolation,
+} from "@shared/schema";
+import { findDeviceColorSpaces } from "./color";
+import { forEachContentStream, lookupResource, operandName, readStreamData } from "./content";
+import { isAdobeGlyphName } from "./encodings";
+import { hasFontProgram } from "./fonts";
+import { classifyEmbeddedFile, hasFilter } from "./levels";
+import { PDFAID_NAMESPACE, readIdentification, readXmp, unescapeXml, xmpNamespaces, xmpProperty } from "./metadata";
+import { collectGraphicsStates, forbiddenActionType } from "./sanitize";
+import { transparencyUsages } from "./transparency";
+
+/**
+ * Check a PDF against the rules of ISO 19005 parts 1, 2 and 3: file
+ * structure, encryption, metadata, fonts, color, transparency, graphics,
+ * annotations, actions, forms, embedded files and, at level A, logical
+ * structure.
+ *
+ * The checks are the ones the conversion stages depend on, so a file the
+ * converter produced validates exactly when every stage succeeded. They do
+ * not cover everything a full validator does: content stream syntax, font
+ * program internals and ICC profile contents are not examined.
+ */
+
+type Part = 1 | 2 | 3;
+
+interface Rule {
+  category: ValidationCategory;
+  // Clause in parts 1, 2 and 3; null where the part does not have the rule
+  clauses: [string | null, string | null, string | null];
+}
+
+const RULES = {
+  header: { category: "file_structure", clauses: ["6.1.2", "6.1.2", "6.1.2"] },
+  trailer: { category: "file_structure", clauses: ["6.1.3", "6.1.3", "6.1.3"] },
+  encryption: { category: "encryption", clauses: ["6.1.3", "6.1.3", "6.1.3"] },
+  external_stream: { category: "file_structure", clauses: ["6.1.7", "6.1.7.1", "6.1.7.1"] },
+  filter: { category: "file_structure", clauses: ["6.1.10", "6.1.7.2", "6.1.7.2"] },
+  optional_content: { category: "file_structure", clauses: ["6.1.13", "6.9", "6.9"] },
+  embedded_files: { category: "embedded_files", clauses: ["6.1.11", "6.8", null] },
+  associated_files: { category: "embedded_files", clauses: [null, null, "6.8"] },
+  output_intent: { category: "color", clauses: ["6.2.2", "6.2.3", "6.2.3"] },
+  device_color: { category: "color", clauses: ["6.2.3.3", "6.2.4.3", "6.2.4.3"] },
+  graphics_state: { category: "graphics", clauses: ["6.2.8", "6.2.5", "6.2.5"] },
+  image: { category: "graphics", clauses: ["6.2.4", "6.2.8", "6.2.8"] },
+  form_xobject: { category: "graphics", clauses: ["6.2.5", "6.2.9", "6.2.9"] },
+  reference_xobject: { category: "graphics", clauses: ["6.2.6", "6.2.9", "6.2.9"] },
+  postscript: { category: "graphics", clauses: ["6.2.7", "6.2.9", "6.2.9"] },
+  transparency: { category: "transparency", clauses: ["6.4", null, null] },
+  font_embedding: { category: "fonts", clauses: ["6.3.4", "6.2.11.4.1", "6.2.11.4.1"] },
+  cid_to_gid: { category: "fonts", clauses: ["6.3.3.2", "6.2.11.3.2", "6.2.11.3.2"] },
+  unicode: { category: "fonts", clauses: ["6.3.8", "6.2.11.7.2", "6.2.11.7.2"] },
+  annotation_type: { category: "annotations", clauses: ["6.5.2", "6.3.1", "6.3.1"] },
+  annotation: { category: "annotations", clauses: ["6.5.3", "6.3.2", "6.3.2"] },
+  appearance: { category: "annotations", clauses: [null, "6.3.3", "6.3.3"] },
+  action: { category: "actions", clauses: ["6.6.1", "6.6.1", "6.6.1"] },
+  additional_actions: { category: "actions", clauses: ["6.6.2", "6.6.2", "6.6.2"] },
+  form: { category: "forms", clauses: ["6.9", "6.4.1", "6.4.1"] },
+  xfa: { category: "forms", clauses: [null, "6.4.2", "6.4.2"] },
+  metadata: { category: "metadata", clauses: ["6.7.2", "6.6.2.1", "6.6.2.1"] },
+  identification: { category: "metadata", clauses: ["6.7.11", "6.6.4", "6.6.4"] },
+  document_info: { category: "metadata", clauses: ["6.7.3", null, null] },
+  extension_schema: { category: "metadata", clauses: ["6.7.8", "6.6.2.3.1", "6.6.2.3.1"] },
+  mark_info: { category: "structure", clauses: ["6.8.2.2", "6.7.2.2", "6.7.2.2"] },
+  structure_tree: { category: "structure", clauses: ["6.8.3.3", "6.7.3.3", "6.7.3.3"] },
+} satisfies Record<string, Rule>;
+
+type RuleId = keyof typeof RULES;
+
+// Files that claim no conformance are checked against the most common level
+const DEFAULT_PROFILE: PdfaConformance = { part: 2, conformance: "B" };
+
+// Annotation types of the PDF version each part is based on, less the ones
+// the part forbids (Sound, Movie and, in part 1, FileAttachment; 3D and
+// Screen in parts 2 and 3)
+const PART1_ANNOTATIONS = new Set([
+  "Text", "Link", "FreeText", "Line", "Square", "Circle", "Highlight", "Underline", "Squiggly",
+  "StrikeOut", "Stamp", "Ink", "Popup", "Widget", "PrinterMark", "TrapNet",
+]);
+const PART2_ANNOTATIONS = new Set([
+  ...Array.from(PART1_ANNOTATIONS), "Polygon", "PolyLine", "Caret", "FileAttachment", "Watermark", "Redact",
+]);
+
+// Annotation flags (ISO 32000-1, table 165)
+const ANNOT_INVISIBLE = 1 << 0;
+const ANNOT_HIDDEN = 1 << 1;
+const ANNOT_PRINT = 1 << 2;
+const ANNOT_NOVIEW = 1 << 5;
+const ANNOT_TOGGLE_NOVIEW = 1 << 8;
+
+// Simple fonts with these encodings map to Unicode without a ToUnicode CMap
+const UNICODE_ENCODINGS = new Set(["MacRomanEncoding", "MacExpertEncoding", "WinAnsiEncoding"]);
+// Nor do composite fonts with a predefined CMap for these character collections
+const UNICODE_ORDERINGS = new Set(["GB1", "CNS1", "Japan1", "Korea1"]);
+
+const TRANSPARENCY_LABELS: Record<string, string> = {
+  group: "grupo de transparência",
+  soft_mask: "máscara suave",
+  constant_alpha: "opacidade constante",
+  blend_mode: "modo de mesclagem",
+};
+
+// Namespaces ISO 19005 predefines: XMP's own schemas and those of the
+// PDF/A identification and extension mechanisms
+const PREDEFINED_NAMESPACES = new Set([
+  "adobe:ns:meta/",
+  "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  "http://purl.org/dc/elements/1.1/",
+  "http://ns.adobe.com/xap/1.0/",
+  "http://ns.adobe.com/xap/1.0/rights/",
+  "http://ns.adobe.com/xap/1.0/mm/",
+  "http://ns.adobe.com/xap/1.0/bj/",
+  "http://ns.adobe.com/xap/1.0/t/pg/",
+  "http://ns.adobe.com/xap/1.0/g/",
+  "http://ns.adobe.com/xap/1.0/g/img/",
+  "http://ns.adobe.com/xap/1.0/sType/Dimensions#",
+  "http://ns.adobe.com/xap/1.0/sType/Font#",
+  "http://ns.adobe.com/xap/1.0/sType/ResourceEvent#",
+  "http://ns.adobe.com/xap/1.0/sType/ResourceRef#",
+  "http://ns.adobe.com/xap/1.0/sType/Version#",
+  "http://ns.adobe.com/xap/1.0/sType/Job#",
+  "http://ns.adobe.com/xmp/Identifier/qual/1.0/",
+  "http://ns.adobe.com/xmp/1.0/DynamicMedia/",
+  "http://ns.adobe.com/pdf/1.3/",
+  "http://ns.adobe.com/photoshop/1.0/",
+  "http://ns.adobe.com/camera-raw-settings/1.0/",
+  "http://ns.adobe.com/tiff/1.0/",
+  "http://ns.adobe.com/exif/1.0/",
+  "http://ns.adobe.com/exif/1.0/aux/",
+  PDFAID_NAMESPACE,
+  "http://www.aiim.org/pdfa/ns/extension/",
+  "http://www.aiim.org/pdfa/ns/schema#",
+  "http://www.aiim.org/pdfa/ns/property#",
+  "http://www.aiim.org/pdfa/ns/type#",
+  "http://www.aiim.org/pdfa/ns/field#",
+]);
+
+/**
+ * Validate `data` against `profile`, or against the part and level its
+ * metadata claims when no profile is given.
+ */
+export async function validatePdfA(data: Uint8Array, profile?: PdfaConformance): Promise<ValidationResult> {
+  const pdfDoc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  const xmp = readXmp(pdfDoc);
+  const claimed = xmp ? readIdentification(xmp) : null;
+  const checked = profile ?? (claimed && isKnownProfile(claimed) ? claimed : DEFAULT_PROFILE);
+  const part = Math.min(3, Math.max(1, checked.part)) as Part;
+
+  const violations: ValidationViolation[] = [];
+  const seen = new Set<string>();
+  const report = (rule: RuleId, object: PDFRef | null, page: number | null, message: string) => {
+    const clause = RULES[rule].clauses[part - 1];
+    if (!clause) return;
+    const violation = { clause, category: RULES[rule].category, object: object?.toString() ?? null, page, message };
+    const key = `${clause}|${violation.object}|${message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    violations.push(violation);
+  };
+
+  const checker: Checker = { pdfDoc, part, conformance: checked.conformance, report, ...indexObjects(pdfDoc) };
+  checkFileStructure(data, checker);
+  checkMetadata(xmp, claimed, checked, profile !== undefined, checker);
+  checkObjects(checker);
+  checkPages(checker);
+  checkFonts(checker);
+  checkColor(checker);
+  await checkEmbeddedFiles(checker);
+  checkOptionalContent(checker);
+  if (checked.conformance === "A") checkStructure(checker);
+
+  return {
+    claimed,
+    profile: checked,
+    compliant: violations.length === 0,
+    violations,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+interface Checker {
+  pdfDoc: PDFDocument;
+  part: Part;
+  conformance: string;
+  report: (rule: RuleId, object: PDFRef | null, page: number | null, message: string) => void;
+  // The reference of each indirect object
+  refOf: Map<PDFObject, PDFRef>;
+  // One-based page each indirect object reached from a page belongs to
+  pageOf: Map<PDFRef, number>;
+}
+
+function isKnownProfile({ part, conformance }: PdfaConformance): boolean {
+  return part === 1 ? ["A", "B"].includes(conformance) : (part === 2 || part === 3) && ["A", "B", "U"].includes(conformance);
+}
+
+// Objects reached from a page, not through another page, belong to it; the
+// first page that reaches a shared object gets it
+function indexObjects(pdfDoc: PDFDocument): Pick<Checker, "refOf" | "pageOf"> {
+  const refOf = new Map<PDFObject, PDFRef>();
+  const byNumber = new Map<string, PDFRef>();
+  for (const [ref, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    refOf.set(object, ref);
+    byNumber.set(ref.toString(), ref);
+  }
+
+  const pages = pdfDoc.getPages();
+  const pageNodes = new Set<PDFObject>(pages.map((page) => page.node));
+  const pageOf = new Map<PDFRef, number>();
+  pages.forEach((page, pageIndex) => {
+    const visit = (object: PDFObject | undefined) => {
+      if (object instanceof PDFRef) {
+        const ref = byNumber.get(object.toString());
+        if (!ref || pageOf.has(ref)) return;
+        const target = pdfDoc.context.lookup(ref);
+        if (pageNodes.has(target as PDFObject)) return;
+        pageOf.set(ref, pageIndex + 1);
+        visit(target);
+      } else if (object instanceof PDFStream) {
+        visit(object.dict);
+      } else if (object instanceof PDFDict) {
+        for (const [key, value] of object.entries()) {
+          if (key !== PDFName.of("Parent") && key !== PDFName.of("P")) visit(value);
+        }
+      } else if (object instanceof PDFArray) {
+        object.asArray().forEach(visit);
+      }
+    };
+    const ref = refOf.get(page.node);
+    if (ref) pageOf.set(ref, pageIndex + 1);
+    visit(page.node);
+  });
+
+  return { refOf, pageOf };
+}
+
+// Header, binary comment, trailer and end of file, read from the bytes
+function checkFileStructure(data: Uint8Array, { pdfDoc, report }: Checker): void {
+  const start = Buffer.from(data.subarray(0, 1024)).toString("latin1");
+  if (!/^%PDF-\d\.\d/.test(start)) {
+    report("header", null, null, "O arquivo não começa com o cabeçalho %PDF-n.m");
+  } else {
+    // The header line is followed by a comment of at least four bytes above 127
+    const lineEnd = /\r\n|\r|\n/.exec(start);
+    const comment = lineEnd ? data.subarray(lineEnd.index + lineEnd[0].length, lineEnd.index + lineEnd[0].length + 5) : null;
+    if (!comment || comment[0] !== 0x25 || comment.length < 5 || Array.from(comment.subarray(1)).some((byte) => byte < 128)) {
+      report("header", null, null, "Falta o comentário binário (4 bytes acima de 127) após o cabeçalho");
+    }
+  }
+
+  const tail = Buffer.from(data.subarray(Math.max(0, data.length - 1024))).toString("latin1");
+  const eof = tail.lastIndexOf("%%EOF");
+  if (eof === -1) {
+    report("trailer", null, null, "O marcador %%EOF não foi encontrado no fim do arquivo");
+  } else if (!/^(\r\n|\r|\n)?$/.test(tail.slice(eof + 5))) {
+    report("trailer", null, null, "Há dados após o último marcador %%EOF");
+  }
+
+  const { trailerInfo } = pdfDoc.context;
+  const id = pdfDoc.context.lookup(trailerInfo.ID);
+  if (!(id instanceof PDFArray) || id.size() !== 2) {
+    report("trailer", null, null, "O trailer não contém o identificador do arquivo (ID)");
+  }
+  if (trailerInfo.Encrypt) {
+    report("encryption", null, null, "O arquivo está criptografado (Encrypt no trailer)");
+  }
+}
+
+/**
+ * Every indirect object and the direct dictionaries in it: streams,
+ * images, XObjects, graphics states, actions and forms.
+ */
+function checkObjects({ pdfDoc, part, report, pageOf }: Checker): void {
+  const objects = pdfDoc.context.enumerateIndirectObjects();
+  const graphicsStates = collectGraphicsStates(objects);
+  const checkedActions = new Set<PDFDict>();
+
+  const checkAction = (action: PDFDict, ref: PDFRef, page: number | null) => {
+    if (checkedActions.has(action)) return;
+    checkedActions.add(action);
+    const forbidden = forbiddenActionType(action);
+    if (forbidden) report("action", ref, page, `Ação ${forbidden} não permitida`);
+
+    const next = action.lookup(PDFName.of("Next"));
+    const chain = next instanceof PDFArray ? next.asArray().map((item) => action.context.lookup(item)) : [next];
+    chain.forEach((item) => item instanceof PDFDict && checkAction(item, ref, page));
+  };
+
+  const checkDict = (dict: PDFDict, ref: PDFRef, page: number | null) => {
+    if (dict.has(PDFName.of("AA"))) report("additional_actions", ref, page, "Ações adicionais (AA) não são permitidas");
+    for (const key of ["A", "OpenAction"]) {
+      const action = dict.lookup(PDFName.of(key));
+      if (action instanceof PDFDict) checkAction(action, ref, page);
+    }
+
+    if (graphicsStates.has(dict) || dict.lookup(PDFName.of("Type")) === PDFName.of("ExtGState")) {
+      if (dict.has(PDFName.of("TR"))) report("graphics_state", ref, page, "Estado gráfico com função de transferência (TR)");
+      const tr2 = dict.lookup(PDFName.of("TR2"));
+      if (tr2 && tr2 !== PDFName.of("Default")) {
+        report("graphics_state", ref, page, "Estado gráfico com função de transferência TR2 diferente de Default");
+      }
+    }
+
+    for (const value of dict.values()) {
+      if (value instanceof PDFDict) checkDict(value, ref, page);
+      if (value instanceof PDFArray) {
+        value.asArray().forEach((item) => item instanceof PDFDict && checkDict(item, ref, page));
+      }
+    }
+  };
+
+  for (const [ref, object] of objects) {
+    const page = pageOf.get(ref) ?? null;
+    if (object instanceof PDFDict) checkDict(object, ref, page);
+    if (!(object instanceof PDFStream)) continue;
+
+    const { dict } = object;
+    checkDict(dict, ref, page);
+
+    const external = ["F", "FFilter", "FDecodeParms"].filter((key) => dict.has(PDFName.of(key)));
+    if (external.length > 0) {
+      report("external_stream", ref, page, `Fluxo com dados em arquivo externo (${external.join(", ")})`);
+    }
+    if (hasFilter(object, "LZWDecode")) report("filter", ref, page, "Fluxo com compressão LZW");
+    if (part === 1 && hasFilter(object, "JPXDecode")) report("filter", ref, page, "Imagem JPEG 2000, não permitida no PDF/A-1");
+
+    const subtype = dict.lookup(PDFName.of("Subtype"));
+    if (subtype === PDFName.of("Image")) {
+      for (const key of ["Alternates", "OPI"]) {
+        if (dict.has(PDFName.of(key))) report("image", ref, page, `Imagem com a entrada ${key}`);
+      }
+      if (dict.lookup(PDFName.of("Interpolate")) === PDFBool.True) {
+        report("image", ref, page, "Imagem com interpolação ativada");
+      }
+    } else if (subtype === PDFName.of("PS")) {
+      report("postscript", ref, page, "XObject PostScript");
+    } else if (subtype === PDFName.of("Form")) {
+      if (dict.has(PDFName.of("Ref"))) report("reference_xobject", ref, page, "XObject de referência a documento externo");
+      if (dict.has(PDFName.of("PS")) || dict.lookup(PDFName.of("Subtype2")) === PDFName.of("PS")) {
+        report("postscript", ref, page, "Formulário com fragmento PostScript");
+      }
+      if (dict.has(PDFName.of("OPI"))) report("form_xobject", ref, page, "Formulário com a entrada OPI");
+    }
+  }
+
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+  if (names?.has(PDFName.of("JavaScript"))) {
+    report("action", pdfDoc.context.trailerInfo.Root as PDFRef, null, "Árvore de nomes JavaScript no catálogo");
+  }
+
+  const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of("AcroForm"), PDFDict);
+  if (acroForm?.lookup(PDFName.of("NeedAppearances")) === PDFBool.True) {
+    report("form", null, null, "O formulário pede que as aparências sejam geradas pelo leitor (NeedAppearances)");
+  }
+  if (acroForm?.has(PDFName.of("XFA"))) report("xfa", null, null, "Formulário XFA");
+}
+
+// Annotations and, in part 1, transparency, page by page
+function checkPages({ pdfDoc, part, report, refOf }: Checker): void {
+  const allowed = part === 1 ? PART1_ANNOTATIONS : PART2_ANNOTATIONS;
+
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const pageNumber = pageIndex + 1;
+    const pageRef = refOf.get(page.node) ?? null;
+
+    if (part === 1) {
+      const usages = transparencyUsages(page.node);
+      if (usages.length > 0) {
+        report("transparency", pageRef, pageNumber, `Transparência: ${usages.map((usage) => TRANSPARENCY_LABELS[usage]).join(", ")}`);
+      }
+    }
+
+    const annotations = page.node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+    for (let i = 0; i < (annotations?.size() ?? 0); i++) {
+      const annotation = annotations!.lookupMaybe(i, PDFDict);
+      if (!annotation) continue;
+      const ref = refOf.get(annotation) ?? pageRef;
+      const subtype = annotation.lookup(PDFName.of("Subtype"));
+      const name = subtype instanceof PDFName ? subtype.decodeText() : "(sem tipo)";
+
+      if (!allowed.has(name)) {
+        report("annotation_type", ref, pageNumber, `Anotação do tipo ${name} não permitida`);
+        continue;
+      }
+      if (name !== "Popup") {
+        const flags = annotation.lookupMaybe(PDFName.of("F"), PDFNumber)?.asNumber() ?? 0;
+        if (!(flags & ANNOT_PRINT) || flags & (ANNOT_INVISIBLE | ANNOT_HIDDEN | ANNOT_NOVIEW | ANNOT_TOGGLE_NOVIEW)) {
+          report("annotation", ref, pageNumber, `Anotação ${name} oculta ou que não é impressa`);
+        }
+      }
+      if (part === 1) {
+        const alpha = annotation.lookup(PDFName.of("CA"));
+        if (alpha instanceof PDFNumber && alpha.asNumber() !== 1) {
+          report("annotation", ref, pageNumber, `Anotação ${name} com opacidade (CA) diferente de 1`);
+        }
+      } else if (name !== "Popup" && name !== "Link" && hasArea(annotation)) {
+        const appearance = annotation.lookupMaybe(PDFName.of("AP"), PDFDict);
+        if (!appearance?.has(PDFName.of("N"))) {
+          report("appearance", ref, pageNumber, `Anotação ${name} sem aparência normal (AP /N)`);
+        }
+      }
+    }
+  });
+}
+
+function hasArea(annotation: PDFDict): boolean {
+  const rect = annotation.lookupMaybe(PDFName.of("Rect"), PDFArray);
+  if (!rect || rect.size() !== 4) return false;
+  const [x1, y1, x2, y2] = [0, 1, 2, 3].map((i) => rect.lookupMaybe(i, PDFNumber)?.asNumber() ?? 0);
+  return x1 !== x2 && y1 !== y2;
+}
+
+interface FontUse {
+  // First page the font shows text on
+  page: number;
+  // Whether any of that text is drawn, that is not in render mode 3
+  visible: boolean;
+}
+
+/**
+ * Fonts that show text: their programs must be embedded unless all their
+ * text is invisible, and at levels A and U their codes must map to Unicode.
+ */
+function checkFonts({ pdfDoc, part, conformance, report, refOf }: Checker): void {
+  const uses = new Map<PDFDict, FontUse>();
+  forEachContentStream(pdfDoc, ({ operations, resources, pageIndex }) => {
+    let font: PDFDict | undefined;
+    let renderMode = 0;
+    const saved: number[] = [];
+    for (const op of operations) {
+      switch (op.operator) {
+        case "q":
+          saved.push(renderMode);
+          break;
+        case "Q":
+          renderMode = saved.pop() ?? 0;
+          break;
+        case "Tr":
+          renderMode = op.operands[0]?.type === "number" ? op.operands[0].value : 0;
+          break;
+        case "Tf": {
+          const name = operandName(op.operands[0]);
+          const found = name ? lookupResource(resources, "Font", name) : undefined;
+          font = found instanceof PDFDict ? found : undefined;
+          break;
+        }
+        case "Tj":
+        case "TJ":
+        case "'":
+        case '"': {
+          if (!font) break;
+          const use = uses.get(font) ?? { page: pageIndex + 1, visible: false };
+          use.visible ||= renderMode !== 3;
+          uses.set(font, use);
+          break;
+        }
+      }
+    }
+  });
+
+  const unicodeRequired = conformance === "A" || (part !== 1 && conformance === "U");
+  uses.forEach(({ page, visible }, font) => {
+    const ref = refOf.get(font) ?? null;
+    const name = fontName(font);
+    const subtype = font.lookup(PDFName.of("Subtype"));
+
+    if (subtype === PDFName.of("Type0")) {
+      const descendant = font.lookupMaybe(PDFName.of("DescendantFonts"), PDFArray)?.lookupMaybe(0, PDFDict);
+      const embedded = !!descendant && hasFontProgram(descendant);
+      if (visible && !embedded) report("font_embedding", ref, page, `Fonte ${name} não incorporada`);
+      if (
+        embedded &&
+        descendant!.lookup(PDFName.of("Subtype")) === PDFName.of("CIDFontType2") &&
+        !descendant!.has(PDFName.of("CIDToGIDMap"))
+      ) {
+        report("cid_to_gid", ref, page, `Fonte CID ${name} sem CIDToGIDMap`);
+      }
+    } else if (subtype !== PDFName.of("Type3") && visible && !hasFontProgram(font)) {
+      report("font_embedding", ref, page, `Fonte ${name} não incorporada`);
+    }
+
+    if (unicodeRequired && !mapsToUnicode(font)) {
+      report("unicode", ref, page, `Fonte ${name} sem mapeamento para Unicode (ToUnicode)`);
+    }
+  });
+}
+
+function mapsToUnicode(font: PDFDict): boolean {
+  if (font.lookup(PDFName.of("ToUnicode")) instanceof PDFStream) return true;
+  const encoding = font.lookup(PDFName.of("Encoding"));
+
+  if (font.lookup(PDFName.of("Subtype")) === PDFName.of("Type0")) {
+    const descendant = font.lookupMaybe(PDFName.of("DescendantFonts"), PDFArray)?.lookupMaybe(0, PDFDict);
+    const info = descendant?.lookupMaybe(PDFName.of("CIDSystemInfo"), PDFDict);
+    return (
+      encoding instanceof PDFName &&
+      !encoding.decodeText().startsWith("Identity") &&
+      text(info?.lookup(PDFName.of("Registry"))) === "Adobe" &&
+      UNICODE_ORDERINGS.has(text(info?.lookup(PDFName.of("Ordering"))) ?? "")
+    );
+  }
+
+  if (encoding instanceof PDFName) return UNICODE_ENCODINGS.has(encoding.decodeText());
+  if (encoding instanceof PDFDict) {
+    // Glyph names from the Adobe Glyph List map to Unicode by name
+    const base = encoding.lookup(PDFName.of("BaseEncoding"));
+    const differences = encoding.lookupMaybe(PDFName.of("Differences"), PDFArray)?.asArray() ?? [];
+    return (
+      (!base || (base instanceof PDFName && UNICODE_ENCODINGS.has(base.decodeText()))) &&
+      differences.every((item) => !(item instanceof PDFName) || isAdobeGlyphName(item.decodeText()))
+    );
+  }
+  return false;
+}
+
+function fontName(font: PDFDict): string {
+  const baseFont = font.lookup(PDFName.of("BaseFont"));
+  return baseFont instanceof PDFName ? baseFont.decodeText().replace(/^[A-Z]{6}\+/, "") : "(sem nome)";
+}
+
+/**
+ * Device color spaces need a PDF/A OutputIntent with a profile of as many
+ * components; all PDF/A intents must share one profile.
+ */
+function checkColor({ pdfDoc, report }: Checker): void {
+  const intents = pdfDoc.catalog.lookupMaybe(PDFName.of("OutputIntents"), PDFArray);
+  const profiles = new Set<PDFObject>();
+  let components = 0;
+  for (let i = 0; i < (intents?.size() ?? 0); i++) {
+    const intent = intents!.lookupMaybe(i, PDFDict);
+    if (intent?.lookup(PDFName.of("S")) !== PDFName.of("GTS_PDFA1")) continue;
+    const profileRef = intent.get(PDFName.of("DestOutputProfile"));
+    const profile = intent.lookup(PDFName.of("DestOutputProfile"));
+    if (!(profile instanceof PDFStream)) {
+      report("output_intent", null, null, "OutputIntent PDF/A sem perfil ICC (DestOutputProfile)");
+      continue;
+    }
+    profiles.add(profileRef ?? profile);
+    components = profile.dict.lookupMaybe(PDFName.of("N"), PDFNumber)?.asNumber() ?? 0;
+  }
+  if (profiles.size > 1) {
+    report("output_intent", null, null, "Há mais de um OutputIntent PDF/A, com perfis diferentes");
+  }
+
+  for (const space of findDeviceColorSpaces(pdfDoc)) {
+    if (profiles.size === 0) {
+      report("device_color", null, null, `Espaço de cor ${space} usado sem OutputIntent PDF/A`);
+    } else if ((space === "DeviceRGB" && components !== 3) || (space === "DeviceCMYK" && components !== 4)) {
+      report("device_color", null, null, `Espaço de cor ${space} incompatível com o perfil do OutputIntent`);
+    }
+  }
+}
+
+/**
+ * Part 1 allows no embedded files and part 2 only PDF/A ones; part 3
+ * allows any file associated with the document, described by its MIME
+ * type, modification date and relationship.
+ */
+async function checkEmbeddedFiles({ pdfDoc, part, report, refOf, pageOf }: Checker): Promise<void> {
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+  const tree = names?.lookupMaybe(PDFName.of("EmbeddedFiles"), PDFDict);
+  const fileSpecs = new Set<PDFDict>(tree ? nameTreeValues(tree) : []);
+  pdfDoc.getPages().forEach((page) => {
+    const annotations = page.node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+    for (let i = 0; i < (annotations?.size() ?? 0); i++) {
+      const fileSpec = annotations!.lookupMaybe(i, PDFDict)?.lookup(PDFName.of("FS"));
+      if (fileSpec instanceof PDFDict && fileSpec.has(PDFName.of("EF"))) fileSpecs.add(fileSpec);
+    }
+  });
+
+  if (part === 1) {
+    if (tree) report("embedded_files", null, null, "Arquivos incorporados (EmbeddedFiles) não são permitidos no PDF/A-1");
+    return;
+  }
+
+  // Files associated with the document or any part of it
+  const associated = new Set<PDFObject>();
+  if (part === 3) {
+    for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+      const dict = object instanceof PDFStream ? object.dict : object;
+      const af = dict instanceof PDFDict ? dict.lookupMaybe(PDFName.of("AF"), PDFArray) : undefined;
+      af?.asArray().forEach((item) => associated.add(pdfDoc.context.lookup(item) as PDFObject));
+    }
+  }
+
+  for (const fileSpec of Array.from(fileSpecs)) {
+    const ref = refOf.get(fileSpec) ?? null;
+    const page = ref ? pageOf.get(ref) ?? null : null;
+    const name = text(fileSpec.lookup(PDFName.of("UF"))) ?? text(fileSpec.lookup(PDFName.of("F"))) ?? "(sem nome)";
+
+    if (part === 2) {
+      const kind = await classifyEmbeddedFile(fileSpec);
+      if (kind === "other") report("embedded_files", ref, page, `Arquivo incorporado "${name}" não é PDF/A`);
+      if (kind === "unreadable") {
+        report("embedded_files", ref, page, `Arquivo incorporado "${name}" não pôde ser lido para verificar se é PDF/A`);
+      }
+      continue;
+    }
+
+    if (!fileSpec.has(PDFName.of("F")) || !fileSpec.has(PDFName.of("UF"))) {
+      report("associated_files", ref, page, `Especificação do arquivo "${name}" sem as entradas F e UF`);
+    }
+    if (!fileSpec.has(PDFName.of("AFRelationship"))) {
+      report("associated_files", ref, page, `Arquivo "${name}" sem relação com o documento (AFRelationship)`);
+    }
+    if (!associated.has(fileSpec)) {
+      report("associated_files", ref, page, `Arquivo "${name}" não está associado ao documento (AF)`);
+    }
+    const ef = fileSpec.lookupMaybe(PDFName.of("EF"), PDFDict);
+    const stream = ef?.lookup(PDFName.of("UF")) ?? ef?.lookup(PDFName.of("F"));
+    if (stream instanceof PDFStream) {
+      if (!(stream.dict.lookup(PDFName.of("Subtype")) instanceof PDFName)) {
+        report("associated_files", ref, page, `Arquivo "${name}" sem tipo MIME (Subtype)`);
+      }
+      const params = stream.dict.lookupMaybe(PDFName.of("Params"), PDFDict);
+      if (!params?.has(PDFName.of("ModDate"))) {
+        report("associated_files", ref, page, `Arquivo "${name}" sem data de modificação (Params /ModDate)`);
+      }
+    }
+  }
+}
+
+function nameTreeValues(node: PDFDict): PDFDict[] {
+  const values: PDFDict[] = [];
+  const kids = node.lookupMaybe(PDFName.of("Kids"), PDFArray);
+  for (let i = 0; i < (kids?.size() ?? 0); i++) {
+    const kid = kids!.lookupMaybe(i, PDFDict);
+    if (kid) values.push(...nameTreeValues(kid));
+  }
+  const pairs = node.lookupMaybe(PDFName.of("Names"), PDFArray);
+  for (let i = 1; i < (pairs?.size() ?? 0); i += 2) {
+    const value = pairs!.lookup(i);
+    if (value instanceof PDFDict) values.push(value);
+  }
+  return values;
+}
+
+// Part 1 forbids optional content; later parts require every configuration
+// to be named and to leave no state to the viewer (AS)
+function checkOptionalContent({ pdfDoc, part, report }: Checker): void {
+  const properties = pdfDoc.catalog.lookupMaybe(PDFName.of("OCProperties"), PDFDict);
+  if (!properties) return;
+  if (part === 1) {
+    report("optional_content", null, null, "Conteúdo opcional (camadas) não é permitido no PDF/A-1");
+    return;
+  }
+
+  const configs = [properties.lookup(PDFName.of("D"))];
+  const others = properties.lookupMaybe(PDFName.of("Configs"), PDFArray);
+  others?.asArray().forEach((item) => configs.push(pdfDoc.context.lookup(item)));
+  configs.forEach((config) => {
+    if (!(config instanceof PDFDict)) return;
+    if (!config.has(PDFName.of("Name"))) report("optional_content", null, null, "Configuração de camadas sem nome (Name)");
+    if (config.has(PDFName.of("AS"))) report("optional_content", null, null, "Configuração de camadas com a entrada AS");
+  });
+}
+
+// Level A: a tagged document with a structure tree
+function checkStructure({ pdfDoc, report }: Checker): void {
+  const markInfo = pdfDoc.catalog.lookupMaybe(PDFName.of("MarkInfo"), PDFDict);
+  if (markInfo?.lookup(PDFName.of("Marked")) !== PDFBool.True) {
+    report("mark_info", null, null, "O documento não está marcado como estruturado (MarkInfo /Marked)");
+  }
+  if (!(pdfDoc.catalog.lookup(PDFName.of("StructTreeRoot")) instanceof PDFDict)) {
+    report("structure_tree", null, null, "O documento não possui estrutura lógica (StructTreeRoot)");
+  }
+}
+
+/**
+ * The metadata stream, the identification it carries and, in part 1, its
+ * agreement with the Info dictionary. Schemas outside the predefined set
+ * must be described by extension schemas.
+ */
+function checkMetadata(
+  xmp: string | null,
+  claimed: PdfaConformance | null,
+  profile: PdfaConformance,
+  requested: boolean,
+  { pdfDoc, part, report }: Checker,
+): void {
+  const metadata = pdfDoc.catalog.lookup(PDFName.of("Metadata"));
+  const ref = pdfDoc.catalog.get(PDFName.of("Metadata"));
+  const metadataRef = ref instanceof PDFRef ? ref : null;
+  if (!(metadata instanceof PDFStream)) {
+    report("metadata", null, null, "O catálogo não contém metadados XMP (Metadata)");
+    report("identification", null, null, "O arquivo não se identifica como PDF/A");
+    return;
+  }
+  if (metadata.dict.has(PDFName.of("Filter"))) {
+    report("metadata", metadataRef, null, "O fluxo de metadados XMP está comprimido (Filter)");
+  }
+  if (!xmp || !xmp.includes("<x:xmpmeta") && !xmp.includes("rdf:RDF")) {
+    report("metadata", metadataRef, null, "Os metadados XMP não puderam ser lidos");
+    return;
+  }
+
+  if (!claimed) {
+    report("identification", metadataRef, null, "Os metadados XMP não identificam a parte PDF/A (pdfaid:part)");
+  } else if (!isKnownProfile(claimed)) {
+    report("identification", metadataRef, null, `Identificação PDF/A inválida: parte ${claimed.part}, nível "${claimed.conformance}"`);
+  } else if (requested && (claimed.part !== profile.part || claimed.conformance !== profile.conformance)) {
+    report("identification", metadataRef, null, `O arquivo se declara ${pdfaConformanceLabel(claimed)}, mas foi verificado como ${pdfaConformanceLabel(profile)}`);
+  }
+
+  if (part === 1) checkDocumentInfo(xmp, pdfDoc, report);
+  checkExtensionSchemas(xmp, metadataRef, report);
+}
+
+// Info entries and the XMP properties that must hold the same values
+const INFO_PROPERTIES: Array<[string, string, string]> = [
+  ["Title", "http://purl.org/dc/elements/1.1/", "title"],
+  ["Author", "http://purl.org/dc/elements/1.1/", "creator"],
+  ["Subject", "http://purl.org/dc/elements/1.1/", "description"],
+  ["Keywords", "http://ns.adobe.com/pdf/1.3/", "Keywords"],
+  ["Creator", "http://ns.adobe.com/xap/1.0/", "CreatorTool"],
+  ["Producer", "http://ns.adobe.com/pdf/1.3/", "Producer"],
+  ["CreationDate", "http://ns.adobe.com/xap/1.0/", "CreateDate"],
+  ["ModDate", "http://ns.adobe.com/xap/1.0/", "ModifyDate"],
+];
+
+function checkDocumentInfo(xmp: string, pdfDoc: PDFDocument, report: Checker["report"]): void {
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info);
+  if (!(info instanceof PDFDict)) return;
+  const infoRef = pdfDoc.context.trailerInfo.Info instanceof PDFRef ? pdfDoc.context.trailerInfo.Info : null;
+
+  for (const [key, namespace, property] of INFO_PROPERTIES) {
+    const value = text(info.lookup(PDFName.of(key)));
+    if (value === undefined) continue;
+    const xmpValue = xmpProperty(xmp, namespace, property);
+    const same = key.endsWith("Date")
+      ? xmpValue !== undefined && sameInstant(value, xmpValue)
+      : xmpValue === value;
+    if (!same) report("document_info", infoRef, null, `${key} do dicionário Info difere dos metadados XMP`);
+  }
+}
+
+// A PDF date (D:YYYYMMDDHHmmSSOHH'mm') and an XMP date, to the second
+function sameInstant(pdfDate: string, xmpDate: string): boolean {
+  const match = /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/.exec(pdfDate);
+  if (!match) return false;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", sign, tzHour = "00", tzMinute = "00"] = match;
+  const zone = !sign ? "" : sign.toUpperCase() === "Z" ? "Z" : `${sign}${tzHour}:${tzMinute}`;
+  const fromPdf = Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return !isNaN(fromPdf) && fromPdf === Date.parse(xmpDate);
+}
+
+function checkExtensionSchemas(xmp: string, metadataRef: PDFRef | null, report: Checker["report"]): void {
+  const prefixes = xmpNamespaces(xmp);
+  const described = new Set<string>();
+  for (const prefix of Array.from(prefixes.keys())) {
+    const uri = prefixes.get(prefix);
+    if (uri !== "http://www.aiim.org/pdfa/ns/schema#" && uri !== "http://www.aiim.org/pdfa/ns/type#") continue;
+    const pattern = new RegExp(`<${prefix}:namespaceURI>([^<]*)</${prefix}:namespaceURI>`, "g");
+    for (let match = pattern.exec(xmp); match; match = pattern.exec(xmp)) described.add(unescapeXml(match[1]).trim());
+  }
+
+  const undescribed = new Set<string>();
+  const used = /<([A-Za-z_][\w.-]*):[\w.-]+|\s([A-Za-z_][\w.-]*):[\w.-]+\s*=/g;
+  for (let match = used.exec(xmp); match; match = used.exec(xmp)) {
+    const prefix = match[1] ?? match[2];
+    const uri = prefixes.get(prefix);
+    if (prefix === "xmlns" || prefix === "xml" || !uri) continue;
+    if (!PREDEFINED_NAMESPACES.has(uri) && !described.has(uri)) undescribed.add(uri);
+  }
+  undescribed.forEach((uri) =>
+    report("extension_schema", metadataRef, null, `Propriedades XMP do esquema ${uri} sem esquema de extensão PDF/A`),
+  );
+}
+
+function text(value: PDFObject | undefined): string | undefined {
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+}
@@ -1,11 +1,43 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type RequestHandler, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertPdfJobSchema, conversionOptionsSchema } from "@shared/schema";
+import {
+  insertPdfJobSchema,
+  conversionOptionsSchema,
+  attachmentRelationshipsSchema,
+  ocrArtifactTypes,
+  pdfaFormatTypes,
+  complianceReportTypes,
+  type ComplianceReport,
+  type OcrArtifactType,
+  type ValidationResult,
+} from "@shared/schema";
 import { z } from "zod";
 import fs from 'fs';
 import path from 'path';
+import multer from "multer";
 import { log } from "./vite";
+import { convertToPdfA, verifiedStatus, type ConversionInput, type ProgressUpdate } from "./pdfa/convert";
+import { getConformanceLevel } from "./pdfa/levels";
+import { DecryptionError } from "./pdfa/decrypt";
+import { TransparencyError } from "./pdfa/transparency";
+import { detectInputFormat, ImageInputError } from "./pdfa/images";
+import { OCR_ARTIFACT_FORMATS } from "./pdfa/artifacts";
+import { validatePdfA } from "./pdfa/validate";
+import {
+  COMPLIANCE_REPORT_FORMATS,
+  buildComplianceReport,
+  fileDigest,
+  renderComplianceReport,
+} from "./pdfa/compliance";
+import {
+  TESSDATA_DIR,
+  TESSERACT_CORE_DIR,
+  TESSERACT_WORKER_FILE,
+  MissingLanguageError,
+  languageDataPath,
+  listInstalledLanguages,
+} from "./pdfa/tessdata";
 
 // Import Vercel API handler for compatibility
 import apiHandler from "../api/index";
@@ -13,19 +45,90 @@ import apiHandler from "../api/index";
 // Map to store PDF data for download
 const pdfDataStore = new Map<number, Buffer>();
 
+// Map to store the OCR artifacts (hOCR, ALTO, text) produced by each job
+const artifactStore = new Map<number, Partial<Record<OcrArtifactType, string>>>();
+
+// Map to store the compliance record of each finished job, rendered on request
+const complianceStore = new Map<number, ComplianceReport>();
+
+// Map to store the uploaded input files until they are processed
+const inputDataStore = new Map<number, ConversionInput>();
+
+// Map to store the latest progress reported by the conversion pipeline
+const progressStore = new Map<number, ProgressUpdate>();
+
+// Uploads are kept in memory; the UI advertises the same limit
+const MAX_UPLOAD_MB = 10;
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_MB * 1024 * 1024 },
+});
+
+// Run an upload middleware, answering 413 rather than failing the request
+// when a file is over the limit
+function withUploadLimit(handler: RequestHandler): RequestHandler {
+  return (req, res, next) => handler(req, res, (error?: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ message: `File too large: the limit is ${MAX_UPLOAD_MB}MB` });
+    }
+    next(error);
+  });
+}
+
+// Statuses of jobs whose output passed verification and can be downloaded
+const downloadableStatuses = ['completed', 'completed_with_warnings'];
+
+// Statuses of jobs that can be (re)started with the process route
+const processableStatuses = ['pending', 'password_required', 'password_incorrect'];
+
+// Uploaded file name without its extension (.pdf, .tiff, ...)
+function baseName(name: string): string {
+  return name.replace(/\.[^.]+$/, '');
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Create a PDF conversion job
-  app.post("/api/pdf/convert", async (req, res) => {
+  // Create a PDF conversion job. PDF/A-3 jobs may send extra "attachments"
+  // files, each with its AFRelationship in "attachmentRelationships"
+  const convertUpload = withUploadLimit(upload.fields([
+    { name: 'file', maxCount: 1 },
+    { name: 'attachments', maxCount: 10 },
+  ]));
+  app.post("/api/pdf/convert", convertUpload, async (req, res) => {
     try {
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const file = files?.file?.[0];
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      if (!detectInputFormat(file.buffer)) {
+        return res.status(400).json({ message: "Unsupported file type: expected a PDF, JPEG, PNG or TIFF file" });
+      }
+
       // Validate the request body
       const validatedData = insertPdfJobSchema.parse({
-        originalName: req.body.originalName,
+        originalName: req.body.originalName || file.originalname,
         status: 'pending',
-        inputUrl: req.body.inputUrl,
+        inputUrl: req.body.inputUrl || 'upload',
       });
 
-      // Create the PDF job
+      // Relationships default to Supplement when the client sends none
+      const attachmentFiles = files?.attachments ?? [];
+      const relationships = attachmentRelationshipsSchema.parse(
+        [].concat(req.body.attachmentRelationships ?? []),
+      );
+
+      // Create the PDF job and keep the uploaded files for processing
       const job = await storage.createPdfJob(validatedData);
+      inputDataStore.set(job.id, {
+        data: file.buffer,
+        name: validatedData.originalName,
+        attachments: attachmentFiles.map((attachment, index) => ({
+          name: attachment.originalname,
+          mimeType: attachment.mimetype || 'application/octet-stream',
+          data: attachment.buffer,
+          relationship: relationships[index] ?? 'Supplement',
+        })),
+      });
       
       // Return the job details
       res.status(201).json(job);
@@ -38,6 +141,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Check an existing PDF against PDF/A without converting it. The optional
+  // "formatType" selects the level to check; by default it is the one the
+  // file claims in its XMP metadata
+  app.post("/api/pdf/validate", withUploadLimit(upload.single('file')), async (req, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      if (detectInputFormat(file.buffer) !== 'pdf') {
+        return res.status(400).json({ message: "Unsupported file type: expected a PDF file" });
+      }
+
+      const formatType = z.enum(pdfaFormatTypes).optional().parse(req.body.formatType || undefined);
+      const level = formatType ? getConformanceLevel(formatType) : undefined;
+
+      let result: ValidationResult;
+      try {
+        result = await validatePdfA(file.buffer, level && { part: level.part, conformance: level.conformance });
+      } catch (error) {
+        log(`Error reading PDF for validation: ${error}`, 'validation');
+        return res.status(400).json({ message: "The file could not be read as a PDF" });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid format type", details: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to validate the PDF" });
+      }
+    }
+  });
+
   // Get the status of a PDF conversion job
   app.get("/api/pdf/jobs/:id", async (req, res) => {
     try {
@@ -57,8 +194,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Simulate PDF conversion progress (for demo purposes)
-  // In a real application, this would be handled by background jobs
+  // Start the PDF/A conversion of the uploaded file
   app.post("/api/pdf/jobs/:id/process", async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
@@ -75,26 +211,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "PDF job not found" });
       }
 
+      // Only new jobs and jobs waiting for a password may start; a repeated
+      // request would otherwise run a second conversion of the same input
+      if (!processableStatuses.includes(job.status)) {
+        return res.status(409).json({ message: `PDF job cannot be processed while ${job.status}` });
+      }
+
+      const input = inputDataStore.get(id);
+      if (!input) {
+        return res.status(400).json({ message: "No input file uploaded for this job" });
+      }
+
+      // Associated files are only allowed in PDF/A-3
+      const { part } = getConformanceLevel(options.formatType);
+      if (part !== 3 && (input.attachments.length > 0 || options.embedOriginal)) {
+        return res.status(400).json({ message: "Attachments require a PDF/A-3 format" });
+      }
+
       // Update job status to processing
       await storage.updatePdfJobStatus(id, 'processing');
 
-      // In a real app, this would be a background process
-      // Here we're simulating the conversion process with setTimeout
-      setTimeout(async () => {
+      // The conversion runs in the background; clients poll the progress route
+      setImmediate(async () => {
         try {
-          // Simulate successful conversion by creating a sample PDF
-          // In a real app, this would be the actual converted file
-          const samplePdfData = createSamplePdf();
-          pdfDataStore.set(id, samplePdfData);
-          
-          const outputUrl = `/api/pdf/downloads/${id}`;
-          await storage.updatePdfJobOutput(id, outputUrl);
+          const started = new Date().toISOString();
+          const result = await convertToPdfA(input, options, (update) => {
+            progressStore.set(id, update);
+          });
+          const finished = new Date().toISOString();
+          inputDataStore.delete(id);
+
+          // Output that fails verification is never stored for download
+          const status = verifiedStatus(result);
+          let outputUrl: string | null = null;
+          if (status === 'failed_validation') {
+            log(`Job ${id} failed PDF/A verification: ${result.validation.violations.length} violation(s)`, 'conversion');
+          } else {
+            pdfDataStore.set(id, Buffer.from(result.pdf));
+            artifactStore.set(id, result.artifacts);
+            outputUrl = `/api/pdf/downloads/${id}`;
+          }
+          complianceStore.set(id, buildComplianceReport({
+            jobId: id,
+            status,
+            input: fileDigest(input.name, input.data),
+            attachments: input.attachments.map((attachment) => fileDigest(attachment.name, attachment.data)),
+            output: outputUrl ? fileDigest(`${baseName(job.originalName)}_PDFA.pdf`, result.pdf) : null,
+            options,
+            timestamps: { created: job.createdAt, started, finished },
+            conversion: result.report,
+            validation: result.validation,
+          }));
+          await storage.updatePdfJobOutput(id, outputUrl, result.report, result.validation, status);
         } catch (error) {
           log(`Error in conversion process: ${error}`, 'conversion');
-          // Handle error
-          await storage.updatePdfJobError(id, "Conversion failed");
+          // Password errors keep the input so the job can be retried with a
+          // password; nothing else can be retried, so its input is dropped
+          const retryable = error instanceof DecryptionError && error.reason !== 'unsupported';
+          if (!retryable) inputDataStore.delete(id);
+          if (error instanceof DecryptionError) {
+            const status = error.reason === 'unsupported' ? 'failed' : error.reason;
+            await storage.updatePdfJobError(id, error.message, status);
+          } else if (error instanceof TransparencyError) {
+            // The message names every page that would have to be flattened
+            await storage.updatePdfJobError(id, error.message);
+          } else if (error instanceof ImageInputError) {
+            // Unreadable or unsupported image data, e.g. a TIFF compression
+            await storage.updatePdfJobError(id, error.message);
+          } else if (error instanceof MissingLanguageError) {
+            // A page needed OCR in a language, or OSD, with no data installed
+            await storage.updatePdfJobError(id, error.message);
+          } else {
+            await storage.updatePdfJobError(id, "Conversion failed");
+          }
+        } finally {
+          progressStore.delete(id);
         }
-      }, 5000);
+      });
 
       res.json({ message: "Processing started" });
     } catch (error) {
@@ -128,27 +321,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
           progress = 0;
           stage = 'Aguardando processamento';
           break;
-        case 'processing':
-          // In a real app, you would have more granular progress tracking
-          // Here we're just simulating random progress
-          progress = Math.min(Math.floor(Math.random() * 90) + 10, 95);
-          
-          if (progress < 30) {
-            stage = 'Analisando documento...';
-          } else if (progress < 60) {
-            stage = 'Aplicando OCR...';
-          } else {
-            stage = 'Convertendo para PDF/A-2U...';
-          }
+        case 'processing': {
+          // Use the last update reported by the conversion pipeline
+          const update = progressStore.get(id);
+          progress = update?.progress ?? 5;
+          stage = update?.stage ?? 'Analisando documento...';
           break;
+        }
         case 'completed':
           progress = 100;
           stage = 'Conversão concluída!';
           break;
+        case 'completed_with_warnings':
+          progress = 100;
+          stage = 'Conversão concluída, com itens para revisar';
+          break;
         case 'failed':
           progress = 0;
           stage = 'Falha na conversão';
           break;
+        case 'failed_validation':
+          progress = 0;
+          stage = 'O arquivo convertido não passou na verificação PDF/A';
+          break;
+        case 'password_required':
+          progress = 0;
+          stage = 'Documento protegido por senha';
+          break;
+        case 'password_incorrect':
+          progress = 0;
+          stage = 'Senha incorreta';
+          break;
       }
 
       res.json({
@@ -177,7 +380,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "PDF job not found" });
       }
 
-      if (job.status !== 'completed') {
+      if (job.status === 'failed_validation') {
+        return res.status(409).json({ message: "The converted PDF failed PDF/A verification and is not available" });
+      }
+      if (!downloadableStatuses.includes(job.status)) {
         return res.status(400).json({ message: "PDF conversion not yet completed" });
       }
 
@@ -189,7 +395,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Set the appropriate headers for a PDF file download
       res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${job.originalName.replace('.pdf', '')}_PDFA.pdf"`);
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName(job.originalName)}_PDFA.pdf"`);
       res.setHeader('Content-Length', pdfData.length);
 
       // Send the PDF data
@@ -200,6 +406,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Routes for downloading the OCR artifacts of a job, one per format:
+  // /api/pdf/downloads/:id/hocr, /alto and /text
+  for (const type of ocrArtifactTypes) {
+    app.get(`/api/pdf/downloads/:id/${type}`, async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid job ID" });
+        }
+
+        const job = await storage.getPdfJob(id);
+        if (!job) {
+          return res.status(404).json({ message: "PDF job not found" });
+        }
+
+        if (!downloadableStatuses.includes(job.status)) {
+          return res.status(400).json({ message: "PDF conversion not yet completed" });
+        }
+
+        const artifact = artifactStore.get(id)?.[type];
+        if (artifact === undefined) {
+          return res.status(404).json({ message: `No ${type} artifact was produced for this job` });
+        }
+
+        const { contentType, extension } = OCR_ARTIFACT_FORMATS[type];
+        const data = Buffer.from(artifact, 'utf-8');
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${baseName(job.originalName)}_OCR.${extension}"`);
+        res.setHeader('Content-Length', data.length);
+        res.send(data);
+      } catch (error) {
+        log(`Error in artifact download handler: ${error}`, 'download');
+        res.status(500).json({ message: `Failed to download the ${type} artifact` });
+      }
+    });
+  }
+
+  // Routes for downloading the compliance report of a finished job, one per
+  // format: /api/pdf/artifacts/:id/json, /html and /pdf. Jobs that failed
+  // verification have one too, as evidence of why no file was delivered
+  for (const type of complianceReportTypes) {
+    app.get(`/api/pdf/artifacts/:id/${type}`, async (req, res) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid job ID" });
+        }
+
+        const job = await storage.getPdfJob(id);
+        if (!job) {
+          return res.status(404).json({ message: "PDF job not found" });
+        }
+
+        const report = complianceStore.get(id);
+        if (!report) {
+          return res.status(400).json({ message: "PDF conversion not yet completed" });
+        }
+
+        const { contentType, extension } = COMPLIANCE_REPORT_FORMATS[type];
+        const data = Buffer.from(await renderComplianceReport(type, report));
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${baseName(job.originalName)}_conformidade.${extension}"`);
+        res.setHeader('Content-Length', data.length);
+        res.send(data);
+      } catch (error) {
+        log(`Error in compliance report handler: ${error}`, 'download');
+        res.status(500).json({ message: `Failed to produce the ${type} compliance report` });
+      }
+    });
+  }
+
+  // Installed OCR languages, for administrators
+  app.get("/api/ocr/languages", (_req, res) => {
+    res.json({ directory: TESSDATA_DIR, languages: listInstalledLanguages() });
+  });
+
+  // Tesseract worker, core and language data for the browser, so client-side
+  // OCR needs no CDN. Workers ask for "<code>.traineddata.gz" and inflate
+  // the data only when it is gzipped, so either form is served under it.
+  app.get("/tesseract/worker.min.js", (_req, res) => {
+    res.sendFile(TESSERACT_WORKER_FILE);
+  });
+  app.use("/tesseract/core", express.static(TESSERACT_CORE_DIR));
+  app.get("/tesseract/lang/:file", (req, res) => {
+    const match = /^(\w+)\.traineddata(\.gz)?$/.exec(req.params.file);
+    const file = match ? languageDataPath(match[1]) : undefined;
+    if (!file) {
+      return res.status(404).json({ message: "Language data not installed" });
+    }
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.sendFile(file);
+  });
+
   // Vercel compatibility route - this will handle all requests that come from Vercel
   app.all("/api/vercel/:path*", (req, res) => {
     // Forward to the Vercel API handler
@@ -209,111 +508,3 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   return httpServer;
 }
-
-// Helper function to create a sample PDF/A-2U file for demonstration purposes
-function createSamplePdf(): Buffer {
-  // This is a PDF/A-2U compliant structure
-  // In a real app, this would be replaced with actual conversion output
-  const pdfContent = `%PDF-1.7
-%¥±ë
-1 0 obj
-<< /Type /Catalog /Pages 2 0 R /Metadata 8 0 R /OutputIntents [9 0 R] >>
-endobj
-2 0 obj
-<< /Type /Pages /Kids [3 0 R] /Count 1 >>
-endobj
-3 0 obj
-<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 6 0 R /Resources 4 0 R >>
-endobj
-4 0 obj
-<< /Font << /F1 5 0 R >> >>
-endobj
-5 0 obj
-<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>
-endobj
-6 0 obj
-<< /Length 158 >>
-stream
-BT
-/F1 18 Tf
-50 750 Td
-(PDF/A-2U Documento) Tj
-/F1 12 Tf
-0 -50 Td
-(Este é um documento em formato PDF/A-2U gerado pela aplicação Tatianus) Tj
-ET
-endstream
-endobj
-8 0 obj
-<< /Type /Metadata /Subtype /XML /Length 1024 >>
-stream
-<?xpacket begin='﻿' id='W5M0MpCehiHzreSzNTczkc9d'?>
-<x:xmpmeta xmlns:x="adobe:ns:meta/">
-  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
-    <rdf:Description xmlns:dc="http://purl.org/dc/elements/1.1/" rdf:about="">
-      <dc:format>application/pdf</dc:format>
-      <dc:title>PDF/A-2U Document</dc:title>
-      <dc:creator>Tatianus Converter</dc:creator>
-      <dc:description>PDF/A-2U document with OCR capabilities</dc:description>
-    </rdf:Description>
-    <rdf:Description xmlns:pdf="http://ns.adobe.com/pdf/1.3/" rdf:about="">
-      <pdf:Producer>Tatianus PDF/A-2U Converter</pdf:Producer>
-    </rdf:Description>
-    <rdf:Description xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/" rdf:about="">
-      <pdfaid:part>2</pdfaid:part>
-      <pdfaid:conformance>U</pdfaid:conformance>
-    </rdf:Description>
-    <rdf:Description xmlns:xmp="http://ns.adobe.com/xap/1.0/" rdf:about="">
-      <xmp:CreateDate>2025-04-16T12:00:00Z</xmp:CreateDate>
-      <xmp:ModifyDate>2025-04-16T12:00:00Z</xmp:ModifyDate>
-      <xmp:MetadataDate>2025-04-16T12:00:00Z</xmp:MetadataDate>
-    </rdf:Description>
-  </rdf:RDF>
-</x:xmpmeta>
-<?xpacket end='w'?>
-endstream
-endobj
-9 0 obj
-<< /Type /OutputIntent /S /GTS_PDFA1 /OutputConditionIdentifier (sRGB) /Info (sRGB IEC61966-2.1) /DestOutputProfile 10 0 R >>
-endobj
-10 0 obj
-<< /Length 3024 /N 3 /Filter /ASCIIHexDecode >>
-stream
-73524742494543363139363600000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-000000000000000000000000000000000000000000000000000000000000000000000006C0
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-00000000000000000000000000000000000000000000000000000000000000000000000000
-endstream
-endobj
-xref
-0 11
-0000000000 65535 f 
-0000000015 00000 n 
-0000000099 00000 n 
-0000000155 00000 n 
-0000000254 00000 n 
-0000000297 00000 n 
-0000000390 00000 n 
-0000000000 00000 f
-0000000599 00000 n 
-0000001707 00000 n 
-0000001842 00000 n 
-trailer
-<< /Size 11 /Root 1 0 R /ID [<7366387A287D54F8813AAEDC875FE1FA> <7366387A287D54F8813AAEDC875FE1FA>] >>
-startxref
-4950
-%%EOF`;
-
-  return Buffer.from(pdfContent);
-}
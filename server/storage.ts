@@ -1,11 +1,23 @@
-import { pdfJobs, type PdfJob, type InsertPdfJob } from "@shared/schema";
+import {
+  pdfJobs,
+  type PdfJob,
+  type InsertPdfJob,
+  type ConversionReport,
+  type ValidationResult,
+} from "@shared/schema";
 
 export interface IStorage {
   createPdfJob(job: InsertPdfJob): Promise<PdfJob>;
   getPdfJob(id: number): Promise<PdfJob | undefined>;
   updatePdfJobStatus(id: number, status: string): Promise<PdfJob | undefined>;
-  updatePdfJobOutput(id: number, outputUrl: string): Promise<PdfJob | undefined>;
-  updatePdfJobError(id: number, errorMessage: string): Promise<PdfJob | undefined>;
+  updatePdfJobOutput(
+    id: number,
+    outputUrl: string | null,
+    result: ConversionReport,
+    validation: ValidationResult,
+    status: string,
+  ): Promise<PdfJob | undefined>;
+  updatePdfJobError(id: number, errorMessage: string, status?: string): Promise<PdfJob | undefined>;
 }
 
 export class MemStorage implements IStorage {
@@ -20,7 +32,7 @@ export class MemStorage implements IStorage {
   async createPdfJob(insertJob: InsertPdfJob): Promise<PdfJob> {
     const id = this.currentId++;
     const createdAt = new Date().toISOString();
-    const job: PdfJob = { ...insertJob, id, createdAt, outputUrl: null, errorMessage: null };
+    const job: PdfJob = { ...insertJob, id, createdAt, outputUrl: null, errorMessage: null, result: null, validation: null };
     this.pdfJobs.set(id, job);
     return job;
   }
@@ -38,20 +50,26 @@ export class MemStorage implements IStorage {
     return updatedJob;
   }
 
-  async updatePdfJobOutput(id: number, outputUrl: string): Promise<PdfJob | undefined> {
+  async updatePdfJobOutput(
+    id: number,
+    outputUrl: string | null,
+    result: ConversionReport,
+    validation: ValidationResult,
+    status: string,
+  ): Promise<PdfJob | undefined> {
     const job = this.pdfJobs.get(id);
     if (!job) return undefined;
     
-    const updatedJob = { ...job, outputUrl, status: 'completed' };
+    const updatedJob = { ...job, outputUrl, result, validation, status };
     this.pdfJobs.set(id, updatedJob);
     return updatedJob;
   }
 
-  async updatePdfJobError(id: number, errorMessage: string): Promise<PdfJob | undefined> {
+  async updatePdfJobError(id: number, errorMessage: string, status = 'failed'): Promise<PdfJob | undefined> {
     const job = this.pdfJobs.get(id);
     if (!job) return undefined;
     
-    const updatedJob = { ...job, errorMessage, status: 'failed' };
+    const updatedJob = { ...job, errorMessage, status };
     this.pdfJobs.set(id, updatedJob);
     return updatedJob;
   }
@@ -0,0 +1,194 @@
+import {
+  pdfaFormatLabels,
+  validationCategories,
+  validationCategoryLabels,
+  type ConversionReport,
+  type ValidationResult,
+} from "./schema";
+
+/**
+ * A job's conformance results arranged for people: the ISO 19005 clauses
+ * broken, what is left to review and what the conversion fixed, in groups.
+ * The report panel and the downloadable compliance reports share them.
+ */
+
+// One line of the report
+export interface ConformanceItem {
+  title: string;
+  // ISO 19005 clause, for violations
+  clause?: string;
+  // One-based pages affected
+  pages: number[];
+  details: string[];
+}
+
+export interface ConformanceGroup {
+  label: string;
+  items: ConformanceItem[];
+}
+
+const passwordLabels: Record<NonNullable<ConversionReport['encryption']>['password'], string> = {
+  none: 'sem senha de usuário',
+  user: 'com a senha de usuário',
+  owner: 'com a senha de proprietário',
+};
+
+const transparencyLabels: Record<ConversionReport['transparency'][number]['usages'][number], string> = {
+  group: 'grupo de transparência',
+  soft_mask: 'máscara suave',
+  constant_alpha: 'opacidade constante',
+  blend_mode: 'modo de mesclagem',
+};
+
+// Violations grouped by category, then by clause and message across objects
+export function violationGroups({ violations, profile }: ValidationResult): ConformanceGroup[] {
+  return validationCategories
+    .map((category) => {
+      const items = new Map<string, ConformanceItem & { objects: string[] }>();
+      violations
+        .filter((violation) => violation.category === category)
+        .forEach(({ clause, message, page, object }) => {
+          const key = `${clause}|${message}`;
+          const item = items.get(key) ?? { title: message, clause, pages: [], details: [], objects: [] };
+          if (page !== null && !item.pages.includes(page)) item.pages.push(page);
+          if (object && !item.objects.includes(object)) item.objects.push(object);
+          items.set(key, item);
+        });
+
+      return {
+        label: validationCategoryLabels[category],
+        items: Array.from(items.values()).map(({ objects, ...item }) => ({
+          ...item,
+          pages: item.pages.sort((a, b) => a - b),
+          details: [
+            `Cláusula ${item.clause} da ISO 19005-${profile.part}`,
+            objects.length > 0 ? `Objetos: ${objects.join(', ')}` : 'Afeta o arquivo como um todo',
+          ],
+        })),
+      };
+    })
+    .filter((group) => group.items.length > 0);
+}
+
+// What the conversion could not fix and the user should look at, even
+// where the output conforms
+export function reviewItems(report: ConversionReport): ConformanceItem[] {
+  return [
+    ...report.level.unresolved.map((title) => ({ title, pages: [], details: [] })),
+    ...report.transparency
+      .filter((page) => !page.textKept)
+      .map((page) => ({
+        title: `Parte do texto da página ${page.page} não pôde ser mantida ao achatá-la`,
+        pages: [page.page],
+        details: ['O conteúdo da página não pôde ser decodificado; o texto afetado não é pesquisável'],
+      })),
+    ...report.fonts
+      .filter((font) => font.action === 'unresolved')
+      .map((font) => ({
+        title: `Fonte ${font.name} não pôde ser incorporada`,
+        pages: [],
+        details: [font.reason ?? `Fonte ${font.subtype} sem programa incorporado`],
+      })),
+    ...report.fonts
+      .filter((font) => (font.missingGlyphs?.length ?? 0) > 0)
+      .map((font) => ({
+        title: `A fonte substituta ${font.substitute} não tem ${font.missingGlyphs!.length} glifo(s) de ${font.name}`,
+        pages: [],
+        details: [`Glifos ausentes: ${font.missingGlyphs!.join(', ')}`],
+      })),
+    ...report.unicode
+      .filter((font) => font.unmappedGlyphs.length > 0)
+      .map((font) => ({
+        title: `${font.unmappedGlyphs.length} glifo(s) da fonte ${font.font} sem correspondência Unicode`,
+        pages: font.pages,
+        details: [`Glifos: ${font.unmappedGlyphs.join(', ')}`],
+      })),
+    ...report.color.unresolved.map((space) => ({
+      title: `Espaço de cor ${space} não coberto pelo perfil ${report.color.profile}`,
+      pages: [],
+      details: [],
+    })),
+  ];
+}
+
+// What the conversion changed to make the file conform, by stage
+export function fixedGroups(report: ConversionReport): ConformanceGroup[] {
+  const sanitized = new Map<string, ConformanceItem>();
+  report.sanitization.forEach(({ detail, location }) => {
+    const item = sanitized.get(detail) ?? { title: detail, pages: [], details: [] };
+    item.details.push(location);
+    const page = /^Página (\d+)$/.exec(location);
+    if (page) item.pages.push(Number(page[1]));
+    sanitized.set(detail, item);
+  });
+
+  const groups: ConformanceGroup[] = [
+    {
+      label: 'Criptografia',
+      items: report.encryption
+        ? [{
+            title: 'Criptografia removida',
+            pages: [],
+            details: [
+              `${report.encryption.algorithm}, revisão ${report.encryption.revision}`,
+              `Arquivo aberto ${passwordLabels[report.encryption.password]}`,
+            ],
+          }]
+        : [],
+    },
+    { label: 'Conteúdo não permitido', items: Array.from(sanitized.values()) },
+    {
+      label: `Regras do ${pdfaFormatLabels[report.level.formatType]}`,
+      items: report.level.fixed.map((title) => ({ title, pages: [], details: [] })),
+    },
+    {
+      label: 'Fontes',
+      items: report.fonts
+        .filter((font) => font.action === 'substituted')
+        .map((font) => ({
+          title: `Fonte ${font.name} substituída por ${font.substitute}`,
+          pages: [],
+          details: [
+            `Tipo ${font.subtype}`,
+            font.metricCompatible ? 'Substituta com métricas compatíveis' : 'Substituta sem métricas compatíveis',
+          ],
+        })),
+    },
+    {
+      label: 'Unicode',
+      items: report.unicode
+        .filter((font) => font.status === 'generated' || font.status === 'repaired')
+        .map((font) => ({
+          title: `Mapeamento Unicode ${font.status === 'generated' ? 'gerado' : 'corrigido'} para a fonte ${font.font}`,
+          pages: font.pages,
+          details: [`${font.mappedCodes} código(s) mapeado(s)`],
+        })),
+    },
+    {
+      label: 'Cores',
+      items: report.color.outputIntent === 'added'
+        ? [{
+            title: `Perfil de cores ${report.color.profile} adicionado (OutputIntent)`,
+            pages: [],
+            details: report.color.deviceColorSpaces.length > 0
+              ? [`Espaços de cor do documento: ${report.color.deviceColorSpaces.join(', ')}`]
+              : [],
+          }]
+        : [],
+    },
+    {
+      label: 'Transparência',
+      items: report.transparency.map((page) => ({
+        title: page.action === 'flattened'
+          ? `Página ${page.page} achatada em imagem opaca`
+          : `Grupos de transparência removidos da página ${page.page}`,
+        pages: [page.page],
+        details: [
+          `Uso: ${page.usages.map((usage) => transparencyLabels[usage]).join(', ')}`,
+          ...(page.annotations > 0 ? [`${page.annotations} anotação(ões) desenhada(s) na imagem`] : []),
+        ],
+      })),
+    },
+  ];
+  return groups.filter((group) => group.items.length > 0);
+}
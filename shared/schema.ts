@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,10 +6,15 @@ import { z } from "zod";
 export const pdfJobs = pgTable("pdf_jobs", {
   id: serial("id").primaryKey(),
   originalName: text("original_name").notNull(),
-  status: text("status").notNull(), // 'pending', 'processing', 'completed', 'failed'
+  // 'pending', 'processing', 'completed', 'completed_with_warnings',
+  // 'failed', 'failed_validation', 'password_required', 'password_incorrect'
+  status: text("status").notNull(),
   inputUrl: text("input_url").notNull(),
   outputUrl: text("output_url"),
   errorMessage: text("error_message"),
+  result: jsonb("result").$type<ConversionReport>(),
+  // Verification of the converted file against the level it claims
+  validation: jsonb("validation").$type<ValidationResult>(),
   createdAt: text("created_at").notNull(),
 });
 
@@ -23,10 +28,438 @@ export const insertPdfJobSchema = createInsertSchema(pdfJobs).pick({
 export type InsertPdfJob = z.infer<typeof insertPdfJobSchema>;
 export type PdfJob = typeof pdfJobs.$inferSelect;
 
+// PDF/A conformance levels the converter can produce
+export const pdfaFormatTypes = [
+  'pdf_a_1b',
+  'pdf_a_1a',
+  'pdf_a_2b',
+  'pdf_a_2u',
+  'pdf_a_2a',
+  'pdf_a_3b',
+  'pdf_a_3u',
+] as const;
+
+export type PdfaFormatType = typeof pdfaFormatTypes[number];
+
+export const pdfaFormatLabels: Record<PdfaFormatType, string> = {
+  pdf_a_1b: 'PDF/A-1b',
+  pdf_a_1a: 'PDF/A-1a',
+  pdf_a_2b: 'PDF/A-2b',
+  pdf_a_2u: 'PDF/A-2u',
+  pdf_a_2a: 'PDF/A-2a',
+  pdf_a_3b: 'PDF/A-3b',
+  pdf_a_3u: 'PDF/A-3u',
+};
+
+// Level A formats, which require a tagged document with a logical structure
+export function isTaggedFormat(type: PdfaFormatType): boolean {
+  return type.endsWith('a');
+}
+
+// Files accepted for conversion: PDFs, and photographed or scanned pages as
+// JPEG, PNG or (multi-page) TIFF images
+export const inputFormats = ['pdf', 'jpeg', 'png', 'tiff'] as const;
+
+export type InputFormat = typeof inputFormats[number];
+
+export const inputMimeTypes: Record<InputFormat, string> = {
+  pdf: 'application/pdf',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  tiff: 'image/tiff',
+};
+
+// File picker filter for the accepted formats
+export const inputFileAccept = '.pdf,.jpg,.jpeg,.png,.tif,.tiff,' + Object.values(inputMimeTypes).join(',');
+
+// Whether a picked file looks like an accepted format; some systems report
+// no MIME type for TIFF files, so the extension counts too
+export function isAcceptedInputFile({ name, type }: { name: string; type: string }): boolean {
+  return Object.values(inputMimeTypes).includes(type) || /\.(pdf|jpe?g|png|tiff?)$/i.test(name);
+}
+
+// Relationship of an associated file to the document (PDF/A-3 /AFRelationship)
+export const afRelationships = ['Source', 'Data', 'Alternative', 'Supplement'] as const;
+
+export type AfRelationship = typeof afRelationships[number];
+
+// Relationships of the attachment files sent with a conversion job, in upload order
+export const attachmentRelationshipsSchema = z.array(z.enum(afRelationships));
+
+// What to do with transparency in a PDF/A-1 target, which forbids it
+export const transparencyModes = ['flatten', 'fail'] as const;
+
+export type TransparencyMode = typeof transparencyModes[number];
+
+// Which pages OCR runs on: pages without text, pages without text after
+// removing earlier OCR layers, or every page
+export const ocrModes = ['skip_text', 'redo_ocr', 'force'] as const;
+
+export type OcrMode = typeof ocrModes[number];
+
+// OCR results exported next to the PDF: hOCR, ALTO v4 XML and UTF-8 text
+export const ocrArtifactTypes = ['hocr', 'alto', 'text'] as const;
+
+export type OcrArtifactType = typeof ocrArtifactTypes[number];
+
+// Tesseract language codes, e.g. "por" or "chi_sim"
+const ocrLanguageSchema = z.string().regex(/^[a-z]{3}(_[a-z]+)*$/);
+
+// Scan preprocessing before OCR, step by step
+export const preprocessingOptionsSchema = z.object({
+  // Turn pages upright using orientation detection
+  rotate: z.boolean().default(true),
+  deskew: z.boolean().default(true),
+  // Reduce the image OCR reads to black and white
+  binarize: z.boolean().default(false),
+  // Clear isolated specks from the image OCR reads
+  despeckle: z.boolean().default(false),
+});
+
+export type PreprocessingOptions = z.infer<typeof preprocessingOptionsSchema>;
+
 // Conversion options schema
 export const conversionOptionsSchema = z.object({
   applyOcr: z.boolean().default(true),
-  formatType: z.enum(['pdf_a_2u']).default('pdf_a_2u'),
+  ocrMode: z.enum(ocrModes).default('skip_text'),
+  // Languages to recognize together, e.g. ["por", "eng"], or "auto" to
+  // detect them on a sample of the pages
+  languages: z.union([z.literal('auto'), z.array(ocrLanguageSchema).min(1)]).default(['por']),
+  preprocessing: preprocessingOptionsSchema.default({}),
+  // Tesseract confidence (0-100) below which words are reported as
+  // low-confidence regions and pages are flagged for review
+  confidenceThreshold: z.number().min(0).max(100).default(70),
+  ocrArtifacts: z.array(z.enum(ocrArtifactTypes)).default([]),
+  formatType: z.enum(pdfaFormatTypes).default('pdf_a_2u'),
+  // Embed the uploaded file itself as the Source of the PDF/A-3 output
+  embedOriginal: z.boolean().default(false),
+  // Password of an encrypted input; never stored on the job
+  password: z.string().optional(),
+  // PDF/A-1 only: flatten pages that use transparency, or fail the job
+  transparency: z.enum(transparencyModes).default('flatten'),
 });
 
 export type ConversionOptions = z.infer<typeof conversionOptionsSchema>;
+
+// Color management stage: OutputIntent and device color space usage
+export interface ColorReport {
+  outputIntent: 'existing' | 'added';
+  profile: string;
+  // Whether the document paints with device color spaces at all
+  required: boolean;
+  deviceColorSpaces: string[];
+  // Device color spaces the chosen OutputIntent does not cover
+  unresolved: string[];
+}
+
+// Font stage: one entry per font dictionary in the document
+export interface FontReport {
+  name: string;
+  subtype: string;
+  action: 'embedded' | 'substituted' | 'unresolved';
+  substitute?: string;
+  metricCompatible?: boolean;
+  // Glyph names of the original encoding that the substitute lacks
+  missingGlyphs?: string[];
+  reason?: string;
+}
+
+// Unicode stage: ToUnicode coverage of the codes each font shows
+export interface UnicodeReport {
+  font: string;
+  status: 'present' | 'generated' | 'repaired' | 'not_required';
+  mappedCodes: number;
+  unmappedGlyphs: string[];
+  // One-based pages showing at least one unmapped glyph
+  pages: number[];
+}
+
+// Sanitization stage: one entry per forbidden construct removed or replaced
+export interface SanitizationEntry {
+  kind:
+    | 'javascript'
+    | 'action'
+    | 'additional_actions'
+    | 'annotation'
+    | 'form'
+    | 'transfer_function'
+    | 'external_stream'
+    | 'reference_xobject'
+    | 'postscript'
+    | 'image';
+  // Where the construct was found, e.g. "Página 2" or "Annot/Link (12 0 R)"
+  location: string;
+  detail: string;
+}
+
+// Conformance level stage: rules specific to the requested PDF/A part and level
+export interface LevelReport {
+  formatType: PdfaFormatType;
+  // Constructs changed to satisfy the level
+  fixed: string[];
+  // Constructs the level forbids that could not be fixed automatically
+  unresolved: string[];
+}
+
+// Associated files stage: one entry per file embedded in a PDF/A-3 output
+export interface AttachmentReport {
+  name: string;
+  mimeType: string;
+  size: number;
+  relationship: AfRelationship | 'Unspecified';
+  origin: 'uploaded' | 'original' | 'existing';
+  // XMP extension schema written for the file, e.g. "Factur-X"
+  extensionSchema?: string;
+}
+
+// Encryption removed from the input (PDF/A forbids encryption)
+export interface EncryptionReport {
+  algorithm: string;
+  revision: number;
+  // Which password opened the file: 'none' means an empty user password
+  password: 'none' | 'user' | 'owner';
+}
+
+// Transparency stage (PDF/A-1 only): one entry per page that used transparency
+export interface TransparencyReport {
+  // One-based page number
+  page: number;
+  usages: Array<'group' | 'soft_mask' | 'constant_alpha' | 'blend_mode'>;
+  // flattened: the page was rendered to an opaque image, its text kept invisible
+  // groups_removed: only transparency groups without visible effect were found
+  action: 'flattened' | 'groups_removed';
+  // Annotations drawn into the flattened image and removed from the page
+  annotations: number;
+  // False when content of a flattened page could not be decoded, so some of
+  // its text was not kept
+  textKept: boolean;
+}
+
+// Adjacent recognized words of one line, all below the confidence threshold
+export interface OcrRegion {
+  // Area in default user space: [x1, y1, x2, y2]
+  bbox: [number, number, number, number];
+  text: string;
+  // Mean confidence of the words, 0-100
+  confidence: number;
+}
+
+// OCR stage: one entry per page and what was decided for it
+export interface OcrPageReport {
+  // One-based page number
+  page: number;
+  // Text found before OCR: born-digital (visible) text or an invisible OCR layer
+  existingText: 'none' | 'visible' | 'invisible';
+  action: 'recognized' | 'skipped';
+  // An earlier invisible text layer was removed (redo_ocr and force)
+  replacedLayer: boolean;
+  // Words written to the invisible text layer
+  words: number;
+  // Mean Tesseract confidence of the recognized words and lines, 0-100;
+  // null when nothing was recognized
+  wordConfidence: number | null;
+  lineConfidence: number | null;
+  // Word confidence below the job's threshold: the page needs review
+  lowConfidence: boolean;
+  lowConfidenceRegions: OcrRegion[];
+  // Most columns side by side anywhere on the page; 0 when nothing was
+  // recognized
+  columns: number;
+  // Recognized text regions, in reading order
+  blocks: LayoutBlock[];
+}
+
+// A region of recognized text found by layout analysis
+export interface LayoutBlock {
+  type: 'heading' | 'text' | 'table';
+  // Area in default user space: [x1, y1, x2, y2]
+  bbox: [number, number, number, number];
+  // One-based band of the page with a column layout of its own, top to
+  // bottom, and the column of that band the block is in, left to right
+  section: number;
+  column: number;
+  text: string;
+  // Tables only: cell text by row and column
+  cells?: string[][];
+}
+
+// Scan preprocessing: corrections applied to one page before OCR
+export interface PreprocessReport {
+  // One-based page number
+  page: number;
+  // Degrees the page was turned counterclockwise to stand upright: 0, 90, 180 or 270
+  orientation: number;
+  // Angle of the text lines that was removed, degrees counterclockwise
+  skew: number;
+  binarized: boolean;
+  despeckled: boolean;
+}
+
+// OCR languages: the ones requested, or what auto mode detected
+export interface LanguageReport {
+  // Tesseract codes pages were recognized with, e.g. ["por", "eng"]
+  languages: string[];
+  detected: boolean;
+  // Auto mode: script found by orientation and script detection, e.g. "Latin"
+  script: string | null;
+  // One-based pages auto mode sampled
+  samplePages: number[];
+  // BCP 47 tag of the primary language, written to the catalog's /Lang
+  // unless the document already declares one
+  tag: string | null;
+}
+
+// Image input: one entry per image, each of which became a page
+export interface ImageInputReport {
+  page: number;
+  // Pixels
+  width: number;
+  height: number;
+  // Horizontal and vertical resolution that sized the page, in DPI
+  dpi: [number, number];
+  // False when the image declared none and the default was used
+  dpiDeclared: boolean;
+  // How the image data was stored, e.g. "JPEG" or "CCITT G4"
+  encoding: string;
+}
+
+// Format of the uploaded file
+export interface InputReport {
+  format: InputFormat;
+  // Empty for PDF input
+  images: ImageInputReport[];
+}
+
+// Summary of what the conversion pipeline did, stored on the job
+export interface ConversionReport {
+  input: InputReport;
+  pageCount: number;
+  encryption: EncryptionReport | null;
+  ocr: OcrPageReport[];
+  // Null when OCR was not requested
+  language: LanguageReport | null;
+  preprocessing: PreprocessReport[];
+  // OCR artifacts produced, each downloadable at /api/pdf/downloads/:id/<type>
+  ocrArtifacts: OcrArtifactType[];
+  level: LevelReport;
+  sanitization: SanitizationEntry[];
+  color: ColorReport;
+  fonts: FontReport[];
+  unicode: UnicodeReport[];
+  attachments: AttachmentReport[];
+  transparency: TransparencyReport[];
+}
+
+// Tesseract language data installed in the server's language directory
+export interface InstalledLanguage {
+  code: string;
+  file: string;
+  // Bytes on disk
+  size: number;
+  compressed: boolean;
+}
+
+// GET /api/ocr/languages
+export interface InstalledLanguages {
+  directory: string;
+  languages: InstalledLanguage[];
+}
+
+// PDF/A validation: the rules of ISO 19005 a file breaks, grouped by what
+// they are about
+export const validationCategories = [
+  'file_structure',
+  'encryption',
+  'metadata',
+  'fonts',
+  'color',
+  'transparency',
+  'graphics',
+  'annotations',
+  'actions',
+  'forms',
+  'embedded_files',
+  'structure',
+] as const;
+
+export type ValidationCategory = typeof validationCategories[number];
+
+export const validationCategoryLabels: Record<ValidationCategory, string> = {
+  file_structure: 'Estrutura do arquivo',
+  encryption: 'Criptografia',
+  metadata: 'Metadados',
+  fonts: 'Fontes',
+  color: 'Cores',
+  transparency: 'Transparência',
+  graphics: 'Imagens e gráficos',
+  annotations: 'Anotações',
+  actions: 'Ações',
+  forms: 'Formulários',
+  embedded_files: 'Arquivos incorporados',
+  structure: 'Estrutura lógica',
+};
+
+// A PDF/A part and conformance level, as identified in XMP (pdfaid)
+export interface PdfaConformance {
+  part: number;
+  conformance: string;
+}
+
+export interface ValidationViolation {
+  // Clause of ISO 19005-<part> broken, e.g. "6.2.11.4.1"
+  clause: string;
+  category: ValidationCategory;
+  // Indirect object the rule is broken in, e.g. "12 0 R"; null when the
+  // file as a whole breaks it
+  object: string | null;
+  // One-based page the object belongs to, when it belongs to one
+  page: number | null;
+  message: string;
+}
+
+export interface ValidationResult {
+  // What the file's XMP metadata claims; null when it claims nothing
+  claimed: PdfaConformance | null;
+  // The part and level checked: the one asked for, else the claim
+  profile: PdfaConformance;
+  compliant: boolean;
+  violations: ValidationViolation[];
+  // When the check ran (ISO 8601)
+  checkedAt: string;
+}
+
+// "PDF/A-2u" for part 2, level U
+export function pdfaConformanceLabel({ part, conformance }: PdfaConformance): string {
+  return `PDF/A-${part}${conformance.toLowerCase()}`;
+}
+
+// Compliance reports: evidence of what a job checked, fixed and verified,
+// each downloadable at /api/pdf/artifacts/:id/<type>
+export const complianceReportTypes = ['json', 'html', 'pdf'] as const;
+
+export type ComplianceReportType = typeof complianceReportTypes[number];
+
+export interface FileDigest {
+  name: string;
+  // Bytes
+  size: number;
+  sha256: string;
+}
+
+export interface ComplianceReport {
+  jobId: number;
+  tool: { name: string; version: string };
+  status: string;
+  input: FileDigest;
+  // Files uploaded to be associated with a PDF/A-3 output
+  attachments: FileDigest[];
+  // Null when the output failed verification and was withheld
+  output: FileDigest | null;
+  // The options the job ran with, less the password if one was given
+  options: Omit<ConversionOptions, 'password'>;
+  // ISO 8601: upload, conversion start and end, and verification
+  timestamps: { created: string; started: string; finished: string; validated: string };
+  // Preflight and fix-up: what was found in the input and what was changed
+  conversion: ConversionReport;
+  validation: ValidationResult;
+}